@@ -14,9 +14,19 @@ import {
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
+import { NetworkSelector } from "@/components/network-selector";
+import useWalletStore from "@/lib/use-wallet-store";
+import { useMnemonicStore } from "@/lib/use-mnemonic-store";
 
 export default function CreateWalletPage() {
   const router = useRouter();
+  const initWalletNetwork = useWalletStore((state) => state.initWalletNetwork);
+  const setInitWalletNetwork = useWalletStore(
+    (state) => state.setInitWalletNetwork
+  );
+  const setPendingMnemonic = useMnemonicStore(
+    (state) => state.setPendingMnemonic
+  );
   const [mode, setMode] = useState<"generate" | "input">("generate");
   const [generatedMnemonic] = useState(() => generateMnemonic());
   const [inputMnemonic, setInputMnemonic] = useState("");
@@ -108,7 +118,7 @@ export default function CreateWalletPage() {
       mnemonicToStore = inputMnemonic.trim();
     }
 
-    sessionStorage.setItem("pending_mnemonic", mnemonicToStore);
+    setPendingMnemonic(mnemonicToStore);
     router.push("/set-password");
   };
 
@@ -195,6 +205,11 @@ export default function CreateWalletPage() {
             I have securely saved my new recovery phrase.
           </Label>
         </div>
+
+        <NetworkSelector
+          value={initWalletNetwork}
+          onChange={setInitWalletNetwork}
+        />
       </CardContent>
       <CardFooter>
         <Button
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { PageContainer } from "@/components/page-container";
+import { ContactItem } from "@/components/contact-item";
+import { ContactDialog } from "@/components/core/contact-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { CONTACT_ENTRY_TYPE_LABELS } from "@/lib/contacts";
+import { useContactsStore } from "@/lib/use-contacts-store";
+import type { Contact } from "@/types/contacts";
+
+export default function ContactsPage() {
+  const { contacts, deleteContact } = useContactsStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingContact, setEditingContact] = useState<Contact | undefined>();
+
+  const openDialog = (contact?: Contact) => {
+    setEditingContact(contact);
+    setIsDialogOpen(true);
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard
+      .writeText(text)
+      .then(() => toast.success("Copied to clipboard"))
+      .catch(() => toast.error("Failed to copy"));
+  };
+
+  const handleDelete = (contact: Contact) => {
+    deleteContact(contact.id);
+    setSelectedId(null);
+    toast.success("Contact Deleted", { description: contact.name });
+  };
+
+  return (
+    <PageContainer>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold">Contacts</h1>
+        <Button size="sm" onClick={() => openDialog()}>
+          <Plus className="mr-1 h-4 w-4" /> New
+        </Button>
+      </div>
+
+      {contacts.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          No contacts yet. Save the people you pay to pick them when sending.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {contacts.map((contact) => (
+            <div key={contact.id}>
+              <ContactItem
+                contact={contact}
+                onClick={() =>
+                  setSelectedId(selectedId === contact.id ? null : contact.id)
+                }
+              />
+              {selectedId === contact.id && (
+                <Card className="mb-3">
+                  <CardContent className="pt-6 space-y-3 text-sm">
+                    {contact.entries.map((entry) => (
+                      <div
+                        key={entry.value}
+                        className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs text-muted-foreground">
+                            {CONTACT_ENTRY_TYPE_LABELS[entry.type]}
+                          </p>
+                          <p className="font-mono break-all">{entry.value}</p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          aria-label="Copy address"
+                          onClick={() => copyToClipboard(entry.value)}>
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                    {contact.notes && (
+                      <p className="whitespace-pre-wrap text-muted-foreground">
+                        {contact.notes}
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => openDialog(contact)}>
+                        <Pencil className="mr-1 h-4 w-4" /> Edit
+                      </Button>
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1 text-destructive">
+                            <Trash2 className="mr-1 h-4 w-4" /> Delete
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Delete {contact.name}?</DialogTitle>
+                            <DialogDescription>
+                              Past transactions will show their addresses again
+                              instead of this name.
+                            </DialogDescription>
+                          </DialogHeader>
+                          <DialogFooter>
+                            <DialogClose asChild>
+                              <Button variant="outline">Cancel</Button>
+                            </DialogClose>
+                            <DialogClose asChild>
+                              <Button
+                                variant="destructive"
+                                onClick={() => handleDelete(contact)}>
+                                Delete
+                              </Button>
+                            </DialogClose>
+                          </DialogFooter>
+                        </DialogContent>
+                      </Dialog>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ContactDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        contact={editingContact}
+      />
+    </PageContainer>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Archive,
+  ArchiveRestore,
+  Copy,
+  Loader2,
+  Plus,
+  Repeat,
+} from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { PageContainer } from "@/components/page-container";
+import {
+  DepositTracker,
+  getDepositStatusText,
+} from "@/components/core/deposit-tracker";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useDepositAddresses,
+  useDepositAddressesStore,
+} from "@/lib/use-deposit-addresses-store";
+import { useLabelsStore } from "@/lib/use-labels-store";
+import useWalletStore from "@/lib/use-wallet-store";
+import type { DepositAddress, DepositAddressStatus } from "@/types/deposits";
+
+const DEPOSIT_ADDRESS_STATUS_LABELS: Record<DepositAddressStatus, string> = {
+  unused: "Unused",
+  awaiting_confirmation: "Awaiting Confirmation",
+  claimed: "Claimed",
+};
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 12)}...${address.slice(-8)}`;
+}
+
+function DepositAddressDetails({
+  entry,
+  label,
+}: {
+  entry: DepositAddress;
+  label?: string;
+}) {
+  const setAddressLabel = useLabelsStore((state) => state.setAddressLabel);
+  const setRetired = useDepositAddressesStore((state) => state.setRetired);
+  const allDeposits = useDepositAddressesStore((state) => state.deposits);
+  const deposits = allDeposits.filter(
+    (deposit) => deposit.address === entry.address
+  );
+  const [labelInput, setLabelInput] = useState(label ?? "");
+
+  const copyToClipboard = () => {
+    navigator.clipboard
+      .writeText(entry.address)
+      .then(() => toast.success("Copied to clipboard"))
+      .catch(() => toast.error("Failed to copy"));
+  };
+
+  return (
+    <Card className="mb-3">
+      <CardContent className="pt-6 space-y-4 text-sm">
+        <div className="flex items-center gap-2">
+          <p className="flex-1 min-w-0 font-mono break-all">{entry.address}</p>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Copy address"
+            onClick={copyToClipboard}>
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+        {entry.isStatic && (
+          <p className="text-xs text-muted-foreground">
+            This address can be paid any number of times. Each deposit is
+            claimed through the Spark service provider, which keeps a small fee.
+          </p>
+        )}
+        {deposits.map((deposit) => (
+          <div key={deposit.id}>
+            <p className="text-xs text-muted-foreground">
+              {deposit.amountSats.toLocaleString()} sats ·{" "}
+              {getDepositStatusText(deposit)}
+            </p>
+            <p className="font-mono break-all">
+              {deposit.txid}:{deposit.outputIndex}
+            </p>
+          </div>
+        ))}
+        <div className="space-y-2">
+          <Label htmlFor={`label-${entry.address}`}>Label</Label>
+          <div className="flex gap-2">
+            <Input
+              id={`label-${entry.address}`}
+              value={labelInput}
+              onChange={(e) => setLabelInput(e.target.value)}
+              placeholder="e.g. Exchange withdrawal"
+            />
+            <Button
+              variant="outline"
+              disabled={labelInput.trim() === (label ?? "")}
+              onClick={() => {
+                setAddressLabel(entry.address, labelInput);
+                toast.success("Label Saved");
+              }}>
+              Save
+            </Button>
+          </div>
+        </div>
+        {entry.retiredAt ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => setRetired(entry.address, false)}>
+            <ArchiveRestore className="mr-1 h-4 w-4" /> Restore
+          </Button>
+        ) : (
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" className="w-full">
+                <Archive className="mr-1 h-4 w-4" /> Retire
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Retire this address?</DialogTitle>
+                <DialogDescription>
+                  It won&apos;t be shown for receiving again and deposits sent
+                  to it are no longer claimed automatically. You can restore it
+                  at any time.
+                </DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button variant="outline">Cancel</Button>
+                </DialogClose>
+                <DialogClose asChild>
+                  <Button
+                    variant="destructive"
+                    onClick={() => setRetired(entry.address, true)}>
+                    Retire
+                  </Button>
+                </DialogClose>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DepositAddressesPage() {
+  const addresses = useDepositAddresses();
+  const addressLabels = useLabelsStore((state) => state.addressLabels);
+  const generateDepositAddress = useWalletStore(
+    (state) => state.generateDepositAddress
+  );
+  const getStaticDepositAddress = useWalletStore(
+    (state) => state.getStaticDepositAddress
+  );
+  const [selectedAddress, setSelectedAddress] = useState<string | null>(null);
+
+  const { mutate: generateAddress, isPending: isGenerating } = useMutation({
+    mutationFn: generateDepositAddress,
+    onSuccess: (address) => {
+      setSelectedAddress(address);
+      toast.success("Deposit Address Generated");
+    },
+    onError: (err) => {
+      toast.error("Failed to Generate Address", {
+        description: (err as Error).message,
+      });
+    },
+  });
+
+  const { mutate: showStaticAddress, isPending: isLoadingStatic } = useMutation(
+    {
+      mutationFn: getStaticDepositAddress,
+      onSuccess: (address) => {
+        setSelectedAddress(address);
+        toast.success("Reusable Address Added");
+      },
+      onError: (err) => {
+        toast.error("Failed to Get Reusable Address", {
+          description: (err as Error).message,
+        });
+      },
+    }
+  );
+
+  const hasStaticAddress = addresses.some((entry) => entry.isStatic);
+  const activeAddresses = addresses.filter((entry) => !entry.retiredAt);
+  const retiredAddresses = addresses.filter((entry) => entry.retiredAt);
+
+  const renderAddress = (entry: DepositAddress) => (
+    <div key={entry.address}>
+      <button
+        type="button"
+        onClick={() =>
+          setSelectedAddress(
+            selectedAddress === entry.address ? null : entry.address
+          )
+        }
+        className="w-full flex items-center justify-between gap-3 rounded-lg p-3 text-left hover:bg-muted">
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate">
+            {addressLabels[entry.address] ?? shortenAddress(entry.address)}
+          </p>
+          <p className="text-xs text-muted-foreground truncate">
+            {entry.isStatic ? "Reusable · Created " : "Created "}
+            {formatDistanceToNow(new Date(entry.createdAt), {
+              addSuffix: true,
+            })}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <Badge variant={entry.status === "unused" ? "outline" : "secondary"}>
+            {DEPOSIT_ADDRESS_STATUS_LABELS[entry.status]}
+          </Badge>
+          {entry.amountSats !== undefined && (
+            <p className="text-xs font-medium">
+              {entry.amountSats.toLocaleString()} sats
+            </p>
+          )}
+        </div>
+      </button>
+      {selectedAddress === entry.address && (
+        <DepositAddressDetails
+          entry={entry}
+          label={addressLabels[entry.address]}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <PageContainer>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold">Deposit Addresses</h1>
+        <div className="flex gap-2">
+          {!hasStaticAddress && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => showStaticAddress()}
+              disabled={isLoadingStatic}>
+              {isLoadingStatic ? (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <Repeat className="mr-1 h-4 w-4" />
+              )}
+              Reusable
+            </Button>
+          )}
+          <Button
+            size="sm"
+            onClick={() => generateAddress()}
+            disabled={isGenerating}>
+            {isGenerating ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-1 h-4 w-4" />
+            )}
+            New
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <DepositTracker />
+      </div>
+
+      {activeAddresses.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          No deposit addresses yet. Generate one to receive Bitcoin on-chain.
+        </p>
+      ) : (
+        <div className="space-y-1">{activeAddresses.map(renderAddress)}</div>
+      )}
+
+      {retiredAddresses.length > 0 && (
+        <>
+          <h2 className="text-sm font-medium text-muted-foreground mt-6 mb-2">
+            Retired
+          </h2>
+          <div className="space-y-1 opacity-70">
+            {retiredAddresses.map(renderAddress)}
+          </div>
+        </>
+      )}
+    </PageContainer>
+  );
+}
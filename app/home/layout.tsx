@@ -3,7 +3,9 @@
 import React from "react";
 import { useRouter } from "next/navigation";
 import { BottomNav } from "@/components/bottom-nav";
+import { NetworkBanner } from "@/components/network-banner";
 import { useWallet } from "@/lib/use-wallet-store";
+import { useSessionGuard } from "@/lib/use-session-guard";
 import { Skeleton } from "@/components/ui/skeleton"; // For loading state
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Terminal } from "lucide-react";
@@ -18,6 +20,7 @@ export default function MainAppLayout({
 }) {
   const router = useRouter();
   const { initializationStatus, initializationError } = useWallet();
+  useSessionGuard();
 
   React.useEffect(() => {
     // Handle redirection based on status changes after initial render
@@ -77,6 +80,7 @@ export default function MainAppLayout({
     // Wallet is ready, render the main app layout
     return (
       <div className="flex flex-col min-h-screen">
+        <NetworkBanner />
         <main className="flex-1 flex flex-col mb-16">
           {" "}
           {/* mb-16 ensures space for BottomNav */}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { Layers, Loader2, RefreshCw } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { PageContainer } from "@/components/page-container";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LOW_TIMELOCK_BLOCKS } from "@/lib/leaves";
+import useWalletStore from "@/lib/use-wallet-store";
+import { cn } from "@/lib/utils";
+import type { LeafSummary } from "@/types/leaves";
+
+function shortenId(id: string) {
+  return `${id.slice(0, 8)}...${id.slice(-4)}`;
+}
+
+function LeafItem({
+  leaf,
+  isSelected,
+  onToggle,
+}: {
+  leaf: LeafSummary;
+  isSelected: boolean;
+  onToggle: () => void;
+}) {
+  const isTimelockLow = leaf.timelockBlocks <= LOW_TIMELOCK_BLOCKS;
+
+  return (
+    <label className="flex items-center gap-3 rounded-lg p-3 hover:bg-muted cursor-pointer">
+      <Checkbox checked={isSelected} onCheckedChange={onToggle} />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium">{leaf.valueSats.toLocaleString()} sats</p>
+        <p className="font-mono text-xs text-muted-foreground truncate">
+          Tree {shortenId(leaf.treeId)}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {leaf.receivedAt
+            ? `Received ${formatDistanceToNow(new Date(leaf.receivedAt), {
+                addSuffix: true,
+              })}`
+            : "Received from a deposit"}
+        </p>
+      </div>
+      <Badge variant={isTimelockLow ? "destructive" : "secondary"}>
+        {isTimelockLow ? "Refresh due" : `${leaf.timelockBlocks} blocks`}
+      </Badge>
+    </label>
+  );
+}
+
+export default function LeavesPage() {
+  const network = useWalletStore((state) => state.initWalletNetwork);
+  const pubkey = useWalletStore((state) => state.pubkey);
+  const getLeafSummaries = useWalletStore((state) => state.getLeafSummaries);
+  const previewLeafSwap = useWalletStore((state) => state.previewLeafSwap);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const {
+    data: leaves,
+    isPending: isLoadingLeaves,
+    isFetching,
+    refetch,
+  } = useQuery({
+    queryKey: ["leaves", network, pubkey],
+    queryFn: getLeafSummaries,
+    enabled: !!pubkey,
+  });
+
+  const {
+    mutate: preview,
+    data: swapPreview,
+    isPending: isPreviewing,
+    reset: resetPreview,
+  } = useMutation({
+    mutationFn: previewLeafSwap,
+    onError: (err) => {
+      toast.error("Preview Failed", { description: (err as Error).message });
+    },
+  });
+
+  const toggleLeaf = (id: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]
+    );
+  };
+
+  const totalSats = leaves?.reduce((sum, leaf) => sum + leaf.valueSats, 0) ?? 0;
+  const lowTimelockCount =
+    leaves?.filter((leaf) => leaf.timelockBlocks <= LOW_TIMELOCK_BLOCKS)
+      .length ?? 0;
+
+  return (
+    <PageContainer>
+      <div className="flex items-center justify-between mb-2">
+        <h1 className="text-2xl font-semibold">Leaves</h1>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Refresh leaves"
+          onClick={() => refetch()}
+          disabled={isFetching}>
+          <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Your Spark balance is split into leaves. Every transfer shortens a
+        leaf&apos;s timelock until it gets refreshed, and many small leaves make
+        payments slower. The SDK swaps them with the Spark Service Provider for
+        fewer, larger ones when it needs to, a preview shows what a swap would
+        give back and cost.
+      </p>
+
+      {isLoadingLeaves ? (
+        <div className="space-y-2">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : !leaves || leaves.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          The wallet has no leaves yet.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm mb-3">
+            {leaves.length} leaves, {totalSats.toLocaleString()} sats
+            {lowTimelockCount > 0 && ` · ${lowTimelockCount} due for refresh`}
+          </p>
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <Button
+              variant="outline"
+              onClick={() => preview(leaves.map((leaf) => leaf.id))}
+              disabled={leaves.length < 2 || isPreviewing}>
+              {isPreviewing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Layers className="mr-2 h-4 w-4" />
+              )}
+              Preview All
+            </Button>
+            <Button
+              onClick={() => preview(selectedIds)}
+              disabled={selectedIds.length < 2 || isPreviewing}>
+              Preview {selectedIds.length > 0 && `(${selectedIds.length})`}
+            </Button>
+          </div>
+          <div className="space-y-1">
+            {leaves.map((leaf) => (
+              <LeafItem
+                key={leaf.id}
+                leaf={leaf}
+                isSelected={selectedIds.includes(leaf.id)}
+                onToggle={() => toggleLeaf(leaf.id)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      <Dialog
+        open={!!swapPreview}
+        onOpenChange={(open) => {
+          if (!open) resetPreview();
+        }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Swap Preview</DialogTitle>
+            <DialogDescription>
+              In a swap the Spark Service Provider takes the selected leaves and
+              sends back new ones of the same total. Your balance doesn&apos;t
+              change apart from the fee.
+            </DialogDescription>
+          </DialogHeader>
+          {swapPreview && (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Swapped</span>
+                <span>
+                  {swapPreview.leafIds.length} leaves,{" "}
+                  {swapPreview.totalSats.toLocaleString()} sats
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Leaves in wallet</span>
+                <span>
+                  {swapPreview.leafCountBefore} → {swapPreview.leafCountAfter}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Estimated fee</span>
+                <span>{swapPreview.feeEstimateSats.toLocaleString()} sats</span>
+              </div>
+              <div>
+                <p className="text-muted-foreground mb-1">New leaves</p>
+                <div className="flex flex-wrap gap-1">
+                  {swapPreview.resultingLeavesSats.map((valueSats, idx) => (
+                    <Badge key={idx} variant="outline">
+                      {valueSats.toLocaleString()}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Close</Button>
+            </DialogClose>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </PageContainer>
+  );
+}
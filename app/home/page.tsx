@@ -1,15 +1,18 @@
 "use client";
 
+import { Suspense } from "react";
 import Link from "next/link";
 import { useWallet } from "@/lib/use-wallet-store";
 import { BalanceCard } from "@/components/balance-card";
 import { Button } from "@/components/ui/button";
 import { PageContainer } from "@/components/page-container";
 import { TransactionList } from "@/components/core/transaction-list"; // Create this component
+import { TokenList } from "@/components/core/token-list";
+import { DepositTracker } from "@/components/core/deposit-tracker";
 import { ArrowUpRight, ArrowDownLeft } from "lucide-react";
 
 export default function HomePage() {
-  const { sparkAddress } = useWallet(); // Need address for transactions
+  const { sparkAddress, tokenBalances } = useWallet(); // Need address for transactions
 
   return (
     <PageContainer>
@@ -29,10 +32,22 @@ export default function HomePage() {
           </Button>
         </div>
 
+        <DepositTracker />
+
+        {tokenBalances.value.size > 0 && (
+          <div>
+            <h2 className="text-lg font-semibold mb-3">Tokens</h2>
+            <TokenList />
+          </div>
+        )}
+
         <div>
           <h2 className="text-lg font-semibold mb-3">Recent Activity</h2>
           {sparkAddress ? (
-            <TransactionList sparkAddress={sparkAddress} />
+            // The list reads its filters from the URL search params
+            <Suspense>
+              <TransactionList sparkAddress={sparkAddress} />
+            </Suspense>
           ) : (
             <p className="text-muted-foreground text-sm">Loading address...</p> // Or skeleton
           )}
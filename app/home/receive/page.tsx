@@ -1,6 +1,8 @@
 "use client";
 
-import { useState, useMemo, useCallback } from "react";
+import { useState, useMemo, useCallback, useEffect } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
 import { useWallet } from "@/lib/use-wallet-store";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,18 +12,44 @@ import QRCodeComponent from "@/components/qr-code"; // Your QR code component
 import { PageContainer } from "@/components/page-container";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
-import { Bitcoin, Copy, Check } from "lucide-react";
+import { Bitcoin, Copy, Check, CheckCircle } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { AmountInput } from "@/components/core/amount-input";
+import { PendingInvoices } from "@/components/core/pending-invoices";
+import { formatCountdown, useCountdown } from "@/lib/use-countdown";
+import { listPendingInvoices } from "@/lib/history-db";
+import { formatBip21Uri } from "@/lib/payment-request";
+
+const INVOICE_EXPIRY_OPTIONS = [
+  { label: "10 min", seconds: 10 * 60 },
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "1 week", seconds: 7 * 24 * 60 * 60 },
+];
+const DEFAULT_INVOICE_EXPIRY_SECONDS = 60 * 60;
+const MAX_MEMO_LENGTH = 639; // BOLT11 description field limit
+const INVOICE_POLL_INTERVAL_MS = 3000;
 
 export default function ReceivePage() {
   const {
     sparkAddress,
     getBitcoinDepositAddress,
     createLightningInvoice,
+    getInvoiceStatus,
     satsUsdPrice,
+    initWalletNetwork,
+    pubkey,
+    wallet,
   } = useWallet();
   const [lightningAmountSats, setLightningAmountSats] = useState("");
+  const [lightningMemo, setLightningMemo] = useState("");
+  const [invoiceExpirySeconds, setInvoiceExpirySeconds] = useState(
+    DEFAULT_INVOICE_EXPIRY_SECONDS
+  );
+  const [unifiedAmountSats, setUnifiedAmountSats] = useState("");
+  const [unifiedLabel, setUnifiedLabel] = useState("");
+  // SSP request id of the invoice on screen
+  const [activeInvoiceId, setActiveInvoiceId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("spark"); // Default tab
   const [copiedType, setCopiedType] = useState<string | null>(null);
   const queryClient = useQueryClient();
@@ -32,33 +60,36 @@ export default function ReceivePage() {
 
   // --- Bitcoin Address ---
   const { data: btcAddress, isLoading: isLoadingBtcAddr } = useQuery({
-    queryKey: ["bitcoinDepositAddress"],
+    queryKey: ["bitcoinDepositAddress", initWalletNetwork],
     queryFn: getBitcoinDepositAddress,
-    enabled: activeTab === "bitcoin", // Only fetch when tab is active
-    staleTime: Infinity, // Address shouldn't change unless requested again
-    refetchOnMount: false,
+    enabled: activeTab === "bitcoin" || activeTab === "unified", // Only fetch when tab is active
+    // Reuses the newest unused address, so checking on every visit is cheap
+    // and stops showing one that has been used or retired meanwhile
     refetchOnWindowFocus: false,
   });
 
   // --- Lightning Invoice ---
   const {
     mutate: generateInvoice,
-    data: lightningInvoiceData, // { invoice: { encodedInvoice: string }, paymentHash: string }
     isPending: isGeneratingInvoice,
     error: invoiceError,
     reset: resetInvoice,
   } = useMutation({
-    mutationFn: async ({ amount, memo }: { amount: number; memo: string }) => {
-      return createLightningInvoice(amount, memo);
+    mutationFn: async ({
+      amount,
+      memo,
+      expirySeconds,
+    }: {
+      amount: number;
+      memo: string;
+      expirySeconds: number;
+    }) => {
+      return createLightningInvoice(amount, memo || undefined, expirySeconds);
     },
-    onSuccess: () => {
+    onSuccess: (invoice) => {
       toast("Lightning Invoice Generated");
-      const checkInterval = setInterval(() => {
-        queryClient.invalidateQueries({ queryKey: ["wallet", "balance"] });
-      }, 5000);
-      setTimeout(() => {
-        clearInterval(checkInterval);
-      }, 10 * 60 * 1000);
+      setActiveInvoiceId(invoice.id);
+      queryClient.invalidateQueries({ queryKey: ["pendingInvoices"] });
     },
     onError: (err) => {
       toast.error("Failed to Generate Invoice", {
@@ -73,9 +104,137 @@ export default function ReceivePage() {
       toast.error("Please enter a valid amount in sats.");
       return;
     }
-    generateInvoice({ amount, memo: "Spark Wallet Deposit" });
+    generateInvoice({
+      amount,
+      memo: lightningMemo.trim(),
+      expirySeconds: invoiceExpirySeconds,
+    });
+  };
+
+  // Polls the SSP until the invoice is paid, fails or expires
+  const { data: activeInvoice, isPending: isLoadingInvoice } = useQuery({
+    queryKey: ["invoiceStatus", initWalletNetwork, activeInvoiceId],
+    queryFn: () => getInvoiceStatus(activeInvoiceId!),
+    enabled: !!activeInvoiceId,
+    refetchInterval: (query) =>
+      query.state.data && query.state.data.status !== "pending"
+        ? false
+        : INVOICE_POLL_INTERVAL_MS,
+  });
+
+  // Stored in the history, so invoices left on screen can be picked up again
+  const { data: pendingInvoices = [] } = useQuery({
+    queryKey: ["pendingInvoices", initWalletNetwork, pubkey],
+    queryFn: () =>
+      listPendingInvoices({
+        network: initWalletNetwork,
+        identityPublicKey: pubkey,
+      }),
+    enabled: !!pubkey && activeTab === "lightning",
+  });
+
+  // A claimed transfer may be the payment, check without waiting for the poll
+  useEffect(() => {
+    if (!wallet) return;
+    const handleClaimed = () => {
+      queryClient.invalidateQueries({ queryKey: ["invoiceStatus"] });
+      queryClient.invalidateQueries({ queryKey: ["pendingInvoices"] });
+    };
+    wallet.on("transfer:claimed", handleClaimed);
+    return () => {
+      wallet.off("transfer:claimed", handleClaimed);
+    };
+  }, [wallet, queryClient]);
+
+  const isInvoicePaid = activeInvoice?.status === "confirmed";
+  const invoiceSecondsLeft = useCountdown(
+    isInvoicePaid ? null : activeInvoice?.expiresAt
+  );
+  const isInvoiceExpired =
+    invoiceSecondsLeft === 0 || activeInvoice?.status === "failed";
+
+  // Same amount, description and expiry as the invoice on screen
+  const handleRegenerateInvoice = () => {
+    if (!activeInvoice) return;
+    generateInvoice({
+      amount: activeInvoice.amountSats,
+      memo: activeInvoice.description ?? "",
+      expirySeconds: activeInvoice.expiresAt
+        ? Math.round(
+            (new Date(activeInvoice.expiresAt).getTime() -
+              new Date(activeInvoice.timestamp).getTime()) /
+              1000
+          )
+        : invoiceExpirySeconds,
+    });
+  };
+
+  // --- Unified BIP21 URI ---
+  const {
+    mutate: generateUnifiedInvoice,
+    data: unifiedInvoice,
+    variables: unifiedVariables,
+    isPending: isGeneratingUnified,
+    error: unifiedError,
+    reset: resetUnified,
+  } = useMutation({
+    mutationFn: async ({ amount, label }: { amount: number; label: string }) =>
+      createLightningInvoice(
+        amount,
+        label || undefined,
+        DEFAULT_INVOICE_EXPIRY_SECONDS
+      ),
+    onError: (err) => {
+      toast.error("Failed to Create Payment Request", {
+        description: (err as Error).message,
+      });
+    },
+  });
+
+  const handleGenerateUnified = () => {
+    const amount = unifiedAmountSats ? parseInt(unifiedAmountSats, 10) : 0;
+    if (isNaN(amount) || amount < 0) {
+      toast.error("Please enter a valid amount in sats.");
+      return;
+    }
+    generateUnifiedInvoice({ amount, label: unifiedLabel.trim() });
   };
 
+  const unifiedSecondsLeft = useCountdown(unifiedInvoice?.invoice.expiresAt);
+
+  // The on-chain and Spark parts never expire, so keep the URI payable by
+  // swapping in a fresh invoice with the same amount and label
+  useEffect(() => {
+    if (
+      activeTab === "unified" &&
+      unifiedSecondsLeft === 0 &&
+      unifiedVariables &&
+      !isGeneratingUnified
+    ) {
+      generateUnifiedInvoice(unifiedVariables);
+    }
+  }, [
+    activeTab,
+    unifiedSecondsLeft,
+    unifiedVariables,
+    isGeneratingUnified,
+    generateUnifiedInvoice,
+  ]);
+
+  const unifiedUri = useMemo(
+    () =>
+      btcAddress && unifiedInvoice && unifiedVariables
+        ? formatBip21Uri({
+            address: btcAddress,
+            amountSats: unifiedVariables.amount || undefined,
+            label: unifiedVariables.label || undefined,
+            lightning: unifiedInvoice.invoice.encodedInvoice,
+            spark: sparkAddress || undefined,
+          })
+        : undefined,
+    [btcAddress, unifiedInvoice, unifiedVariables, sparkAddress]
+  );
+
   const copyToClipboard = useCallback(
     (text: string | undefined, type: string) => {
       if (!text) return;
@@ -88,7 +247,7 @@ export default function ReceivePage() {
         })
         .catch(() => toast.error("Failed to copy"));
     },
-    [toast] // Removed toast from dependencies as it's likely stable
+    []
   );
 
   // Helper to get current display data based on activeTab
@@ -106,23 +265,40 @@ export default function ReceivePage() {
         };
       case "lightning":
         // Show QR/Address only if an invoice exists
-        const hasInvoice = !!lightningInvoiceData?.invoice?.encodedInvoice;
+        // A paid or expired invoice can't be paid, so stop showing it
+        const hasInvoice =
+          !!activeInvoice?.invoice && !isInvoicePaid && !isInvoiceExpired;
         return {
-          qrValue: hasInvoice
-            ? lightningInvoiceData.invoice.encodedInvoice
-            : undefined,
-          address: hasInvoice
-            ? lightningInvoiceData.invoice.encodedInvoice
-            : undefined,
+          qrValue: hasInvoice ? activeInvoice.invoice : undefined,
+          address: hasInvoice ? activeInvoice.invoice : undefined,
           label: "Lightning Invoice",
           description: hasInvoice
-            ? `Scan or copy this Lightning invoice to receive ${Number(
-                lightningAmountSats
-              ).toLocaleString()} sats.`
-            : "Enter an amount in sats to generate a Lightning invoice.",
+            ? `Scan or copy this Lightning invoice to receive ${activeInvoice.amountSats.toLocaleString()} sats.`
+            : isInvoicePaid
+            ? ""
+            : isInvoiceExpired
+            ? "This invoice has expired and can no longer be paid."
+            : "Enter an amount to generate a Lightning invoice.",
           copyType: "Lightning Invoice",
-          isLoading: isGeneratingInvoice && !hasInvoice, // Loading state for generation
-          showInput: !hasInvoice, // Show input form if no invoice yet
+          // Loading state for generation
+          isLoading:
+            isGeneratingInvoice || (!!activeInvoiceId && isLoadingInvoice),
+          showInput: !activeInvoiceId && !isGeneratingInvoice, // Show input form if no invoice yet
+        };
+      case "unified":
+        return {
+          qrValue: unifiedUri,
+          address: unifiedUri,
+          label: "Payment Request",
+          description: unifiedUri
+            ? unifiedVariables?.amount
+              ? `Any Bitcoin, Lightning or Spark wallet can pay ${unifiedVariables.amount.toLocaleString()} sats with this code.`
+              : "Any Bitcoin, Lightning or Spark wallet can pay with this code."
+            : "Create one code that any Bitcoin, Lightning or Spark wallet can pay.",
+          copyType: "Payment Request",
+          isLoading:
+            isGeneratingUnified || (!!unifiedInvoice && isLoadingBtcAddr),
+          showInput: !unifiedInvoice && !isGeneratingUnified,
         };
       case "spark":
       default:
@@ -141,17 +317,28 @@ export default function ReceivePage() {
     sparkAddress,
     btcAddress,
     isLoadingBtcAddr,
-    lightningInvoiceData,
+    activeInvoice,
+    activeInvoiceId,
+    isLoadingInvoice,
     isGeneratingInvoice,
-    lightningAmountSats,
+    isInvoicePaid,
+    isInvoiceExpired,
+    unifiedUri,
+    unifiedInvoice,
+    unifiedVariables,
+    isGeneratingUnified,
   ]);
 
+  // Forms and invoices that can't be paid anymore replace the QR code
+  const isQrHidden =
+    currentDisplayData.showInput ||
+    (activeTab === "lightning" && (isInvoiceExpired || isInvoicePaid));
+
   const renderQrCode = (value: string | undefined) => {
     // Determine if we should show a skeleton or nothing
     const showSkeleton =
       currentDisplayData.isLoading || (!value && activeTab === "bitcoin"); // Show skeleton if loading or bitcoin addr not ready
-    const hideQrArea =
-      !value && currentDisplayData.showInput && activeTab === "lightning"; // Hide area completely if showing lightning input
+    const hideQrArea = !value && isQrHidden; // Hide area completely if showing lightning input
 
     if (hideQrArea) return null;
     if (showSkeleton) return <Skeleton className="w-64 h-64 mx-auto mt-4" />;
@@ -187,11 +374,7 @@ export default function ReceivePage() {
     isLoading: boolean
   ) => {
     // Don't render address display if loading or if in lightning input mode
-    if (
-      isLoading ||
-      (currentDisplayData.showInput && activeTab === "lightning")
-    )
-      return null;
+    if (isLoading || isQrHidden) return null;
 
     return (
       <div className="w-full px-4 flex flex-col items-center">
@@ -269,6 +452,34 @@ export default function ReceivePage() {
                       maxAmountSats={100000000}
                     />
                   </div>
+                  <div className="w-full max-w-xs space-y-2">
+                    <Label htmlFor="invoice-memo">Description (optional)</Label>
+                    <Input
+                      id="invoice-memo"
+                      value={lightningMemo}
+                      onChange={(e) => setLightningMemo(e.target.value)}
+                      maxLength={MAX_MEMO_LENGTH}
+                      placeholder="What is this payment for?"
+                    />
+                  </div>
+                  <div className="w-full max-w-xs space-y-2">
+                    <Label>Expires after</Label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {INVOICE_EXPIRY_OPTIONS.map(({ label, seconds }) => (
+                        <Button
+                          key={seconds}
+                          size="sm"
+                          variant={
+                            invoiceExpirySeconds === seconds
+                              ? "default"
+                              : "outline"
+                          }
+                          onClick={() => setInvoiceExpirySeconds(seconds)}>
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
                   <Button
                     onClick={handleGenerateInvoice}
                     disabled={isGeneratingInvoice || !lightningAmountSats}
@@ -282,18 +493,146 @@ export default function ReceivePage() {
                   )}
                 </>
               )}
+              {currentDisplayData.showInput && (
+                <PendingInvoices
+                  invoices={pendingInvoices}
+                  onSelect={(invoice) =>
+                    setActiveInvoiceId(invoice.requestId ?? null)
+                  }
+                />
+              )}
+              {isInvoicePaid && (
+                <div className="flex flex-col items-center space-y-2 text-center">
+                  <CheckCircle className="h-16 w-16 text-green-500" />
+                  <h2 className="text-2xl font-semibold">Payment Received</h2>
+                  <p className="text-lg font-medium text-green-500">
+                    +{activeInvoice.amountSats.toLocaleString()} sats
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDistanceToNow(
+                      new Date(
+                        activeInvoice.completedAt ?? activeInvoice.timestamp
+                      ),
+                      { addSuffix: true }
+                    )}
+                  </p>
+                  <Button variant="link" asChild>
+                    <Link href={`/home/tx/${activeInvoice.id}`}>
+                      View Transaction
+                    </Link>
+                  </Button>
+                </div>
+              )}
+              {activeInvoice &&
+                !isInvoicePaid &&
+                invoiceSecondsLeft !== null && (
+                  <div className="text-center space-y-1">
+                    {activeInvoice.description && (
+                      <p className="text-sm font-medium">
+                        {activeInvoice.description}
+                      </p>
+                    )}
+                    <p
+                      className={`text-sm ${
+                        isInvoiceExpired
+                          ? "text-destructive"
+                          : "text-muted-foreground"
+                      }`}>
+                      {isInvoiceExpired
+                        ? "Expired"
+                        : `Expires in ${formatCountdown(invoiceSecondsLeft)}`}
+                    </p>
+                  </div>
+                )}
+              {isInvoiceExpired && (
+                <Button
+                  onClick={handleRegenerateInvoice}
+                  disabled={isGeneratingInvoice}>
+                  {isGeneratingInvoice ? "Generating..." : "Regenerate Invoice"}
+                </Button>
+              )}
               {/* "Create New" button only shows if an invoice *was* generated */}
-              {lightningInvoiceData?.invoice?.encodedInvoice &&
-                !currentDisplayData.showInput && (
+              {activeInvoiceId && !currentDisplayData.showInput && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setLightningAmountSats("");
+                    setLightningMemo("");
+                    setActiveInvoiceId(null);
+                    resetInvoice();
+                  }}>
+                  Create New Invoice
+                </Button>
+              )}
+            </TabsContent>
+            <TabsContent
+              value="unified"
+              className="flex flex-col items-center space-y-4">
+              {currentDisplayData.showInput && (
+                <>
+                  <div className="w-full max-w-xs space-y-2">
+                    <AmountInput
+                      onAmountChange={(amountSats) =>
+                        setUnifiedAmountSats(
+                          amountSats > 0 ? amountSats.toString() : ""
+                        )
+                      }
+                      usdRate={satsUsdPrice.value}
+                      maxAmountSats={100000000}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Leave empty to let the payer choose the amount.
+                    </p>
+                  </div>
+                  <div className="w-full max-w-xs space-y-2">
+                    <Label htmlFor="unified-label">Label (optional)</Label>
+                    <Input
+                      id="unified-label"
+                      value={unifiedLabel}
+                      onChange={(e) => setUnifiedLabel(e.target.value)}
+                      maxLength={MAX_MEMO_LENGTH}
+                      placeholder="What is this payment for?"
+                    />
+                  </div>
                   <Button
-                    variant="outline"
-                    onClick={() => {
-                      setLightningAmountSats("");
-                      resetInvoice();
-                    }}>
-                    Create New Invoice
+                    onClick={handleGenerateUnified}
+                    disabled={isGeneratingUnified}
+                    className="w-full max-w-xs">
+                    {isGeneratingUnified
+                      ? "Generating..."
+                      : "Create Payment Request"}
                   </Button>
-                )}
+                  {unifiedError && (
+                    <p className="text-red-500 text-sm">
+                      {unifiedError.message}
+                    </p>
+                  )}
+                </>
+              )}
+              {unifiedInvoice && unifiedSecondsLeft !== null && (
+                <div className="text-center space-y-1">
+                  {unifiedVariables?.label && (
+                    <p className="text-sm font-medium">
+                      {unifiedVariables.label}
+                    </p>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Lightning invoice renews in{" "}
+                    {formatCountdown(unifiedSecondsLeft)}
+                  </p>
+                </div>
+              )}
+              {unifiedInvoice && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setUnifiedAmountSats("");
+                    setUnifiedLabel("");
+                    resetUnified();
+                  }}>
+                  Create New Request
+                </Button>
+              )}
             </TabsContent>
             <TabsContent value="spark" />
             <TabsContent value="bitcoin">
@@ -302,6 +641,11 @@ export default function ReceivePage() {
                   Generating address...
                 </p>
               )}
+              <div className="flex justify-center">
+                <Button variant="link" asChild>
+                  <Link href="/home/deposits">Manage Addresses</Link>
+                </Button>
+              </div>
             </TabsContent>
           </div>
         </div>
@@ -309,10 +653,11 @@ export default function ReceivePage() {
         {/* Absolutely Positioned Sticky Tab List */}
         {/* Adjusted classes: absolute, bottom-0, h-16 (adjust height as needed) */}
         <div className="absolute bottom-5 left-0 right-0 h-16 px-4 pt-2 pb-4 border-t bg-background z-10 flex items-center">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="spark">Spark</TabsTrigger>
             <TabsTrigger value="bitcoin">Bitcoin</TabsTrigger>
             <TabsTrigger value="lightning">Lightning</TabsTrigger>
+            <TabsTrigger value="unified">Unified</TabsTrigger>
           </TabsList>
         </div>
       </Tabs>
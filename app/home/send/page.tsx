@@ -2,13 +2,51 @@
 
 import { useState, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation"; // If using separate routes for steps
+import { useQuery } from "@tanstack/react-query";
 import { useWallet } from "@/lib/use-wallet-store";
-import { getAddressType } from "@/lib/address-utils";
+import {
+  getBip21Destination,
+  parseBolt11,
+  parsePaymentRequest,
+  tryParsePaymentRequest,
+  type Bolt11PaymentRequest,
+  type PaymentRequest,
+} from "@/lib/payment-request";
 import { PageContainer } from "@/components/page-container";
 import { QrScanner } from "@/components/core/qr-scanner";
 import { AmountInput } from "@/components/core/amount-input";
+import { TokenPicker } from "@/components/core/token-picker";
+import { ContactPicker } from "@/components/core/contact-picker";
+import { ContactDialog } from "@/components/core/contact-dialog";
+import { ContactAvatar } from "@/components/contact-item";
+import { findContactByAddress, tryParseContactEntry } from "@/lib/contacts";
+import { useContactIndex } from "@/lib/use-contacts-store";
+import { useWalletTokens } from "@/lib/use-wallet-tokens";
+import { useSettingsStore } from "@/lib/use-settings-store";
+import { getLightningFeeCap } from "@/lib/fee-policy";
+import {
+  DEFAULT_WITHDRAWAL_SPEED,
+  WITHDRAWAL_SPEEDS,
+  WITHDRAWAL_SPEED_LABELS,
+  type WithdrawalSpeed,
+} from "@/lib/withdrawal-fees";
+import {
+  formatSendStatus,
+  getSendResultTxId,
+  isLightningSendPending,
+  type SendResult,
+} from "@/lib/send-result";
+import { mempoolTxUrl } from "@/lib/network";
+import { formatTokenAmount } from "@/lib/token-utils";
+import {
+  requestLnurlPayInvoice,
+  resolveLnurl,
+  submitLnurlWithdraw,
+  type LnurlPayRequest,
+  type LnurlSuccessAction,
+  type LnurlWithdrawRequest,
+} from "@/lib/lnurl";
 import { Button } from "@/components/ui/button";
-import { decode } from "light-bolt11-decoder";
 import {
   Sheet,
   SheetContent,
@@ -21,7 +59,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
-import { AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+import { AlertCircle, CheckCircle, Loader2, UserPlus } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -33,10 +71,11 @@ import {
 type SendStep =
   | "scan_or_paste"
   | "enter_amount"
+  | "redeem"
   | "confirm"
   | "sending"
   | "result";
-type AddressType = "bitcoin" | "spark" | "lightning" | "unknown";
+type AddressType = "bitcoin" | "spark" | "lightning" | "lnurl" | "unknown";
 
 interface InvoiceData {
   amountSats: number;
@@ -47,16 +86,34 @@ interface InvoiceData {
   feeEstimate?: number;
 }
 
+const toInvoiceData = (invoice: Bolt11PaymentRequest): InvoiceData => ({
+  amountSats: invoice.amountSats,
+  description: invoice.description || "No description",
+  expiry: invoice.expirySeconds,
+  timestamp: invoice.timestamp,
+  expiryDate: invoice.expiryDate,
+  feeEstimate: 0, // Will be populated later
+});
+
 export default function SendPage() {
   const router = useRouter();
   const {
     payLightningInvoice,
+    getLightningSendResult,
     sendTransfer,
+    transferTokens,
     withdrawOnchain,
+    getWithdrawalFeeQuotes,
     satsUsdPrice,
     btcBalance,
     getInvoiceFeeEstimate,
+    createLightningInvoice,
+    initWalletNetwork,
   } = useWallet();
+  const { tokens } = useWalletTokens();
+  const lightningFeePolicy = useSettingsStore(
+    (state) => state.lightningFeePolicy
+  );
   const [step, setStep] = useState<SendStep>("scan_or_paste");
   const [recipient, setRecipient] = useState<string>("");
   const [addressType, setAddressType] = useState<AddressType>("unknown");
@@ -65,9 +122,111 @@ export default function SendPage() {
   const [isPastedValueValid, setIsPastedValueValid] = useState<boolean>(false);
   const [isSheetOpen, setIsSheetOpen] = useState(false);
   const [sendError, setSendError] = useState<string | null>(null);
-  const [sendSuccessTxId, setSendSuccessTxId] = useState<string | null>(null); // Could be LN payment hash or on-chain txid
+  const [sendResult, setSendResult] = useState<SendResult | null>(null);
   const [invoiceData, setInvoiceData] = useState<InvoiceData | null>(null);
   const [isLoadingFee, setIsLoadingFee] = useState<boolean>(false);
+  const [selectedTokenPubkey, setSelectedTokenPubkey] = useState<string | null>(
+    null
+  ); // null means BTC
+  const [tokenAmount, setTokenAmount] = useState<bigint>(BigInt(0));
+  const [lnurlPay, setLnurlPay] = useState<LnurlPayRequest | null>(null);
+  const [lnurlInvoice, setLnurlInvoice] = useState<string>(""); // Invoice fetched from the LNURL callback
+  const [lnurlComment, setLnurlComment] = useState<string>("");
+  const [lnurlSuccessAction, setLnurlSuccessAction] =
+    useState<LnurlSuccessAction | null>(null);
+  const [isResolvingLnurl, setIsResolvingLnurl] = useState<boolean>(false);
+  const [maxFeeOverride, setMaxFeeOverride] = useState<string>(""); // Empty uses the fee policy
+  const [isEditingMaxFee, setIsEditingMaxFee] = useState<boolean>(false);
+  const [lnurlWithdraw, setLnurlWithdraw] =
+    useState<LnurlWithdrawRequest | null>(null);
+  const [withdrawProgress, setWithdrawProgress] = useState<
+    "creating_invoice" | "submitting" | null
+  >(null);
+  const [isContactDialogOpen, setIsContactDialogOpen] = useState(false);
+  const [withdrawalSpeed, setWithdrawalSpeed] = useState<WithdrawalSpeed>(
+    DEFAULT_WITHDRAWAL_SPEED
+  );
+
+  // LNURL-pay ends in a regular Lightning invoice once an amount is chosen
+  const isLightningPayment =
+    addressType === "lightning" || addressType === "lnurl";
+  const invoiceToPay = addressType === "lnurl" ? lnurlInvoice : recipient;
+  // Zero-amount invoices are paid the amount entered on the amount step
+  const isZeroAmountInvoice =
+    addressType === "lightning" && invoiceData?.amountSats === 0;
+  const lightningAmountSats = isZeroAmountInvoice
+    ? amountSats
+    : invoiceData?.amountSats ?? 0;
+  // LNURL-pay recipients are shown by Lightning Address when they have one
+  const lightningAddress =
+    addressType === "lnurl" ? lnurlPay?.lightningAddress : undefined;
+
+  const contactIndex = useContactIndex();
+  const recipientContact = recipient
+    ? findContactByAddress(contactIndex, recipient, initWalletNetwork)
+    : undefined;
+
+  // Fee cap for this payment: the per-payment override, else the policy
+  const parsedMaxFeeOverride =
+    maxFeeOverride.trim() !== "" && Number.isInteger(Number(maxFeeOverride))
+      ? Math.max(0, Number(maxFeeOverride))
+      : undefined;
+  const lightningFeeCap =
+    parsedMaxFeeOverride ??
+    getLightningFeeCap(lightningAmountSats, lightningFeePolicy);
+  const isFeeAboveCap =
+    isLightningPayment &&
+    lightningFeeCap !== null &&
+    (invoiceData?.feeEstimate ?? 0) > lightningFeeCap;
+
+  // On-chain withdrawals pay their fee out of the amount sent, so the
+  // recipient gets the amount minus the fee for the chosen speed
+  const withdrawalFeeQuotes = useQuery({
+    queryKey: ["withdrawalFeeQuotes", initWalletNetwork, recipient, amountSats],
+    queryFn: () => getWithdrawalFeeQuotes(recipient, amountSats),
+    enabled: step === "confirm" && addressType === "bitcoin" && amountSats > 0,
+    staleTime: 30000,
+    retry: false,
+  });
+  const withdrawalFeeQuote = withdrawalFeeQuotes.data?.[withdrawalSpeed];
+  const withdrawalNetSats = withdrawalFeeQuote
+    ? amountSats - withdrawalFeeQuote.feeSats
+    : undefined;
+  const isWithdrawalFeeTooHigh =
+    withdrawalNetSats !== undefined && withdrawalNetSats <= 0;
+
+  // A Lightning payment's preimage arrives once it settles, keep polling
+  // the send request until then
+  const lightningSendStatus = useQuery({
+    queryKey: [
+      "lightningSendResult",
+      initWalletNetwork,
+      sendResult?.type === "lightning" ? sendResult.requestId : null,
+    ],
+    queryFn: () =>
+      getLightningSendResult(
+        sendResult?.type === "lightning" ? sendResult.requestId : ""
+      ),
+    enabled:
+      step === "result" &&
+      sendResult?.type === "lightning" &&
+      isLightningSendPending(sendResult),
+    refetchInterval: (query) =>
+      query.state.data && !isLightningSendPending(query.state.data)
+        ? false
+        : 2000,
+  });
+  const receipt =
+    sendResult?.type === "lightning"
+      ? lightningSendStatus.data ?? sendResult
+      : sendResult;
+  const receiptTxId = receipt ? getSendResultTxId(receipt) : undefined;
+
+  // Tokens can only be sent to Spark addresses
+  const selectedToken =
+    addressType === "spark"
+      ? tokens.find((token) => token.pubkey === selectedTokenPubkey)
+      : undefined;
 
   // Validate pasted value in real-time
   useEffect(() => {
@@ -75,9 +234,10 @@ export default function SendPage() {
       setIsPastedValueValid(false);
       return;
     }
-    const type = getAddressType(pastedValue.trim());
-    setIsPastedValueValid(type !== "unknown");
-  }, [pastedValue]);
+    setIsPastedValueValid(
+      tryParsePaymentRequest(pastedValue, initWalletNetwork) !== null
+    );
+  }, [pastedValue, initWalletNetwork]);
 
   const resetState = () => {
     setStep("scan_or_paste");
@@ -88,83 +248,44 @@ export default function SendPage() {
     setIsPastedValueValid(false);
     setIsSheetOpen(false);
     setSendError(null);
-    setSendSuccessTxId(null);
+    setSendResult(null);
     setInvoiceData(null);
+    setSelectedTokenPubkey(null);
+    setTokenAmount(BigInt(0));
+    setLnurlPay(null);
+    setLnurlInvoice("");
+    setLnurlComment("");
+    setLnurlSuccessAction(null);
+    setLnurlWithdraw(null);
+    setWithdrawProgress(null);
+    setMaxFeeOverride("");
+    setIsEditingMaxFee(false);
+    setWithdrawalSpeed(DEFAULT_WITHDRAWAL_SPEED);
   };
 
-  // Get fee estimate for a lightning invoice
-  const getFeeEstimate = async (invoice: string): Promise<number> => {
-    try {
-      setIsLoadingFee(true);
-      const feeEstimate = await getInvoiceFeeEstimate(invoice);
-      setIsLoadingFee(false);
-      return feeEstimate;
-    } catch (error) {
-      console.error("Error getting fee estimate:", error);
-      setIsLoadingFee(false);
-      return 0; // Return 0 if estimate fails, but we should handle this better in UI
-    }
-  };
-
-  // Parse a Lightning invoice to extract details
-  const parseInvoice = (invoice: string): InvoiceData | null => {
-    try {
-      const decoded = decode(invoice);
-
-      // Find the amount section if it exists
-      const amountSection = decoded.sections.find(
-        (section) => section.name === "amount"
-      );
-      const amountSats = amountSection ? Number(amountSection.value) / 1000 : 0; // convert msat to sat if exists
-
-      // Find the description
-      const descriptionSection = decoded.sections.find(
-        (section) => section.name === "description"
-      );
-      const description = descriptionSection
-        ? descriptionSection.value
-        : "No description";
-
-      // Find expiry and timestamp if available
-      const expirySection = decoded.sections.find(
-        (section) => section.name === "expiry"
-      );
-      const timestampSection = decoded.sections.find(
-        (section) => section.name === "timestamp"
-      );
-
-      const expirySeconds = expirySection
-        ? Number(expirySection.value)
-        : undefined;
-      const timestamp = timestampSection
-        ? Number(timestampSection.value)
-        : undefined;
-
-      // Calculate expiry date if both timestamp and expiry are available
-      let expiryDate;
-      if (timestamp && expirySeconds) {
-        expiryDate = new Date((timestamp + expirySeconds) * 1000);
+  // Get fee estimate for a lightning invoice, zero-amount ones need the
+  // amount being paid
+  const getFeeEstimate = useCallback(
+    async (invoice: string, amountSats?: number): Promise<number> => {
+      try {
+        setIsLoadingFee(true);
+        const feeEstimate = await getInvoiceFeeEstimate(invoice, amountSats);
+        setIsLoadingFee(false);
+        return feeEstimate;
+      } catch (error) {
+        console.error("Error getting fee estimate:", error);
+        setIsLoadingFee(false);
+        return 0; // Return 0 if estimate fails, but we should handle this better in UI
       }
-
-      return {
-        amountSats,
-        description,
-        expiry: expirySeconds,
-        timestamp,
-        expiryDate,
-        feeEstimate: 0, // Will be populated later
-      };
-    } catch (error) {
-      console.error("Error parsing invoice:", error);
-      return null;
-    }
-  };
+    },
+    [getInvoiceFeeEstimate]
+  );
 
   const processInput = useCallback(
     async (input: string) => {
       const trimmedInput = input.trim();
-      let finalRecipient = trimmedInput;
-      let finalAddressType: AddressType = "unknown";
+      let finalRecipient: string;
+      let finalAddressType: AddressType;
       let finalAmountSats: number | null = null; // Use null to distinguish 0 from not set
       let finalInvoiceData: InvoiceData | null = null;
 
@@ -173,153 +294,96 @@ export default function SendPage() {
       setAddressType("unknown");
       setAmountSats(0);
       setInvoiceData(null);
+      setLnurlPay(null);
+      setLnurlInvoice("");
+      setLnurlWithdraw(null);
+
+      let request: PaymentRequest;
+      try {
+        request = parsePaymentRequest(trimmedInput, initWalletNetwork);
+      } catch (error: any) {
+        toast.error("Invalid Address/Invoice/URI", {
+          description:
+            error.message ||
+            "Please scan or paste a valid Bitcoin address/URI, Spark address, Lightning invoice, LNURL or Lightning Address.",
+        });
+        return;
+      }
 
-      // Check for BIP21 URI (case-insensitive)
-      if (trimmedInput.toLowerCase().startsWith("bitcoin:")) {
+      // LNURL-pay and Lightning Addresses are resolved first, the amount
+      // is chosen on the next step and the invoice fetched after that.
+      // LNURL-withdraw vouchers go to the redeem step instead.
+      if (request.type === "lnurl" || request.type === "lightning_address") {
+        setIsResolvingLnurl(true);
         try {
-          let addressPart = trimmedInput.substring(8); // Remove 'bitcoin:'
-          let queryString = "";
-          const queryIndex = addressPart.indexOf("?");
-
-          if (queryIndex !== -1) {
-            queryString = addressPart.substring(queryIndex + 1);
-            addressPart = addressPart.substring(0, queryIndex);
-          }
-
-          // Basic validation on the main address part itself
-          const addressOnlyType = getAddressType(addressPart);
-          // BIP21 requires a Bitcoin address, reject others here.
-          if (addressOnlyType !== "bitcoin") {
-            toast.error("Invalid Bitcoin Address in URI", {
-              description:
-                "The address specified in the Bitcoin URI is not a valid Bitcoin address.",
-            });
-            return;
-          }
-
-          // Parse query string using URLSearchParams
-          const params = new URLSearchParams(queryString);
-          const lightningInvoice = params.get("lightning");
-          const amountParam = params.get("amount"); // Amount in BTC string format
-
-          if (lightningInvoice) {
-            // --- Priority: Use Lightning invoice if present ---
-            const lnInvoiceType = getAddressType(lightningInvoice);
-            if (lnInvoiceType === "lightning") {
-              finalRecipient = lightningInvoice;
-              finalAddressType = "lightning";
-              finalInvoiceData = parseInvoice(lightningInvoice); // Parse the LN invoice itself
-              if (finalInvoiceData) {
-                // Use amount from the *invoice* itself, ignore BIP21 amount param if LN is present
-                finalAmountSats = finalInvoiceData.amountSats;
-
-                // Get fee estimate for the invoice
-                if (finalAmountSats > 0) {
-                  const feeEstimate = await getFeeEstimate(lightningInvoice);
-                  finalInvoiceData.feeEstimate = feeEstimate;
-
-                  // Check if we have enough balance for amount + fee
-                  const totalAmount = finalAmountSats + feeEstimate;
-                  if (totalAmount > btcBalance.value) {
-                    toast.error("Insufficient Balance", {
-                      description: `This invoice requires ${finalAmountSats.toLocaleString()} sats plus a network fee of ${feeEstimate.toLocaleString()} sats, but you only have ${btcBalance.value.toLocaleString()} sats available.`,
-                    });
-                    return; // Stop processing
-                  }
-                }
-              } else {
-                // Handle case where the invoice within BIP21 is invalid
-                toast.error("Invalid Lightning Invoice in URI", {
-                  description:
-                    "Could not parse the Lightning invoice provided in the URI.",
-                });
-                return; // Stop processing
-              }
-            } else {
-              // Handle case where the 'lightning' parameter value isn't a valid invoice
-              toast.error("Invalid Lightning parameter", {
-                description:
-                  "The 'lightning' parameter in the URI does not contain a valid invoice.",
-              });
-              return; // Stop processing
-            }
+          const lnurlRequest = await resolveLnurl(
+            request.type === "lnurl" ? request.lnurl : request.address
+          );
+          setRecipient(
+            lnurlRequest.tag === "payRequest"
+              ? lnurlRequest.lightningAddress ?? lnurlRequest.domain
+              : lnurlRequest.domain
+          );
+          setIsSheetOpen(false);
+          if (lnurlRequest.tag === "withdrawRequest") {
+            setLnurlWithdraw(lnurlRequest);
+            setAmountSats(lnurlRequest.maxWithdrawableSats);
+            setStep("redeem");
           } else {
-            // --- No Lightning invoice, use the main Bitcoin address ---
-            finalRecipient = addressPart;
-            finalAddressType = "bitcoin"; // We validated this earlier
-
-            if (amountParam) {
-              // Use amount from BIP21 amount parameter if present
-              const amountBTC = parseFloat(amountParam);
-              if (!isNaN(amountBTC) && amountBTC > 0) {
-                // Convert BTC string to sats number
-                finalAmountSats = Math.round(amountBTC * 100_000_000);
-              } else {
-                // Handle case where amount param is present but invalid
-                toast.error("Invalid Amount in URI", {
-                  description:
-                    "The 'amount' parameter in the Bitcoin URI is invalid.",
-                });
-                return; // Stop processing
-              }
-            }
-            // If no amountParam, finalAmountSats remains null, leading to amount entry step later
+            setLnurlPay(lnurlRequest);
+            setAddressType("lnurl");
+            setStep("enter_amount");
           }
-        } catch (error) {
-          // Catch errors during URI parsing itself
-          console.error("Error parsing BIP21 URI:", error);
-          toast.error("Invalid Bitcoin URI", {
-            description: "Could not parse the provided Bitcoin URI.",
+        } catch (error: any) {
+          console.error("Error resolving LNURL:", error);
+          toast.error("Invalid LNURL", {
+            description: error.message || "Could not load the payment details.",
           });
-          return; // Stop processing
+        } finally {
+          setIsResolvingLnurl(false);
         }
-      } else {
-        // --- Not a BIP21 URI, handle as a plain address/invoice ---
-        finalAddressType = getAddressType(trimmedInput);
-        finalRecipient = trimmedInput;
-
-        if (finalAddressType === "lightning") {
-          // Parse the plain LN invoice
-          finalInvoiceData = parseInvoice(trimmedInput);
-          if (finalInvoiceData) {
-            finalAmountSats = finalInvoiceData.amountSats; // Get amount from invoice
-
-            // Get fee estimate for the invoice
-            if (finalAmountSats > 0) {
-              const feeEstimate = await getFeeEstimate(trimmedInput);
-              finalInvoiceData.feeEstimate = feeEstimate;
-
-              // Check if we have enough balance for amount + fee
-              const totalAmount = finalAmountSats + feeEstimate;
-              if (totalAmount > btcBalance.value) {
-                toast.error("Insufficient Balance", {
-                  description: `This invoice requires ${finalAmountSats.toLocaleString()} sats plus a network fee of ${feeEstimate.toLocaleString()} sats, but you only have ${btcBalance.value.toLocaleString()} sats available.`,
-                });
-                return; // Stop processing
-              }
-            }
-          } else {
-            // Handle invalid plain LN invoice
-            toast.error("Invalid Lightning Invoice", {
-              description: "Could not parse the Lightning invoice details.",
+        return;
+      }
+
+      // For BIP21 URIs pay by the cheapest rail offered
+      const destination =
+        request.type === "bip21" ? getBip21Destination(request) : request;
+      if (request.type === "bip21" && destination.type !== "bolt11") {
+        // The BIP21 amount only applies to the on-chain and Spark destinations,
+        // an invoice carries its own amount
+        finalAmountSats = request.amountSats ?? null;
+      }
+
+      if (destination.type === "bolt11") {
+        finalRecipient = destination.invoice;
+        finalAddressType = "lightning";
+        finalInvoiceData = toInvoiceData(destination);
+        finalAmountSats = finalInvoiceData.amountSats; // Get amount from invoice
+
+        // Zero-amount invoices get their fee estimate once an amount is
+        // entered on the amount step
+        if (finalAmountSats > 0) {
+          // Get fee estimate for the invoice
+          const feeEstimate = await getFeeEstimate(finalRecipient);
+          finalInvoiceData.feeEstimate = feeEstimate;
+
+          // Check if we have enough balance for amount + fee
+          const totalAmount = finalAmountSats + feeEstimate;
+          if (totalAmount > btcBalance.value) {
+            toast.error("Insufficient Balance", {
+              description: `This invoice requires ${finalAmountSats.toLocaleString()} sats plus a network fee of ${feeEstimate.toLocaleString()} sats, but you only have ${btcBalance.value.toLocaleString()} sats available.`,
             });
             return; // Stop processing
           }
         }
-        // For plain BTC/Spark, finalAmountSats remains null -> amount entry step
+      } else {
+        finalRecipient = destination.address;
+        finalAddressType = destination.type;
+        // Without a BIP21 amount, finalAmountSats remains null -> amount entry step
       }
 
       // --- Common Logic after parsing any input type ---
 
-      // Final validation check on determined type
-      if (finalAddressType === "unknown") {
-        toast.error("Invalid Address/Invoice/URI", {
-          description:
-            "Please scan or paste a valid Bitcoin address/URI, Spark address, or Lightning invoice.",
-        });
-        return;
-      }
-
       // Set state based on parsing results
       setRecipient(finalRecipient);
       setAddressType(finalAddressType);
@@ -329,8 +393,7 @@ export default function SendPage() {
 
       if (finalAddressType === "lightning") {
         // For Lightning (parsed from BIP21 or plain invoice)
-        const invoiceAmount = finalInvoiceData?.amountSats ?? 0; // Default to 0 if invoice has no amount
-        setAmountSats(invoiceAmount); // Set state amount
+        setAmountSats(finalInvoiceData?.amountSats ?? 0); // Set state amount
 
         // Check expiry ONLY if expiry data is present
         if (
@@ -345,7 +408,7 @@ export default function SendPage() {
         }
 
         // Go to amount input if the invoice has no amount (zero amount)
-        if (invoiceAmount === 0) {
+        if (finalInvoiceData?.amountSats === 0) {
           setStep("enter_amount");
         } else {
           // Go directly to confirm for LN if valid & sufficient balance/not expired
@@ -380,7 +443,7 @@ export default function SendPage() {
       setIsSheetOpen(false);
     },
     // Ensure all dependencies used within the useCallback are listed
-    [btcBalance.value, getInvoiceFeeEstimate, toast]
+    [btcBalance.value, getFeeEstimate, initWalletNetwork]
   );
 
   const handleQrResult = (result: string) => {
@@ -399,6 +462,26 @@ export default function SendPage() {
   };
 
   const handleAmountConfirm = async () => {
+    if (selectedToken) {
+      if (tokenAmount <= BigInt(0)) {
+        toast.error("Invalid Amount", {
+          description: "Please enter an amount greater than zero.",
+        });
+        return;
+      }
+      if (tokenAmount > selectedToken.balance) {
+        toast.error("Insufficient Balance", {
+          description: `You only have ${formatTokenAmount(
+            selectedToken.balance,
+            selectedToken.decimals
+          )} ${selectedToken.ticker} available.`,
+        });
+        return;
+      }
+      setStep("confirm");
+      return;
+    }
+
     if (amountSats <= 0) {
       toast.error("Invalid Amount", {
         description: "Please enter an amount greater than zero.",
@@ -406,12 +489,60 @@ export default function SendPage() {
       return;
     }
 
-    // For zero-amount lightning invoices, get fee estimate when user enters an amount
-    if (addressType === "lightning" && amountSats > 0 && invoiceData) {
-      const feeEstimate = await getFeeEstimate(recipient);
-      invoiceData.feeEstimate = feeEstimate;
+    // For LNURL-pay, fetch an invoice for the entered amount
+    if (addressType === "lnurl" && lnurlPay) {
+      if (
+        amountSats < lnurlPay.minSendableSats ||
+        amountSats > lnurlPay.maxSendableSats
+      ) {
+        toast.error("Invalid Amount", {
+          description: `This recipient accepts between ${lnurlPay.minSendableSats.toLocaleString()} and ${lnurlPay.maxSendableSats.toLocaleString()} sats.`,
+        });
+        return;
+      }
+
+      setIsResolvingLnurl(true);
+      try {
+        const { invoice, successAction } = await requestLnurlPayInvoice(
+          lnurlPay,
+          amountSats,
+          lnurlComment
+        );
+        const parsedInvoice = toInvoiceData(
+          parseBolt11(invoice, initWalletNetwork)
+        );
+        // The invoice only commits to a hash, show the LNURL description
+        parsedInvoice.description =
+          lnurlPay.parsedMetadata.description || parsedInvoice.description;
+        parsedInvoice.feeEstimate = await getFeeEstimate(invoice);
+
+        const totalAmount = amountSats + parsedInvoice.feeEstimate;
+        if (totalAmount > btcBalance.value) {
+          toast.error("Insufficient Balance", {
+            description: `This payment requires ${amountSats.toLocaleString()} sats plus a network fee of ${parsedInvoice.feeEstimate.toLocaleString()} sats, but you only have ${btcBalance.value.toLocaleString()} sats available.`,
+          });
+          return;
+        }
+
+        setLnurlInvoice(invoice);
+        setInvoiceData(parsedInvoice);
+        setLnurlSuccessAction(successAction ?? null);
+        setStep("confirm");
+      } catch (error: any) {
+        console.error("Error requesting LNURL invoice:", error);
+        toast.error("Could Not Get Invoice", {
+          description:
+            error.message || "The recipient did not return an invoice.",
+        });
+      } finally {
+        setIsResolvingLnurl(false);
+      }
+      return;
+    }
 
-      // Check for total (amount + fee)
+    // For zero-amount invoices, estimate the fee for the entered amount
+    if (addressType === "lightning" && invoiceData) {
+      const feeEstimate = await getFeeEstimate(recipient, amountSats);
       const totalAmount = amountSats + feeEstimate;
       if (totalAmount > btcBalance.value) {
         toast.error("Insufficient Balance", {
@@ -419,7 +550,12 @@ export default function SendPage() {
         });
         return;
       }
-    } else if (amountSats > btcBalance.value) {
+      setInvoiceData({ ...invoiceData, feeEstimate });
+      setStep("confirm");
+      return;
+    }
+
+    if (amountSats > btcBalance.value) {
       toast.error("Insufficient Balance", {
         description: `You only have ${btcBalance.value.toLocaleString()} sats available.`,
       });
@@ -429,9 +565,61 @@ export default function SendPage() {
     setStep("confirm");
   };
 
+  const handleRedeemConfirm = async () => {
+    if (!lnurlWithdraw) return;
+
+    if (
+      amountSats < lnurlWithdraw.minWithdrawableSats ||
+      amountSats > lnurlWithdraw.maxWithdrawableSats
+    ) {
+      toast.error("Invalid Amount", {
+        description: `You can withdraw between ${lnurlWithdraw.minWithdrawableSats.toLocaleString()} and ${lnurlWithdraw.maxWithdrawableSats.toLocaleString()} sats.`,
+      });
+      return;
+    }
+
+    setStep("sending");
+    setSendError(null);
+
+    try {
+      setWithdrawProgress("creating_invoice");
+      const receiveRequest = await createLightningInvoice(
+        amountSats,
+        lnurlWithdraw.defaultDescription ||
+          `Withdrawal from ${lnurlWithdraw.domain}`
+      );
+
+      setWithdrawProgress("submitting");
+      await submitLnurlWithdraw(
+        lnurlWithdraw,
+        receiveRequest.invoice.encodedInvoice
+      );
+
+      // The balance listener shows the "Funds Received" toast once paid
+      setStep("result");
+      toast.success("Withdrawal Requested", {
+        description: `Waiting for ${lnurlWithdraw.domain} to pay the invoice.`,
+      });
+    } catch (error: any) {
+      console.error("LNURL withdraw failed:", error);
+      const errorMessage = error.message || "An unknown error occurred.";
+      setSendError(errorMessage);
+      setStep("result");
+      toast.error("Withdrawal Failed", {
+        description: errorMessage,
+      });
+    } finally {
+      setWithdrawProgress(null);
+    }
+  };
+
   const handleSendConfirm = async () => {
     // Double-check balance before sending
-    if (addressType !== "lightning" && amountSats > btcBalance.value) {
+    if (
+      !selectedToken &&
+      !isLightningPayment &&
+      amountSats > btcBalance.value
+    ) {
       toast.error("Insufficient Balance", {
         description: `You only have ${btcBalance.value.toLocaleString()} sats available.`,
       });
@@ -439,22 +627,20 @@ export default function SendPage() {
     }
 
     // For Lightning invoices, check if the amount exists and if we have enough balance
-    if (addressType === "lightning" && invoiceData) {
-      const invoiceAmountSats =
-        (invoiceData.amountSats || 0) > 0
-          ? invoiceData.amountSats || 0
-          : amountSats;
-
+    if (isLightningPayment && invoiceData) {
       // Get latest fee estimate if we don't have one yet
-      if (!invoiceData.feeEstimate && invoiceAmountSats > 0) {
-        invoiceData.feeEstimate = await getFeeEstimate(recipient);
+      if (!invoiceData.feeEstimate) {
+        invoiceData.feeEstimate = await getFeeEstimate(
+          invoiceToPay,
+          isZeroAmountInvoice ? amountSats : undefined
+        );
       }
 
-      const totalAmount = invoiceAmountSats + (invoiceData.feeEstimate || 0);
+      const totalAmount = lightningAmountSats + (invoiceData.feeEstimate || 0);
 
       if (totalAmount > btcBalance.value) {
         toast.error("Insufficient Balance", {
-          description: `This payment requires ${invoiceAmountSats.toLocaleString()} sats plus a network fee of ${
+          description: `This payment requires ${lightningAmountSats.toLocaleString()} sats plus a network fee of ${
             invoiceData.feeEstimate?.toLocaleString() || 0
           } sats, but you only have ${btcBalance.value.toLocaleString()} sats available.`,
         });
@@ -468,29 +654,58 @@ export default function SendPage() {
         });
         return;
       }
+
+      if (isFeeAboveCap) {
+        toast.error("Fee Above Limit", {
+          description: `The estimated fee of ${(
+            invoiceData.feeEstimate || 0
+          ).toLocaleString()} sats is above your limit of ${lightningFeeCap?.toLocaleString()} sats. Raise the max fee for this payment to continue.`,
+        });
+        return;
+      }
+    }
+
+    if (
+      addressType === "bitcoin" &&
+      (!withdrawalFeeQuote || isWithdrawalFeeTooHigh)
+    ) {
+      toast.error("Fee Unavailable", {
+        description: !withdrawalFeeQuote
+          ? `No fee quote for a ${WITHDRAWAL_SPEED_LABELS[
+              withdrawalSpeed
+            ].toLowerCase()} withdrawal yet. Try again or pick another speed.`
+          : `The ${withdrawalFeeQuote.feeSats.toLocaleString()} sat fee is more than the amount being sent.`,
+      });
+      return;
     }
 
     setStep("sending");
     setSendError(null);
-    setSendSuccessTxId(null);
+    setSendResult(null);
 
     try {
-      let result: any; // To store potential txid/hash
-      if (addressType === "lightning") {
-        // For zero-amount invoices, we need to send the entered amount
-        // Check if your SDK supports this; if not, we might need to modify the approach
-        result = await payLightningInvoice(recipient);
-        // setSendSuccessTxId(result?.paymentHash || 'Success');
-        setSendSuccessTxId("Success"); // Simplified - SDK might not return hash easily
+      let result: SendResult | null = null;
+      if (isLightningPayment) {
+        // Pass the amount shown on the confirm screen, the store pays it on
+        // zero-amount invoices and checks it against the others
+        result = await payLightningInvoice(invoiceToPay, {
+          amountSats: lightningAmountSats,
+          maxFeeSats: parsedMaxFeeOverride,
+          lightningAddress,
+        });
+      } else if (addressType === "spark" && selectedToken) {
+        result = await transferTokens(
+          selectedToken.pubkey,
+          tokenAmount,
+          recipient
+        );
       } else if (addressType === "spark") {
         result = await sendTransfer(amountSats, recipient);
-        // Spark transfers might not have an immediate trackable ID in the same way
-        setSendSuccessTxId("Success");
       } else if (addressType === "bitcoin") {
-        result = await withdrawOnchain(recipient, amountSats); // Assume SDK returns { txid: '...' } or similar
-        // setSendSuccessTxId(result?.txid || 'Success');
-        setSendSuccessTxId("Success"); // Simplified
+        result = await withdrawOnchain(recipient, amountSats, withdrawalSpeed);
       }
+      console.log("Send result:", result);
+      setSendResult(result);
       setStep("result");
       toast.success("Send Successful!");
     } catch (error: any) {
@@ -517,6 +732,10 @@ export default function SendPage() {
         Scan a QR code or paste an address/invoice.
       </p>
       <QrScanner onResult={handleQrResult} onError={handleQrError} />
+      <ContactPicker
+        onSelect={(entry) => processInput(entry.value)}
+        disabled={isResolvingLnurl}
+      />
       <Sheet open={isSheetOpen} onOpenChange={setIsSheetOpen}>
         <SheetTrigger asChild>
           <Button variant="outline">Paste Address / Invoice</Button>
@@ -525,7 +744,8 @@ export default function SendPage() {
           <SheetHeader>
             <SheetTitle>Paste Recipient</SheetTitle>
             <SheetDescription>
-              Enter a Bitcoin address, Spark address, or Lightning invoice.
+              Enter a Bitcoin address, Spark address, Lightning invoice, LNURL
+              or Lightning Address.
             </SheetDescription>
           </SheetHeader>
           <div className="p-4 space-y-2">
@@ -534,7 +754,7 @@ export default function SendPage() {
               id="paste-input"
               value={pastedValue}
               onChange={(e) => setPastedValue(e.target.value)}
-              placeholder="bc1..., sp1..., lnbc..."
+              placeholder="bc1..., sp1..., lnbc..., name@domain.com"
               className={
                 pastedValue
                   ? isPastedValueValid
@@ -548,8 +768,15 @@ export default function SendPage() {
             <Button
               onClick={handlePasteSubmit}
               className="w-full"
-              disabled={!isPastedValueValid}>
-              Continue
+              disabled={!isPastedValueValid || isResolvingLnurl}>
+              {isResolvingLnurl ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                "Continue"
+              )}
             </Button>
           </SheetFooter>
         </SheetContent>
@@ -560,16 +787,98 @@ export default function SendPage() {
   const renderAmountInput = () => (
     <div className="flex flex-col items-center space-y-6">
       <h1 className="text-2xl font-semibold text-center">Enter Amount</h1>
-      <div
-        className="text-sm text-muted-foreground mb-2"
-        onClick={() => setAmountSats(btcBalance.value)}>
-        Available balance: {btcBalance.value.toLocaleString()} sats
-      </div>
+      {recipientContact && (
+        <div className="flex items-center gap-2">
+          <ContactAvatar contact={recipientContact} className="h-6 w-6" />
+          <span className="font-medium">To {recipientContact.name}</span>
+        </div>
+      )}
+      {/* Token picker - tokens can only be sent to Spark addresses */}
+      {addressType === "spark" && tokens.length > 0 && (
+        <TokenPicker
+          tokens={tokens}
+          btcBalanceSats={btcBalance.value}
+          selectedTokenPubkey={selectedTokenPubkey}
+          onSelect={(tokenPubkey) => {
+            setSelectedTokenPubkey(tokenPubkey);
+            setTokenAmount(BigInt(0));
+            setAmountSats(0);
+          }}
+        />
+      )}
+      {selectedToken ? (
+        <div className="text-sm text-muted-foreground mb-2">
+          Available balance:{" "}
+          {formatTokenAmount(selectedToken.balance, selectedToken.decimals)}{" "}
+          {selectedToken.ticker}
+        </div>
+      ) : (
+        <div className="text-sm text-muted-foreground mb-2">
+          Available balance: {btcBalance.value.toLocaleString()} sats
+        </div>
+      )}
+      {addressType === "lnurl" && lnurlPay && (
+        <div className="text-center space-y-1">
+          <p className="font-medium">{recipient}</p>
+          {lnurlPay.parsedMetadata.description && (
+            <p className="text-sm text-muted-foreground">
+              {lnurlPay.parsedMetadata.description}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {lnurlPay.minSendableSats === lnurlPay.maxSendableSats
+              ? `Amount: ${lnurlPay.minSendableSats.toLocaleString()} sats`
+              : `Between ${lnurlPay.minSendableSats.toLocaleString()} and ${lnurlPay.maxSendableSats.toLocaleString()} sats`}
+          </p>
+        </div>
+      )}
+      {isZeroAmountInvoice && invoiceData && (
+        <div className="text-center space-y-1">
+          <p className="text-sm text-muted-foreground">
+            {invoiceData.description}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            This invoice has no amount, enter how much to pay.
+          </p>
+        </div>
+      )}
       <AmountInput
+        key={selectedToken?.pubkey ?? "btc"}
         onAmountChange={setAmountSats}
         usdRate={satsUsdPrice.value}
-        maxAmountSats={btcBalance.value}
+        maxAmountSats={
+          addressType === "lnurl" && lnurlPay
+            ? Math.min(btcBalance.value, lnurlPay.maxSendableSats)
+            : btcBalance.value
+        }
+        token={
+          selectedToken
+            ? {
+                ticker: selectedToken.ticker,
+                decimals: selectedToken.decimals,
+              }
+            : undefined
+        }
+        onTokenAmountChange={setTokenAmount}
+        maxTokenAmount={selectedToken?.balance}
+        maxAmountNote={
+          addressType === "bitcoin"
+            ? "The network fee is taken out of the amount sent."
+            : undefined
+        }
       />
+      {addressType === "lnurl" && lnurlPay && lnurlPay.commentAllowed > 0 && (
+        <div className="w-full max-w-xs space-y-2">
+          <Label htmlFor="lnurl-comment">Comment (optional)</Label>
+          <Input
+            id="lnurl-comment"
+            value={lnurlComment}
+            onChange={(e) => setLnurlComment(e.target.value)}
+            maxLength={lnurlPay.commentAllowed}
+            placeholder="Add a note for the recipient"
+          />
+        </div>
+      )}
       <div className="flex gap-4 w-full max-w-xs">
         <Button
           variant="outline"
@@ -579,9 +888,18 @@ export default function SendPage() {
         </Button>
         <Button
           onClick={handleAmountConfirm}
-          disabled={amountSats <= 0 || isLoadingFee}
+          disabled={
+            (selectedToken ? tokenAmount <= BigInt(0) : amountSats <= 0) ||
+            isLoadingFee ||
+            isResolvingLnurl
+          }
           className="flex-1">
-          {isLoadingFee ? (
+          {isResolvingLnurl ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Fetching Invoice...
+            </>
+          ) : isLoadingFee ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               Calculating Fee...
@@ -594,59 +912,193 @@ export default function SendPage() {
     </div>
   );
 
+  const renderRedeem = () =>
+    lnurlWithdraw && (
+      <div className="flex flex-col items-center space-y-6">
+        <h1 className="text-2xl font-semibold text-center">Redeem Voucher</h1>
+        <div className="text-center space-y-1">
+          <p className="font-medium">{lnurlWithdraw.domain}</p>
+          {lnurlWithdraw.defaultDescription && (
+            <p className="text-sm text-muted-foreground">
+              {lnurlWithdraw.defaultDescription}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {lnurlWithdraw.minWithdrawableSats ===
+            lnurlWithdraw.maxWithdrawableSats
+              ? `Amount: ${lnurlWithdraw.maxWithdrawableSats.toLocaleString()} sats`
+              : `Between ${lnurlWithdraw.minWithdrawableSats.toLocaleString()} and ${lnurlWithdraw.maxWithdrawableSats.toLocaleString()} sats`}
+          </p>
+        </div>
+        <AmountInput
+          onAmountChange={setAmountSats}
+          initialAmountSats={lnurlWithdraw.maxWithdrawableSats}
+          usdRate={satsUsdPrice.value}
+          maxAmountSats={lnurlWithdraw.maxWithdrawableSats}
+        />
+        <div className="flex gap-4 w-full max-w-xs">
+          <Button variant="outline" onClick={resetState} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRedeemConfirm}
+            disabled={amountSats <= 0}
+            className="flex-1">
+            Redeem
+          </Button>
+        </div>
+      </div>
+    );
+
+  // Speed picker and fee breakdown for on-chain withdrawals
+  const renderWithdrawalFees = () => (
+    <>
+      <div className="space-y-2">
+        <span className="text-muted-foreground">Speed</span>
+        <div className="grid grid-cols-3 gap-2">
+          {WITHDRAWAL_SPEEDS.map((speed) => {
+            const quote = withdrawalFeeQuotes.data?.[speed];
+            return (
+              <Button
+                key={speed}
+                variant={speed === withdrawalSpeed ? "default" : "outline"}
+                className="h-auto flex-col py-2"
+                disabled={!quote}
+                onClick={() => setWithdrawalSpeed(speed)}>
+                <span>{WITHDRAWAL_SPEED_LABELS[speed]}</span>
+                <span className="text-xs font-normal">
+                  {quote ? `${quote.feeSats.toLocaleString()} sats` : "—"}
+                </span>
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
+      {withdrawalFeeQuotes.isLoading ? (
+        <div className="flex items-center justify-center text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Getting fee quotes...
+        </div>
+      ) : withdrawalFeeQuotes.isError ? (
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-destructive">
+            Couldn&apos;t get fee quotes.
+          </span>
+          <Button
+            variant="link"
+            className="h-auto p-0 text-sm"
+            onClick={() => withdrawalFeeQuotes.refetch()}>
+            Retry
+          </Button>
+        </div>
+      ) : (
+        withdrawalFeeQuote &&
+        withdrawalNetSats !== undefined && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Network Fee</span>
+              <span className="text-sm">
+                {withdrawalFeeQuote.feeSats.toLocaleString()} sats
+              </span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span>Total cost</span>
+              <span>{amountSats.toLocaleString()} sats</span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span>Recipient gets</span>
+              <span>
+                {Math.max(withdrawalNetSats, 0).toLocaleString()} sats
+              </span>
+            </div>
+            {isWithdrawalFeeTooHigh ? (
+              <p className="text-sm text-destructive">
+                The fee is more than the amount being sent. Send more or pick a
+                slower speed.
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {amountSats === btcBalance.value
+                  ? "Sending your full balance. "
+                  : ""}
+                The fee is taken out of the amount sent.
+              </p>
+            )}
+          </>
+        )
+      )}
+    </>
+  );
+
   const renderConfirm = () => {
     const displayAmountSats =
-      addressType === "lightning" && invoiceData
-        ? invoiceData.amountSats
-        : amountSats;
+      isLightningPayment && invoiceData ? lightningAmountSats : amountSats;
     const displayAmountUsd = (displayAmountSats * satsUsdPrice.value).toFixed(
       2
     );
     const feeEstimate =
-      addressType === "lightning" && invoiceData
-        ? invoiceData.feeEstimate || 0
-        : 0;
+      isLightningPayment && invoiceData ? invoiceData.feeEstimate || 0 : 0;
 
     return (
       <div className="flex flex-col items-center space-y-6">
         <h1 className="text-2xl font-semibold text-center">Confirm Transfer</h1>
 
         {/* Display Amount Prominently */}
-        {displayAmountSats > 0 && (
+        {selectedToken && (
           <div className="text-center mb-4">
-            <p className="text-4xl font-bold">${displayAmountUsd} </p>
+            <p className="text-4xl font-bold">
+              {formatTokenAmount(tokenAmount, selectedToken.decimals)}{" "}
+              {selectedToken.ticker}
+            </p>
           </div>
         )}
-        {/* If invoice has no amount (0 sats), show a message */}
-        {addressType === "lightning" && displayAmountSats <= 0 && (
+        {!selectedToken && displayAmountSats > 0 && (
           <div className="text-center mb-4">
-            <p className="text-lg font-medium text-muted-foreground">
-              (Invoice has no specified amount)
-            </p>
+            <p className="text-4xl font-bold">${displayAmountUsd} </p>
           </div>
         )}
 
         <Card className="w-full max-w-md">
           <CardContent className="pt-6 space-y-4">
             <div className="flex justify-between">
-              <span className="text-muted-foreground">To ({addressType})</span>
-              <span className="font-medium break-all text-right text-sm">
-                {recipient.substring(0, 15)}...
-                {recipient.substring(recipient.length - 8)}
+              <span className="text-muted-foreground">
+                To ({addressType === "lnurl" ? "lightning" : addressType})
               </span>
+              {recipientContact ? (
+                <span className="flex flex-col items-end text-right text-sm">
+                  <span className="font-medium">{recipientContact.name}</span>
+                  <span className="text-xs text-muted-foreground break-all">
+                    {recipient.length > 23
+                      ? `${recipient.substring(0, 15)}...${recipient.substring(
+                          recipient.length - 8
+                        )}`
+                      : recipient}
+                  </span>
+                </span>
+              ) : addressType === "lnurl" ? (
+                <span className="font-medium break-all text-right text-sm">
+                  {recipient}
+                </span>
+              ) : (
+                <span className="font-medium break-all text-right text-sm">
+                  {recipient.substring(0, 15)}...
+                  {recipient.substring(recipient.length - 8)}
+                </span>
+              )}
             </div>
 
-            {addressType === "lightning" && invoiceData ? (
+            {isLightningPayment && invoiceData ? (
               // Lightning invoice details
               <>
                 {/* Show Sats amount here inside the card only if > 0 */}
-                {invoiceData.amountSats > 0 && (
+                {lightningAmountSats > 0 && (
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">
                       Bitcoin amount
                     </span>
                     <span className="text-muted-foreground">
-                      {invoiceData.amountSats.toLocaleString()} sats
+                      {lightningAmountSats.toLocaleString()} sats
                     </span>
                   </div>
                 )}
@@ -658,6 +1110,15 @@ export default function SendPage() {
                   </span>
                 </div>
 
+                {addressType === "lnurl" && lnurlComment.trim() && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Comment</span>
+                    <span className="font-medium text-sm text-right max-w-[200px] break-words">
+                      {lnurlComment.trim()}
+                    </span>
+                  </div>
+                )}
+
                 {invoiceData.expiryDate && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Expires</span>
@@ -688,7 +1149,51 @@ export default function SendPage() {
                     </span>
                   </div>
                 )}
+
+                {/* Max fee from the fee policy, adjustable per payment */}
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Max fee</span>
+                  {isEditingMaxFee ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        inputMode="numeric"
+                        min={0}
+                        step={1}
+                        value={maxFeeOverride}
+                        onChange={(e) => setMaxFeeOverride(e.target.value)}
+                        placeholder={lightningFeeCap?.toString() ?? "No limit"}
+                        className="h-8 w-24 text-right"
+                        autoFocus
+                      />
+                      <span className="text-sm">sats</span>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="link"
+                      className="h-auto p-0 text-sm"
+                      onClick={() => setIsEditingMaxFee(true)}>
+                      {lightningFeeCap !== null
+                        ? `${lightningFeeCap.toLocaleString()} sats`
+                        : "No limit"}
+                    </Button>
+                  )}
+                </div>
+                {isFeeAboveCap && (
+                  <p className="text-sm text-destructive">
+                    The estimated fee is above your max fee. Raise it for this
+                    payment or change your fee limits in Settings.
+                  </p>
+                )}
               </>
+            ) : selectedToken ? (
+              // Spark token transfer details
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Token</span>
+                <span className="text-muted-foreground">
+                  {selectedToken.name}
+                </span>
+              </div>
             ) : (
               // Bitcoin or Spark transfer details
               <>
@@ -705,6 +1210,7 @@ export default function SendPage() {
                     {amountSats.toLocaleString()} sats
                   </span>
                 </div>
+                {addressType === "bitcoin" && renderWithdrawalFees()}
               </>
             )}
           </CardContent>
@@ -714,7 +1220,9 @@ export default function SendPage() {
             variant="outline"
             onClick={() =>
               setStep(
-                addressType === "lightning" ? "scan_or_paste" : "enter_amount"
+                addressType === "lightning" && !isZeroAmountInvoice
+                  ? "scan_or_paste"
+                  : "enter_amount"
               )
             }
             className="flex-1">
@@ -724,13 +1232,16 @@ export default function SendPage() {
             onClick={handleSendConfirm}
             className="flex-1"
             disabled={
-              (addressType === "lightning" &&
-                invoiceData?.amountSats &&
-                invoiceData.amountSats + (invoiceData.feeEstimate || 0) >
+              (isLightningPayment &&
+                invoiceData &&
+                lightningAmountSats + (invoiceData.feeEstimate || 0) >
                   btcBalance.value) ||
               (invoiceData?.expiryDate &&
                 invoiceData.expiryDate < new Date()) ||
-              isLoadingFee
+              isFeeAboveCap ||
+              isLoadingFee ||
+              (addressType === "bitcoin" &&
+                (!withdrawalFeeQuote || isWithdrawalFeeTooHigh))
             }>
             {isLoadingFee ? (
               <>
@@ -749,21 +1260,113 @@ export default function SendPage() {
   const renderSending = () => (
     <div className="flex flex-col items-center justify-center space-y-4 flex-1">
       <Loader2 className="h-12 w-12 animate-spin text-primary" />
-      <p className="text-lg font-medium">Sending...</p>
+      <p className="text-lg font-medium">
+        {lnurlWithdraw ? "Redeeming..." : "Sending..."}
+      </p>
       <p className="text-muted-foreground text-sm">
-        Please wait while we process your transaction.
+        {withdrawProgress === "creating_invoice"
+          ? "Creating an invoice for the withdrawal."
+          : withdrawProgress === "submitting"
+          ? `Sending the invoice to ${lnurlWithdraw?.domain}.`
+          : "Please wait while we process your transaction."}
       </p>
     </div>
   );
 
+  // Identifiers to keep for reconciliation
+  const renderReceipt = (result: SendResult) => {
+    const rows: { label: string; value: string; href?: string | null }[] = [];
+    switch (result.type) {
+      case "spark":
+        rows.push({ label: "Transfer ID", value: result.transferId });
+        break;
+      case "token":
+        rows.push({ label: "Transaction ID", value: result.txId });
+        break;
+      case "lightning":
+        rows.push({ label: "Status", value: formatSendStatus(result.status) });
+        rows.push({ label: "Payment hash", value: result.paymentHash });
+        rows.push({
+          label: "Preimage",
+          value:
+            result.paymentPreimage ??
+            (isLightningSendPending(result) ? "Waiting for payment..." : "—"),
+        });
+        break;
+      case "bitcoin":
+        rows.push({ label: "Status", value: formatSendStatus(result.status) });
+        rows.push({ label: "Withdrawal ID", value: result.requestId });
+        if (result.txid) {
+          rows.push({
+            label: "Bitcoin txid",
+            value: result.txid,
+            href: mempoolTxUrl(result.txid, initWalletNetwork),
+          });
+        }
+        break;
+    }
+
+    return (
+      <Card className="w-full max-w-md text-left">
+        <CardContent className="pt-6 space-y-3">
+          {rows.map(({ label, value, href }) => (
+            <div key={label} className="space-y-1">
+              <span className="text-sm text-muted-foreground">{label}</span>
+              {href ? (
+                <a
+                  href={href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block font-mono text-xs break-all underline">
+                  {value}
+                </a>
+              ) : (
+                <p className="font-mono text-xs break-all">{value}</p>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // Offer to save reusable recipients, invoices can't be paid twice
+  const renderSaveContact = () => {
+    const entry = tryParseContactEntry(recipient, initWalletNetwork);
+    if (!entry) return null;
+    return (
+      <>
+        <Button variant="outline" onClick={() => setIsContactDialogOpen(true)}>
+          <UserPlus className="mr-2 h-4 w-4" /> Save as Contact
+        </Button>
+        <ContactDialog
+          open={isContactDialogOpen}
+          onOpenChange={setIsContactDialogOpen}
+          initialEntry={entry}
+        />
+      </>
+    );
+  };
+
   const renderResult = () => (
     <div className="flex flex-col items-center justify-center space-y-4 flex-1 text-center">
       {sendError ? (
         <>
           <AlertCircle className="h-16 w-16 text-destructive" />
-          <h2 className="text-2xl font-semibold">Transfer Failed</h2>
+          <h2 className="text-2xl font-semibold">
+            {lnurlWithdraw ? "Withdrawal Failed" : "Transfer Failed"}
+          </h2>
           <p className="text-muted-foreground max-w-sm">{sendError}</p>
         </>
+      ) : lnurlWithdraw ? (
+        <>
+          <CheckCircle className="h-16 w-16 text-green-500" />
+          <h2 className="text-2xl font-semibold">Withdrawal Requested</h2>
+          <p className="text-muted-foreground max-w-sm">
+            {lnurlWithdraw.domain} is paying {amountSats.toLocaleString()} sats
+            to your wallet. You&apos;ll be notified when the funds arrive.
+          </p>
+        </>
       ) : (
         <>
           <CheckCircle className="h-16 w-16 text-green-500" />
@@ -771,10 +1374,33 @@ export default function SendPage() {
           <p className="text-muted-foreground max-w-sm">
             Your transaction has been submitted.
           </p>
-          {/* Optionally show Tx ID if available */}
-          {/* {sendSuccessTxId && sendSuccessTxId !== 'Success' && (
-             <p className="text-xs font-mono break-all text-muted-foreground mt-2">ID: {sendSuccessTxId}</p>
-           )} */}
+          {/* LUD-09 success action from the LNURL service */}
+          {lnurlSuccessAction?.tag === "message" && (
+            <p className="text-sm max-w-sm whitespace-pre-line">
+              {lnurlSuccessAction.message}
+            </p>
+          )}
+          {lnurlSuccessAction?.tag === "url" && (
+            <div className="text-sm max-w-sm">
+              <p>{lnurlSuccessAction.description}</p>
+              <a
+                href={lnurlSuccessAction.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline break-all">
+                {lnurlSuccessAction.url}
+              </a>
+            </div>
+          )}
+          {receipt && renderReceipt(receipt)}
+          {!recipientContact && renderSaveContact()}
+          {receiptTxId && (
+            <Button
+              variant="outline"
+              onClick={() => router.push(`/home/tx/${receiptTxId}`)}>
+              View Transaction
+            </Button>
+          )}
         </>
       )}
       <Button onClick={resetState} className="mt-6">
@@ -790,6 +1416,7 @@ export default function SendPage() {
     <PageContainer className="flex flex-col">
       {step === "scan_or_paste" && renderScanOrPaste()}
       {step === "enter_amount" && renderAmountInput()}
+      {step === "redeem" && renderRedeem()}
       {step === "confirm" && renderConfirm()}
       {step === "sending" && renderSending()}
       {step === "result" && renderResult()}
@@ -1,7 +1,9 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
 import { useMnemonicStore } from "@/lib/use-mnemonic-store";
 import { useWallet } from "@/lib/use-wallet-store";
 import { Button } from "@/components/ui/button";
@@ -19,17 +21,67 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
-import { Copy, Eye, EyeOff, LogOut, ShieldAlert, Trash2 } from "lucide-react";
+import {
+  Copy,
+  Download,
+  Eye,
+  EyeOff,
+  Layers,
+  LogOut,
+  ShieldAlert,
+  Trash2,
+  Upload,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import useWalletStore from "@/lib/use-wallet-store";
+import { NetworkSelector } from "@/components/network-selector";
+import { EmergencyExit } from "@/components/core/emergency-exit";
+import { NETWORK_LABELS, type WalletNetwork } from "@/lib/network";
+import { useSettingsStore } from "@/lib/use-settings-store";
+import {
+  INACTIVITY_LOCK_OPTIONS,
+  SESSION_LENGTH_OPTIONS,
+  formatMinutes,
+} from "@/lib/session-policy";
+import { getAllTransactions } from "@/lib/history-db";
+import { syncHistory } from "@/lib/history-sync";
+import {
+  HISTORY_EXPORT_FORMATS,
+  HISTORY_EXPORT_FORMAT_LABELS,
+  downloadFile,
+  exportHistory,
+  type HistoryExportFormat,
+} from "@/lib/history-export";
+import {
+  exportWalletLabels,
+  importWalletLabels,
+  isEncryptedLabelFile,
+  parseBip329Jsonl,
+  toBip329Jsonl,
+} from "@/lib/bip329";
+import { decryptWithPassword, encryptWithPassword } from "@/lib/crypto";
+
+// yyyy-mm-dd in local time, the value a date input expects
+function toDateInputValue(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
 
 export default function SettingsPage() {
   const router = useRouter();
-  const { getDecryptedMnemonic, clearEncryptedMnemonic, endSession } =
-    useMnemonicStore();
-  const { resetWallet, sparkAddress, pubkey } = useWallet();
-  const { setInitializationStatus } = useWalletStore();
+  const queryClient = useQueryClient();
+  const { getDecryptedMnemonic, clearEncryptedMnemonic } = useMnemonicStore();
+  const {
+    wallet,
+    resetWallet,
+    sparkAddress,
+    pubkey,
+    initWalletNetwork,
+    switchNetwork,
+    lockWallet,
+  } = useWallet();
   const [password, setPassword] = useState("");
   const [decryptedMnemonic, setDecryptedMnemonic] = useState<string | null>(
     null
@@ -38,6 +90,44 @@ export default function SettingsPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [isSwitchingNetwork, setIsSwitchingNetwork] = useState(false);
+  const {
+    lightningFeePolicy,
+    setLightningFeePolicy,
+    explorerEnrichment,
+    setExplorerEnrichment,
+    sessionPolicy,
+    setSessionPolicy,
+  } = useSettingsStore();
+  // Blank inputs turn a cap off
+  const [maxFeeSats, setMaxFeeSats] = useState(
+    lightningFeePolicy.maxFeeSats?.toString() ?? ""
+  );
+  const [maxFeePercent, setMaxFeePercent] = useState(
+    lightningFeePolicy.maxFeePercent?.toString() ?? ""
+  );
+  const [minFeeSats, setMinFeeSats] = useState(
+    lightningFeePolicy.minFeeSats?.toString() ?? ""
+  );
+
+  const [exportFrom, setExportFrom] = useState(
+    `${new Date().getFullYear()}-01-01`
+  );
+  const [exportTo, setExportTo] = useState(toDateInputValue(new Date()));
+  const [exportFormat, setExportFormat] = useState<HistoryExportFormat>("csv");
+  const [isExporting, setIsExporting] = useState(false);
+  const [encryptLabels, setEncryptLabels] = useState(true);
+  const [labelsExportPassword, setLabelsExportPassword] = useState("");
+  const [isExportingLabels, setIsExportingLabels] = useState(false);
+  const [labelsFile, setLabelsFile] = useState<{
+    name: string;
+    content: string;
+  } | null>(null);
+  const labelsFileInputRef = useRef<HTMLInputElement>(null);
+  const [labelsImportPassword, setLabelsImportPassword] = useState("");
+  const [isImportingLabels, setIsImportingLabels] = useState(false);
+  const isLabelsFileEncrypted =
+    !!labelsFile && isEncryptedLabelFile(labelsFile.content);
 
   const handleRevealMnemonic = async () => {
     setError(null);
@@ -84,15 +174,182 @@ export default function SettingsPage() {
     }
   };
 
-  const handleLogout = () => {
+  const handleSwitchNetwork = async (network: WalletNetwork) => {
+    setIsSwitchingNetwork(true);
     try {
-      console.log("Settings: Ending session and clearing session storage...");
-      endSession(); // Clear session key from mnemonic store
-      sessionStorage.removeItem("spark_wallet_mnemonic");
-      sessionStorage.removeItem("spark_wallet_seed");
+      await switchNetwork(network);
+      toast.success("Network Switched", {
+        description: `Your wallet is now on ${NETWORK_LABELS[network]}.`,
+      });
+    } catch (err: any) {
+      console.error("Settings: Failed to switch network:", err);
+      toast.error("Network Switch Failed", {
+        description: err.message || "Could not switch network.",
+      });
+    } finally {
+      setIsSwitchingNetwork(false);
+    }
+  };
 
-      console.log("Settings: Setting status to needs_password...");
-      setInitializationStatus("needs_password"); // Update wallet state
+  const handleSaveFeePolicy = () => {
+    const parseCap = (value: string) =>
+      value.trim() === "" ? null : Number(value);
+    const policy = {
+      maxFeeSats: parseCap(maxFeeSats),
+      maxFeePercent: parseCap(maxFeePercent),
+      minFeeSats: parseCap(minFeeSats),
+    };
+    const isInvalidSats = (value: number | null) =>
+      value !== null && (!Number.isInteger(value) || value < 0);
+    if (
+      isInvalidSats(policy.maxFeeSats) ||
+      isInvalidSats(policy.minFeeSats) ||
+      (policy.maxFeePercent !== null &&
+        (!Number.isFinite(policy.maxFeePercent) || policy.maxFeePercent < 0))
+    ) {
+      toast.error("Invalid Fee Limits", {
+        description: "Enter whole sats and a percentage of zero or more.",
+      });
+      return;
+    }
+    setLightningFeePolicy(policy);
+    toast.success("Fee Limits Saved");
+  };
+
+  const handleExportHistory = async () => {
+    if (!exportFrom || !exportTo || exportFrom > exportTo) {
+      toast.error("Invalid Date Range", {
+        description: "Pick a start date on or before the end date.",
+      });
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const scope = { network: initWalletNetwork, identityPublicKey: pubkey };
+      // Bring the local history up to date so the export isn't missing
+      // anything the list hasn't loaded yet. Offline, export what's stored.
+      if (wallet) {
+        try {
+          await syncHistory(wallet, scope);
+        } catch (err) {
+          console.warn("Settings: Failed to sync history for export:", err);
+          toast.warning("History May Be Out of Date", {
+            description:
+              "Couldn't reach Spark, exporting the history stored on this device.",
+          });
+        }
+      }
+      const transactions = await getAllTransactions(scope);
+      const result = await exportHistory(transactions, {
+        format: exportFormat,
+        from: exportFrom,
+        to: exportTo,
+      });
+      if (result.rowCount === 0) {
+        toast.error("Nothing to Export", {
+          description: "There are no transactions in this date range.",
+        });
+        return;
+      }
+      downloadFile(result.filename, result.content, result.mimeType);
+      toast.success("History Exported", {
+        description: result.isMissingPrices
+          ? "Some USD values couldn't be looked up and were left empty."
+          : `${result.rowCount} transactions exported.`,
+      });
+    } catch (err: any) {
+      console.error("Settings: Failed to export history:", err);
+      toast.error("Export Failed", {
+        description: err.message || "Could not export history.",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportLabels = async () => {
+    setIsExportingLabels(true);
+    try {
+      // Only the wallet password can open an encrypted export later
+      if (encryptLabels) {
+        await getDecryptedMnemonic(labelsExportPassword);
+      }
+      const records = await exportWalletLabels({
+        network: initWalletNetwork,
+        identityPublicKey: pubkey,
+      });
+      const jsonl = toBip329Jsonl(records);
+      if (encryptLabels) {
+        downloadFile(
+          "spark-labels.jsonl.enc",
+          await encryptWithPassword(jsonl, labelsExportPassword),
+          "text/plain"
+        );
+      } else {
+        downloadFile("spark-labels.jsonl", jsonl, "application/jsonl");
+      }
+      toast.success("Labels Exported", {
+        description: `${records.length} labels exported.`,
+      });
+    } catch (err: any) {
+      console.error("Settings: Failed to export labels:", err);
+      toast.error("Export Failed", {
+        description: err.message || "Could not export labels.",
+      });
+    } finally {
+      setIsExportingLabels(false);
+      setLabelsExportPassword("");
+    }
+  };
+
+  const handleSelectLabelsFile = async (file?: File) => {
+    setLabelsFile(
+      file ? { name: file.name, content: await file.text() } : null
+    );
+    setLabelsImportPassword("");
+  };
+
+  const handleImportLabels = async () => {
+    if (!labelsFile) return;
+    setIsImportingLabels(true);
+    try {
+      const content = isLabelsFileEncrypted
+        ? await decryptWithPassword(
+            labelsFile.content.trim(),
+            labelsImportPassword
+          )
+        : labelsFile.content;
+      const { records, invalid } = parseBip329Jsonl(content);
+      const { imported, skipped } = await importWalletLabels(
+        { network: initWalletNetwork, identityPublicKey: pubkey },
+        records
+      );
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["transactions"] }),
+        queryClient.invalidateQueries({ queryKey: ["transactionDetail"] }),
+      ]);
+      toast.success("Labels Imported", {
+        description: `${imported} imported, ${
+          skipped + invalid
+        } skipped (unknown transactions, unsupported or invalid lines).`,
+      });
+      setLabelsFile(null);
+      if (labelsFileInputRef.current) labelsFileInputRef.current.value = "";
+    } catch (err: any) {
+      console.error("Settings: Failed to import labels:", err);
+      toast.error("Import Failed", {
+        description: err.message || "Could not import labels.",
+      });
+    } finally {
+      setIsImportingLabels(false);
+      setLabelsImportPassword("");
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      console.log("Settings: Locking the wallet...");
+      await lockWallet();
       toast.success("Session Ended", {
         description: "Please enter your password to unlock.",
       });
@@ -158,6 +415,336 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Session policy */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Auto-Lock</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              The wallet locks when the session ends or after a while without
+              activity. A new session length applies from the next unlock.
+            </p>
+            <div className="space-y-2">
+              <Label>Session length</Label>
+              <div className="flex flex-wrap gap-2">
+                {SESSION_LENGTH_OPTIONS.map((minutes) => (
+                  <Button
+                    key={minutes}
+                    size="sm"
+                    variant={
+                      sessionPolicy.sessionMinutes === minutes
+                        ? "default"
+                        : "outline"
+                    }
+                    onClick={() =>
+                      setSessionPolicy({ sessionMinutes: minutes })
+                    }>
+                    {formatMinutes(minutes)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Lock after inactivity</Label>
+              <div className="flex flex-wrap gap-2">
+                {INACTIVITY_LOCK_OPTIONS.map((minutes) => (
+                  <Button
+                    key={minutes ?? "off"}
+                    size="sm"
+                    variant={
+                      sessionPolicy.inactivityMinutes === minutes
+                        ? "default"
+                        : "outline"
+                    }
+                    onClick={() =>
+                      setSessionPolicy({ inactivityMinutes: minutes })
+                    }>
+                    {formatMinutes(minutes)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="lock-on-hide"
+                checked={sessionPolicy.lockOnHide}
+                onCheckedChange={(checked) =>
+                  setSessionPolicy({ lockOnHide: checked === true })
+                }
+              />
+              <Label htmlFor="lock-on-hide">Lock when I leave the tab</Label>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Lightning fee policy */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Lightning Fees</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Payments with a higher estimated fee are stopped before sending.
+              The lower limit applies, leave a field empty to turn it off. The
+              minimum keeps the percentage from dropping below a few sats, so
+              small payments can still be routed.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="max-fee-sats">Max fee (sats)</Label>
+                <Input
+                  id="max-fee-sats"
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  step={1}
+                  value={maxFeeSats}
+                  onChange={(e) => setMaxFeeSats(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-fee-percent">Max fee (%)</Label>
+                <Input
+                  id="max-fee-percent"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step={0.1}
+                  value={maxFeePercent}
+                  onChange={(e) => setMaxFeePercent(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min-fee-sats">
+                Min for the percentage (sats)
+              </Label>
+              <Input
+                id="min-fee-sats"
+                type="number"
+                inputMode="numeric"
+                min={0}
+                step={1}
+                value={minFeeSats}
+                onChange={(e) => setMinFeeSats(e.target.value)}
+                placeholder="No minimum"
+              />
+            </div>
+            <Button onClick={handleSaveFeePolicy} className="w-full">
+              Save Fee Limits
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Transaction history */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Transaction History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              History is stored on this device. Looking transactions up on the
+              Spark explorer adds on-chain details and past USD values, but
+              shares the transaction IDs with the explorer.
+            </p>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="explorer-enrichment"
+                checked={explorerEnrichment}
+                onCheckedChange={(checked) =>
+                  setExplorerEnrichment(checked === true)
+                }
+              />
+              <Label htmlFor="explorer-enrichment">
+                Fetch details from the explorer
+              </Label>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Export history */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Export History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Downloads every transaction in the date range with its fee and USD
+              value at the time. USD prices are looked up on CoinGecko. The tax
+              tool CSV imports into Koinly, CoinTracker and similar tools.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="export-from">From</Label>
+                <Input
+                  id="export-from"
+                  type="date"
+                  required
+                  value={exportFrom}
+                  max={exportTo}
+                  onChange={(e) => setExportFrom(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-to">To</Label>
+                <Input
+                  id="export-to"
+                  type="date"
+                  required
+                  value={exportTo}
+                  min={exportFrom}
+                  onChange={(e) => setExportTo(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {HISTORY_EXPORT_FORMATS.map((format) => (
+                <Button
+                  key={format}
+                  size="sm"
+                  variant={exportFormat === format ? "default" : "outline"}
+                  onClick={() => setExportFormat(format)}>
+                  {HISTORY_EXPORT_FORMAT_LABELS[format]}
+                </Button>
+              ))}
+            </div>
+            <Button
+              onClick={handleExportHistory}
+              disabled={isExporting || !pubkey}
+              className="w-full">
+              <Download className="mr-2 h-4 w-4" />
+              {isExporting ? "Exporting..." : "Export"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* BIP329 labels */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Wallet Labels</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Moves transaction, address and contact labels to and from other
+              wallets in the BIP329 format.
+            </p>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="encrypt-labels"
+                checked={encryptLabels}
+                onCheckedChange={(checked) =>
+                  setEncryptLabels(checked === true)
+                }
+              />
+              <Label htmlFor="encrypt-labels">
+                Encrypt with the wallet password
+              </Label>
+            </div>
+            {encryptLabels && (
+              <Input
+                type="password"
+                value={labelsExportPassword}
+                onChange={(e) => setLabelsExportPassword(e.target.value)}
+                placeholder="Wallet password"
+              />
+            )}
+            <Button
+              onClick={handleExportLabels}
+              disabled={
+                isExportingLabels ||
+                !pubkey ||
+                (encryptLabels && !labelsExportPassword)
+              }
+              className="w-full">
+              <Download className="mr-2 h-4 w-4" />
+              {isExportingLabels ? "Exporting..." : "Export Labels"}
+            </Button>
+            <Separator />
+            <div className="space-y-2">
+              <Label htmlFor="labels-file">Import a label file</Label>
+              <Input
+                id="labels-file"
+                ref={labelsFileInputRef}
+                type="file"
+                accept=".jsonl,.enc,.json,.txt"
+                onChange={(e) => handleSelectLabelsFile(e.target.files?.[0])}
+              />
+            </div>
+            {isLabelsFileEncrypted && (
+              <Input
+                type="password"
+                value={labelsImportPassword}
+                onChange={(e) => setLabelsImportPassword(e.target.value)}
+                placeholder="Password the file was encrypted with"
+              />
+            )}
+            <Button
+              variant="outline"
+              onClick={handleImportLabels}
+              disabled={
+                isImportingLabels ||
+                !pubkey ||
+                !labelsFile ||
+                (isLabelsFileEncrypted && !labelsImportPassword)
+              }
+              className="w-full">
+              <Upload className="mr-2 h-4 w-4" />
+              {isImportingLabels ? "Importing..." : "Import Labels"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Leaves */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Leaves</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Inspect how your balance is split into Spark leaves and swap small
+              ones into fewer, larger leaves.
+            </p>
+            <Button variant="outline" className="w-full" asChild>
+              <Link href="/home/leaves">
+                <Layers className="mr-2 h-4 w-4" />
+                Inspect Leaves
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Unilateral exit */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Emergency Exit</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm">
+            <EmergencyExit />
+          </CardContent>
+        </Card>
+
+        {/* Network */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Network</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Your recovery phrase controls a separate wallet on each network.
+              Switching reconnects the wallet and reloads its balance and
+              history.
+            </p>
+            <NetworkSelector
+              value={initWalletNetwork}
+              onChange={handleSwitchNetwork}
+              disabled={isSwitchingNetwork}
+            />
+          </CardContent>
+        </Card>
+
         {/* Backup Mnemonic */}
         <Dialog
           onOpenChange={() => {
@@ -1,46 +1,42 @@
 "use client";
 
+import { useState } from "react";
 import { useParams } from "next/navigation";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { PageContainer } from "@/components/page-container";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Terminal, ExternalLink } from "lucide-react";
+import { ArrowLeft, Terminal, ExternalLink, UserPlus } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { formatDistanceToNow } from "date-fns"; // For timestamp formatting
-
-// Define type based on openapi.json /v1/tx/{txid} response (TxV1Response)
-// Simplified example:
-interface TxDetail {
-  id: string;
-  type: string; // More specific types? e.g., "spark_transfer", "bitcoin_tx"
-  status: "confirmed" | "pending" | "failed";
-  timestamp: string; // ISO string
-  from?: { type: string; identifier: string; pubkey?: string | null } | null;
-  to?: { type: string; identifier: string; pubkey?: string | null } | null;
-  amountSats: number;
-  valueUsd: number;
-  txid?: string | null; // Bitcoin TXID if applicable
-  bitcoinTxData?: {
-    // Nested details for on-chain tx
-    fee: number;
-    vin: any[]; // Simplified
-    vout: any[]; // Simplified
-    status: {
-      confirmed: boolean;
-      block_height?: number | null;
-      block_time?: number | null;
-    };
-  } | null;
-  // Add other fields as needed (e.g., timeTakenSeconds)
-}
-
-// Replace with your actual API endpoint and network logic
-const API_BASE_URL = "https://api.equaleyes.flashnet.xyz";
-const DEFAULT_NETWORK = "MAINNET";
+import type { SparkWallet } from "@buildonspark/spark-sdk";
+import { ExplorerApiError, getExplorerClient } from "@/lib/explorer-api";
+import { useWallet } from "@/lib/use-wallet-store";
+import { useSettingsStore } from "@/lib/use-settings-store";
+import {
+  annotateTransaction,
+  getTransaction,
+  type HistoryScope,
+} from "@/lib/history-db";
+import { syncHistory } from "@/lib/history-sync";
+import { counterpartyContactEntry, findContact } from "@/lib/contacts";
+import { useContactIndex } from "@/lib/use-contacts-store";
+import { ContactDialog } from "@/components/core/contact-dialog";
+import { TransactionAnnotationForm } from "@/components/core/transaction-annotation-form";
+import { toast } from "sonner";
+import {
+  mempoolTxUrl,
+  sparkscanTxUrl,
+  type WalletNetwork,
+} from "@/lib/network";
+import type { TxV1Response } from "@/types/explorer";
+import type {
+  HistoryTransaction,
+  TransactionAnnotation,
+} from "@/types/history";
 
 // Helper function to format transaction type
 const formatTransactionType = (type: string): string => {
@@ -53,7 +49,7 @@ const formatTransactionType = (type: string): string => {
 // Helper function to format identifier based on type
 const formatIdentifier = (type: string, identifier: string): string => {
   if (type.toLowerCase() === "lightning") {
-    return "Lightning";
+    return identifier.includes("@") ? identifier : "Lightning"; // Lightning Address
   }
 
   if (
@@ -70,36 +66,71 @@ const formatIdentifier = (type: string, identifier: string): string => {
 
 async function fetchTxDetail(
   txId: string,
-  network: string = DEFAULT_NETWORK
-): Promise<TxDetail> {
-  // Note: The API endpoint uses txid, but your internal ID might be different.
-  // Adjust the fetch based on whether you are querying by internal ID or on-chain TXID.
-  // Assuming the [id] param IS the on-chain txid for this example.
-  const url = `${API_BASE_URL}/v1/tx/${txId}?network=${network}`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    if (response.status === 404)
-      throw new Error(`Transaction not found: ${txId}`);
-    throw new Error(
-      `Failed to fetch transaction details: ${response.statusText}`
-    );
+  scope: HistoryScope,
+  wallet?: SparkWallet
+): Promise<HistoryTransaction> {
+  let tx = await getTransaction(scope, txId);
+  if (!tx && wallet) {
+    // Opened straight after a send, before the history list synced it
+    await syncHistory(wallet, scope);
+    tx = await getTransaction(scope, txId);
+  }
+  if (!tx) {
+    throw new Error(`Transaction not found: ${txId}`);
+  }
+  return tx;
+}
+
+// Optional enrichment, a miss only means the explorer hasn't indexed it
+async function fetchExplorerTx(
+  id: string,
+  network: WalletNetwork
+): Promise<TxV1Response | null> {
+  try {
+    return await getExplorerClient().getTransaction(id, { network });
+  } catch (error) {
+    if (error instanceof ExplorerApiError && error.isNotFound) {
+      return null;
+    }
+    throw error;
   }
-  return response.json();
 }
 
 export default function TransactionDetailPage() {
   const params = useParams();
   const txId = params.id as string; // Get ID from URL
+  const {
+    initWalletNetwork: network,
+    wallet,
+    pubkey,
+    satsUsdPrice,
+  } = useWallet();
+  const explorerEnrichment = useSettingsStore(
+    (state) => state.explorerEnrichment
+  );
+  const queryClient = useQueryClient();
+  const contactIndex = useContactIndex();
+  const [isContactDialogOpen, setIsContactDialogOpen] = useState(false);
 
   const {
     data: tx,
     error,
-    isLoading,
-  } = useQuery<TxDetail, Error>({
-    queryKey: ["transactionDetail", txId],
-    queryFn: () => fetchTxDetail(txId),
-    enabled: !!txId, // Only run query if txId exists
+    isPending,
+  } = useQuery<HistoryTransaction, Error>({
+    queryKey: ["transactionDetail", network, txId],
+    queryFn: () =>
+      fetchTxDetail(txId, { network, identityPublicKey: pubkey }, wallet),
+    enabled: !!txId && !!pubkey, // Wait for the wallet's identity
+    staleTime: 15 * 1000,
+  });
+
+  const explorerId = tx?.transferId ?? tx?.txid;
+  const { data: explorerTx } = useQuery<TxV1Response | null, Error>({
+    queryKey: ["explorerTransaction", network, explorerId],
+    queryFn: () => fetchExplorerTx(explorerId!, network),
+    enabled: explorerEnrichment && !!explorerId,
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+    retry: false,
   });
 
   const DetailItem = ({
@@ -122,7 +153,7 @@ export default function TransactionDetailPage() {
     </div>
   );
 
-  if (isLoading) {
+  if (isPending) {
     return (
       <PageContainer>
         <Skeleton className="h-8 w-32 mb-6" />
@@ -167,6 +198,34 @@ export default function TransactionDetailPage() {
     );
   }
 
+  const handleSaveAnnotation = async (annotation: TransactionAnnotation) => {
+    try {
+      await annotateTransaction(
+        { network, identityPublicKey: pubkey },
+        tx.id,
+        annotation
+      );
+      await Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: ["transactionDetail", network, txId],
+        }),
+        queryClient.invalidateQueries({ queryKey: ["transactions"] }),
+      ]);
+      toast.success("Transaction Updated");
+    } catch (err: any) {
+      console.error("TransactionDetail: Failed to save label:", err);
+      toast.error("Save Failed", {
+        description: err.message || "Could not save the label.",
+      });
+    }
+  };
+
+  const contact = findContact(contactIndex, tx.counterparty);
+  const contactEntry =
+    tx.counterparty && !contact
+      ? counterpartyContactEntry(tx.counterparty, network)
+      : null;
+
   return (
     <PageContainer>
       <Link
@@ -176,18 +235,20 @@ export default function TransactionDetailPage() {
       </Link>
       <div className="flex justify-between items-center mb-1">
         <h1 className="text-2xl font-semibold">Transaction Details</h1>
-        <Button variant="ghost" size="icon" asChild>
-          <a
-            href={`https://sparkscan.io/tx/${tx.id}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            aria-label="View on Sparkscan">
-            <ExternalLink className="h-4 w-4" />
-          </a>
-        </Button>
+        {tx.transferId && (
+          <Button variant="ghost" size="icon" asChild>
+            <a
+              href={sparkscanTxUrl(tx.transferId, network)}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label="View on Sparkscan">
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          </Button>
+        )}
       </div>
       <p className="text-xs font-mono text-muted-foreground break-all mb-6">
-        {tx.txid || tx.id}
+        {tx.txid || tx.transferId || tx.id}
       </p>
 
       <Card>
@@ -205,51 +266,110 @@ export default function TransactionDetailPage() {
             label="Amount"
             value={`${tx.amountSats.toLocaleString()} sats`}
           />
-          <DetailItem label="Value" value={`$${tx.valueUsd.toFixed(2)} USD`} />
-          {/* Display From/To based on structure */}
-          {tx.from && (
+          {tx.feeSats !== undefined && (
             <DetailItem
-              label={`From`}
-              value={formatIdentifier(tx.from.type, tx.from.identifier)}
-              isMono={tx.from.type.toLowerCase() !== "lightning"}
+              label="Fee"
+              value={`${tx.feeSats.toLocaleString()} sats`}
             />
           )}
-          {tx.to && (
+          <DetailItem
+            label="Value"
+            value={
+              explorerTx
+                ? `$${explorerTx.valueUsd.toFixed(2)} USD`
+                : `≈ $${(tx.amountSats * satsUsdPrice.value).toFixed(2)} USD`
+            }
+          />
+          {tx.counterparty && (
             <DetailItem
-              label={`To`}
-              value={formatIdentifier(tx.to.type, tx.to.identifier)}
-              isMono={tx.to.type.toLowerCase() !== "lightning"}
+              label={tx.direction === "incoming" ? "From" : "To"}
+              value={
+                contact ? (
+                  <span className="flex flex-col items-end">
+                    {contact.name}
+                    <span className="font-mono text-xs text-muted-foreground">
+                      {formatIdentifier(
+                        tx.counterparty.type,
+                        tx.counterparty.identifier
+                      )}
+                    </span>
+                  </span>
+                ) : (
+                  formatIdentifier(
+                    tx.counterparty.type,
+                    tx.counterparty.identifier
+                  )
+                )
+              }
+              isMono={
+                !contact && tx.counterparty.type.toLowerCase() !== "lightning"
+              }
             />
           )}
+          {contactEntry && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full mb-2"
+                onClick={() => setIsContactDialogOpen(true)}>
+                <UserPlus className="mr-2 h-4 w-4" /> Save as Contact
+              </Button>
+              <ContactDialog
+                open={isContactDialogOpen}
+                onOpenChange={setIsContactDialogOpen}
+                initialEntry={contactEntry}
+              />
+            </>
+          )}
+          {tx.description && (
+            <DetailItem label="Description" value={tx.description} />
+          )}
+
+          {/* Lightning Specific Details */}
+          {tx.paymentHash && (
+            <>
+              <Separator className="my-3" />
+              <DetailItem label="Payment Hash" value={tx.paymentHash} isMono />
+              <DetailItem label="Preimage" value={tx.paymentPreimage} isMono />
+            </>
+          )}
 
           {/* Bitcoin Specific Details */}
-          {tx.bitcoinTxData && (
+          {((tx.txid && mempoolTxUrl(tx.txid, network)) ||
+            explorerTx?.bitcoinTxData) && (
             <>
               <Separator className="my-3" />
-              <DetailItem
-                label="BTC Network Fee"
-                value={`${tx.bitcoinTxData.fee.toLocaleString()} sats`}
-              />
-              <DetailItem
-                label="BTC Confirmations"
-                value={
-                  tx.bitcoinTxData.status.confirmed ? "Confirmed" : "Pending"
-                }
-              />
-              {tx.bitcoinTxData.status.block_height && (
-                <DetailItem
-                  label="Block Height"
-                  value={tx.bitcoinTxData.status.block_height}
-                />
+              {explorerTx?.bitcoinTxData && (
+                <>
+                  <DetailItem
+                    label="BTC Network Fee"
+                    value={`${explorerTx.bitcoinTxData.fee.toLocaleString()} sats`}
+                  />
+                  <DetailItem
+                    label="BTC Confirmations"
+                    value={
+                      explorerTx.bitcoinTxData.status.confirmed
+                        ? "Confirmed"
+                        : "Pending"
+                    }
+                  />
+                  {explorerTx.bitcoinTxData.status.block_height && (
+                    <DetailItem
+                      label="Block Height"
+                      value={explorerTx.bitcoinTxData.status.block_height}
+                    />
+                  )}
+                </>
               )}
               {/* Add link to external block explorer */}
-              {tx.txid && (
+              {tx.txid && mempoolTxUrl(tx.txid, network) && (
                 <Button
                   variant="link"
                   asChild
                   className="mt-2 p-0 h-auto justify-start">
                   <a
-                    href={`https://mempool.space/tx/${tx.txid}`}
+                    href={mempoolTxUrl(tx.txid, network) ?? undefined}
                     target="_blank"
                     rel="noopener noreferrer">
                     View on Mempool.space
@@ -260,6 +380,23 @@ export default function TransactionDetailPage() {
           )}
         </CardContent>
       </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Label &amp; Note</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TransactionAnnotationForm
+            key={tx.id}
+            annotation={{
+              label: tx.label,
+              category: tx.category,
+              note: tx.note,
+            }}
+            onSave={handleSaveAnnotation}
+          />
+        </CardContent>
+      </Card>
     </PageContainer>
   );
 }
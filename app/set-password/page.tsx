@@ -18,7 +18,12 @@ import { toast } from "sonner";
 
 export default function SetPasswordPage() {
   const router = useRouter();
-  const { saveEncryptedMnemonic } = useMnemonicStore();
+  const {
+    saveEncryptedMnemonic,
+    startSession,
+    pendingMnemonic,
+    setPendingMnemonic,
+  } = useMnemonicStore();
   const { initWallet } = useWallet();
 
   const [password, setPassword] = useState("");
@@ -36,7 +41,6 @@ export default function SetPasswordPage() {
       return;
     }
 
-    const pendingMnemonic = sessionStorage.getItem("pending_mnemonic");
     if (!pendingMnemonic) {
       toast.error("Error: Mnemonic not found. Please go back.");
       router.push("/create"); // Go back if mnemonic lost
@@ -46,9 +50,11 @@ export default function SetPasswordPage() {
     setIsLoading(true);
     try {
       await saveEncryptedMnemonic(pendingMnemonic, password);
+      // Unlocked from the start, the session policy decides when it locks
+      await startSession(password);
       // Mnemonic is now securely stored. Now initialize the wallet instance.
       await initWallet(pendingMnemonic);
-      sessionStorage.removeItem("pending_mnemonic"); // Clean up temporary storage
+      setPendingMnemonic(null); // Clean up temporary storage
       toast.success("Wallet Created Successfully!");
       router.replace("/home"); // Redirect to the main app
     } catch (error) {
@@ -25,6 +25,7 @@ import {
   DialogTrigger,
   DialogClose,
 } from "@/components/ui/dialog";
+import { NetworkSelector } from "@/components/network-selector";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
 
@@ -40,7 +41,12 @@ type InitializationStatus =
 export default function UnlockWalletPage() {
   const router = useRouter();
   const { startSession, clearEncryptedMnemonic } = useMnemonicStore();
-  const { loadStoredWallet, resetWallet } = useWallet(); // Use loadStoredWallet to re-trigger init after session starts
+  const {
+    loadStoredWallet,
+    resetWallet,
+    initWalletNetwork,
+    setInitWalletNetwork,
+  } = useWallet(); // Use loadStoredWallet to re-trigger init after session starts
 
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -119,6 +125,11 @@ export default function UnlockWalletPage() {
               }}
             />
           </div>
+          <NetworkSelector
+            value={initWalletNetwork}
+            onChange={setInitWalletNetwork}
+            disabled={isLoading}
+          />
           {error && <p className="text-sm text-destructive">{error}</p>}
         </CardContent>
         <CardFooter>
@@ -1,9 +1,10 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { Home, QrCode, Send, Settings } from "lucide-react";
+import useWalletStore from "@/lib/use-wallet-store";
+import { BookUser, Home, Lock, QrCode, Send, Settings } from "lucide-react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 
 const navItems = [
   {
@@ -21,6 +22,11 @@ const navItems = [
     label: "Send",
     icon: Send,
   },
+  {
+    path: "/home/contacts",
+    label: "Contacts",
+    icon: BookUser,
+  },
   {
     path: "/home/settings",
     label: "Settings",
@@ -30,6 +36,13 @@ const navItems = [
 
 export function BottomNav() {
   const pathname = usePathname();
+  const router = useRouter();
+  const lockWallet = useWalletStore((state) => state.lockWallet);
+
+  const handleLock = () => {
+    lockWallet();
+    router.replace("/unlock");
+  };
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 z-50 flex h-22 pb-2 items-center justify-around border-t bg-background px-4">
@@ -48,6 +61,13 @@ export function BottomNav() {
           </Link>
         );
       })}
+      <button
+        type="button"
+        onClick={handleLock}
+        className="flex flex-col items-center justify-center gap-1 text-muted-foreground/50">
+        <Lock className="h-5 w-5" />
+        <span className="text-xs">Lock</span>
+      </button>
     </nav>
   );
 }
@@ -0,0 +1,49 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { contactInitials } from "@/lib/contacts";
+import type { Contact } from "@/types/contacts";
+
+interface ContactAvatarProps {
+  contact: Pick<Contact, "name" | "avatarUrl">;
+  className?: string;
+}
+
+export function ContactAvatar({ contact, className }: ContactAvatarProps) {
+  return (
+    <Avatar className={cn("h-10 w-10", className)}>
+      {contact.avatarUrl && (
+        <AvatarImage src={contact.avatarUrl} alt={contact.name} />
+      )}
+      <AvatarFallback className="text-xs font-semibold">
+        {contactInitials(contact.name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+interface ContactItemProps {
+  contact: Contact;
+  detail?: string; // Defaults to the number of saved addresses
+  onClick?: () => void;
+}
+
+export function ContactItem({ contact, detail, onClick }: ContactItemProps) {
+  const entryCount = contact.entries.length;
+  return (
+    <div
+      className={cn(
+        "flex items-center rounded-lg p-3",
+        onClick && "cursor-pointer hover:bg-muted"
+      )}
+      onClick={onClick}>
+      <ContactAvatar contact={contact} />
+      <div className="flex-1 mx-3 min-w-0">
+        <p className="font-medium truncate">{contact.name}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {detail ??
+            `${entryCount} ${entryCount === 1 ? "address" : "addresses"}`}
+        </p>
+      </div>
+    </div>
+  );
+}
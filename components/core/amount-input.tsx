@@ -1,13 +1,18 @@
 "use client";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Delete, ArrowUpDown } from "lucide-react";
+import { formatTokenAmount, parseTokenAmount } from "@/lib/token-utils";
 
 interface AmountInputProps {
-  onAmountChange: (amountSats: number) => void;
+  onAmountChange?: (amountSats: number) => void;
   initialAmountSats?: number;
   usdRate?: number; // USD per Sat (e.g., 0.0007 means 1 sat = $0.0007)
   maxAmountSats?: number; // Maximum amount in sats the user can send
+  token?: { ticker: string; decimals: number }; // Enter amounts in token units instead of sats/USD
+  onTokenAmountChange?: (amount: bigint) => void; // Token amount in base units
+  maxTokenAmount?: bigint; // Maximum token amount in base units
+  maxAmountNote?: string; // Shown under "Use Max", e.g. how fees affect it
 }
 
 // Default USD Rate (Example: $70,000 BTC -> 1 sat = $0.0007)
@@ -16,16 +21,25 @@ const MAX_DECIMALS_USD = 2;
 const MAX_DECIMALS_SATS = 0; // Sats are whole numbers
 
 // Define type for input mode
-type InputMode = "usd" | "sats";
+type InputMode = "usd" | "sats" | "token";
 
+// Note: the token mode is fixed for the lifetime of the component.
+// Give it a `key` per asset so switching tokens remounts it.
 export function AmountInput({
   onAmountChange,
   initialAmountSats = 0,
   usdRate = DEFAULT_USD_RATE,
   maxAmountSats,
+  token,
+  onTokenAmountChange,
+  maxTokenAmount,
+  maxAmountNote,
 }: AmountInputProps) {
   // Add state for tracking input mode
-  const [inputMode, setInputMode] = useState<InputMode>("usd");
+  const [inputMode, setInputMode] = useState<InputMode>(
+    token ? "token" : "usd"
+  );
+  const tokenDecimals = token?.decimals ?? 0;
 
   // For debugging purpose
   const [debugInfo, setDebugInfo] = useState<string>("");
@@ -43,6 +57,7 @@ export function AmountInput({
 
   // Initialize display value based on initial sats and current input mode
   const getInitialDisplayValue = (): string => {
+    if (inputMode === "token") return "0";
     if (inputMode === "usd") {
       const initialUsdValue = calculateUsdFromSats(initialAmountSats);
       // Format initial USD value
@@ -59,8 +74,21 @@ export function AmountInput({
     getInitialDisplayValue()
   );
 
+  // Set by "Use Max" so switching to sats shows the exact max instead of
+  // the max converted to USD and back
+  const pendingSatsValue = useRef<string | null>(null);
+
   // Recalculate display value when input mode changes
   useEffect(() => {
+    // Token amounts have no USD/sats conversion
+    if (inputMode === "token") return;
+
+    if (inputMode === "sats" && pendingSatsValue.current !== null) {
+      setDisplayValue(pendingSatsValue.current);
+      pendingSatsValue.current = null;
+      return;
+    }
+
     let newDisplayValue: string;
 
     if (inputMode === "usd") {
@@ -86,21 +114,36 @@ export function AmountInput({
 
   // Calculate sats value based on display string and current mode
   const getCurrentSatsValue = (): number => {
+    if (inputMode === "token") return 0;
     const value = parseFloat(displayValue) || 0;
     return inputMode === "usd" ? calculateSatsFromUsd(value) : value;
   };
 
   const currentSatsValue = getCurrentSatsValue();
+  const currentTokenAmount =
+    inputMode === "token"
+      ? parseTokenAmount(displayValue, tokenDecimals)
+      : BigInt(0);
 
   // Update parent component whenever the sats value changes
   useEffect(() => {
+    if (inputMode === "token") {
+      onTokenAmountChange?.(parseTokenAmount(displayValue, tokenDecimals));
+      return;
+    }
     const calculatedSats = getCurrentSatsValue();
     console.log(
       `[AmountInput Effect] displayValue: "${displayValue}", inputMode: ${inputMode}, Calculated Sats: ${calculatedSats}`
     );
-    onAmountChange(calculatedSats);
+    onAmountChange?.(calculatedSats);
     // Only trigger when displayValue or inputMode changes
-  }, [displayValue, inputMode, onAmountChange]);
+  }, [
+    displayValue,
+    inputMode,
+    onAmountChange,
+    onTokenAmountChange,
+    tokenDecimals,
+  ]);
 
   const handleKeyPress = (key: string) => {
     setDisplayValue((prev) => {
@@ -123,6 +166,12 @@ export function AmountInput({
           return prev;
         }
 
+        // Neither for tokens without decimals
+        if (inputMode === "token" && tokenDecimals === 0) {
+          reason = "Decimal not allowed for this token";
+          return prev;
+        }
+
         // Prevent multiple decimal points
         if (prev.includes(".")) {
           reason = "Already has decimal point";
@@ -154,13 +203,30 @@ export function AmountInput({
         if (nextValue.includes(".")) {
           const decimalPart = nextValue.split(".")[1];
           const maxDecimals =
-            inputMode === "usd" ? MAX_DECIMALS_USD : MAX_DECIMALS_SATS;
+            inputMode === "token"
+              ? tokenDecimals
+              : inputMode === "usd"
+              ? MAX_DECIMALS_USD
+              : MAX_DECIMALS_SATS;
           if (decimalPart && decimalPart.length > maxDecimals) {
             reason = `Too many decimal places (max ${maxDecimals})`;
             return prev; // Limit reached, do not append
           }
         }
 
+        // Check against the max token amount (in base units)
+        if (inputMode === "token") {
+          if (
+            maxTokenAmount !== undefined &&
+            parseTokenAmount(nextValue, tokenDecimals) > maxTokenAmount
+          ) {
+            setDebugInfo(`Blocked: Exceeds max token amount`);
+            return prev;
+          }
+          setDebugInfo("");
+          return nextValue;
+        }
+
         // Check against Max Amount - only if we have valid values to work with
         if (maxAmountSats && maxAmountSats > 0 && usdRate > 0) {
           let potentialSatsValue: number;
@@ -214,9 +280,13 @@ export function AmountInput({
   ];
 
   const isAtMaxAmount =
-    maxAmountSats !== undefined &&
-    maxAmountSats > 0 &&
-    currentSatsValue >= maxAmountSats;
+    inputMode === "token"
+      ? maxTokenAmount !== undefined &&
+        maxTokenAmount > BigInt(0) &&
+        currentTokenAmount >= maxTokenAmount
+      : maxAmountSats !== undefined &&
+        maxAmountSats > 0 &&
+        currentSatsValue >= maxAmountSats;
 
   // Toggle between USD and Sats input modes
   const toggleInputMode = () => {
@@ -225,6 +295,9 @@ export function AmountInput({
 
   // Format display value for user readability based on current mode
   const formatForDisplay = (value: string): string => {
+    if (inputMode === "token") {
+      return `${value} ${token?.ticker ?? ""}`;
+    }
     if (inputMode === "usd") {
       return `$${value}`;
     } else {
@@ -239,14 +312,20 @@ export function AmountInput({
       {/* Display Area */}
       <div className="text-center mb-6 px-4 w-full min-h-[100px] flex flex-col justify-center">
         {/* Currency Toggle Button */}
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={toggleInputMode}
-          className="self-center mb-2 flex items-center gap-1">
-          <span>{inputMode === "usd" ? "USD" : "SATS"}</span>
-          <ArrowUpDown className="h-4 w-4" />
-        </Button>
+        {inputMode === "token" ? (
+          <span className="self-center mb-2 text-sm font-medium">
+            {token?.ticker}
+          </span>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleInputMode}
+            className="self-center mb-2 flex items-center gap-1">
+            <span>{inputMode === "usd" ? "USD" : "SATS"}</span>
+            <ArrowUpDown className="h-4 w-4" />
+          </Button>
+        )}
 
         {/* Show the raw displayValue string being built */}
         <div className="text-5xl font-bold break-all truncate">
@@ -255,7 +334,14 @@ export function AmountInput({
 
         {/* Secondary display showing the conversion */}
         <div className="text-lg text-muted-foreground mt-1">
-          {usdRate > 0
+          {inputMode === "token"
+            ? maxTokenAmount !== undefined
+              ? `Available: ${formatTokenAmount(
+                  maxTokenAmount,
+                  tokenDecimals
+                )} ${token?.ticker ?? ""}`
+              : "Enter Amount"
+            : usdRate > 0
             ? inputMode === "usd"
               ? `≈ ${currentSatsValue.toLocaleString()} sats`
               : `≈ $${calculateUsdFromSats(currentSatsValue).toFixed(2)}`
@@ -263,37 +349,48 @@ export function AmountInput({
         </div>
 
         {/* Add the Use Max button here */}
-        {maxAmountSats && maxAmountSats > 0 && (
+        {inputMode === "token" &&
+          maxTokenAmount !== undefined &&
+          maxTokenAmount > BigInt(0) && (
+            <Button
+              variant="link"
+              size="sm"
+              className="mt-1 h-auto p-0"
+              onClick={() =>
+                setDisplayValue(
+                  formatTokenAmount(maxTokenAmount, tokenDecimals, {
+                    grouping: false,
+                  })
+                )
+              }
+              disabled={isAtMaxAmount}>
+              Use Max
+            </Button>
+          )}
+        {inputMode !== "token" && !!maxAmountSats && maxAmountSats > 0 && (
           <Button
             variant="link"
             size="sm"
             className="mt-1 h-auto p-0"
             onClick={() => {
-              console.log(
-                `[Use Max] Clicked. maxAmountSats prop: ${maxAmountSats}, current mode: ${inputMode}`
-              );
+              const valueToSet = maxAmountSats.toString();
               if (inputMode === "usd") {
-                // If current mode is USD, switch to SATS mode first
-                console.log(
-                  "[Use Max] Mode is usd. Switching to sats mode first."
-                );
+                // Show the max in sats, USD cents can't hold it exactly
+                pendingSatsValue.current = valueToSet;
                 setInputMode("sats");
-                // wait for the input mode to change
-                setTimeout(() => {
-                  setDisplayValue(maxAmountSats.toString());
-                }, 100);
+                return;
               }
-              // Now, directly set the display value to the exact max sats amount
-              const valueToSet = maxAmountSats.toString();
-              console.log(
-                `[Use Max] Setting displayValue to: "${valueToSet}\"`
-              );
               setDisplayValue(valueToSet);
             }}
             disabled={isAtMaxAmount}>
             Use Max
           </Button>
         )}
+        {maxAmountNote && (
+          <div className="text-xs text-muted-foreground mt-1">
+            {maxAmountNote}
+          </div>
+        )}
 
         {isAtMaxAmount && (
           <div className="text-sm text-amber-500 mt-1">
@@ -301,7 +398,7 @@ export function AmountInput({
           </div>
         )}
 
-        {usdRate <= 0 && (
+        {usdRate <= 0 && inputMode !== "token" && (
           <div className="text-sm text-red-500 mt-1">
             Invalid USD rate provided. Cannot calculate properly.
           </div>
@@ -317,6 +414,7 @@ export function AmountInput({
           // Disable decimal key based on mode and current state
           const isDecimalDisabled =
             (key === "." && inputMode === "sats") || // No decimals in sats mode
+            (key === "." && inputMode === "token" && tokenDecimals === 0) ||
             (key === "." && displayValue.includes(".")); // No duplicate decimals
 
           return (
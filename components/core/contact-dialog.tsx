@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ContactAvatar } from "../contact-item";
+import { CONTACT_ENTRY_TYPE_LABELS, parseContactEntry } from "@/lib/contacts";
+import { useContactsStore } from "@/lib/use-contacts-store";
+import useWalletStore from "@/lib/use-wallet-store";
+import type { Contact, ContactEntry } from "@/types/contacts";
+
+interface ContactDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact?: Contact; // Edits this contact instead of creating one
+  initialEntry?: ContactEntry; // Prefilled address for a new contact
+}
+
+export function ContactDialog({
+  open,
+  onOpenChange,
+  ...formProps
+}: ContactDialogProps) {
+  // The form only mounts while open, so every opening starts from the props
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <ContactForm {...formProps} onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ContactForm({
+  contact,
+  initialEntry,
+  onClose,
+}: Omit<ContactDialogProps, "open" | "onOpenChange"> & {
+  onClose: () => void;
+}) {
+  const { addContact, updateContact } = useContactsStore();
+  const network = useWalletStore((state) => state.initWalletNetwork);
+  const [name, setName] = useState(contact?.name ?? "");
+  const [avatarUrl, setAvatarUrl] = useState(contact?.avatarUrl ?? "");
+  const [notes, setNotes] = useState(contact?.notes ?? "");
+  const [entries, setEntries] = useState<ContactEntry[]>(
+    contact?.entries ?? (initialEntry ? [initialEntry] : [])
+  );
+  const [newEntry, setNewEntry] = useState("");
+  const [entryError, setEntryError] = useState<string | null>(null);
+
+  const handleAddEntry = () => {
+    try {
+      const entry = parseContactEntry(newEntry, network);
+      if (entries.some((existing) => existing.value === entry.value)) {
+        setEntryError("This address is already saved.");
+        return;
+      }
+      setEntries([...entries, entry]);
+      setNewEntry("");
+      setEntryError(null);
+    } catch (error: any) {
+      setEntryError(error.message || "Invalid address.");
+    }
+  };
+
+  const handleSave = () => {
+    const input = {
+      name: name.trim(),
+      avatarUrl: avatarUrl.trim() || undefined,
+      notes: notes.trim() || undefined,
+      entries,
+    };
+    if (contact) {
+      updateContact(contact.id, input);
+    } else {
+      addContact(input);
+    }
+    toast.success(contact ? "Contact Updated" : "Contact Saved", {
+      description: input.name,
+    });
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{contact ? "Edit Contact" : "New Contact"}</DialogTitle>
+        <DialogDescription>
+          Contacts are stored on this device only.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <ContactAvatar
+            contact={{ name: name || "?", avatarUrl: avatarUrl.trim() }}
+            className="h-12 w-12"
+          />
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="contact-name">Name</Label>
+            <Input
+              id="contact-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Satoshi"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-avatar">Avatar URL (optional)</Label>
+          <Input
+            id="contact-avatar"
+            type="url"
+            value={avatarUrl}
+            onChange={(e) => setAvatarUrl(e.target.value)}
+            placeholder="https://..."
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-entry">Addresses</Label>
+          {entries.map((entry) => (
+            <div
+              key={entry.value}
+              className="flex items-center gap-2 rounded-md border p-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-muted-foreground">
+                  {CONTACT_ENTRY_TYPE_LABELS[entry.type]}
+                </p>
+                <p className="font-mono text-sm truncate">{entry.value}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Remove address"
+                onClick={() =>
+                  setEntries(entries.filter((e) => e.value !== entry.value))
+                }>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              id="contact-entry"
+              value={newEntry}
+              onChange={(e) => {
+                setNewEntry(e.target.value);
+                setEntryError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && newEntry.trim()) handleAddEntry();
+              }}
+              placeholder="sp1..., name@domain.com, bc1..."
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              aria-label="Add address"
+              onClick={handleAddEntry}
+              disabled={!newEntry.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          {entryError && (
+            <p className="text-sm text-destructive">{entryError}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="contact-notes">Notes (optional)</Label>
+          <Textarea
+            id="contact-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+          />
+        </div>
+      </div>
+      <DialogFooter>
+        <Button
+          onClick={handleSave}
+          disabled={!name.trim() || entries.length === 0}>
+          Save Contact
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
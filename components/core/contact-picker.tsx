@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { BookUser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { ContactAvatar } from "../contact-item";
+import { CONTACT_ENTRY_TYPE_LABELS } from "@/lib/contacts";
+import { useContactsStore } from "@/lib/use-contacts-store";
+import type { ContactEntry } from "@/types/contacts";
+
+interface ContactPickerProps {
+  onSelect: (entry: ContactEntry) => void;
+  disabled?: boolean;
+}
+
+export function ContactPicker({ onSelect, disabled }: ContactPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const contacts = useContactsStore((state) => state.contacts);
+
+  const handleSelect = (entry: ContactEntry) => {
+    setIsOpen(false);
+    onSelect(entry);
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <BookUser className="mr-2 h-4 w-4" /> Choose Contact
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="rounded-t-lg max-h-[85vh]">
+        <SheetHeader>
+          <SheetTitle>Choose Contact</SheetTitle>
+          <SheetDescription>Pick the address to pay.</SheetDescription>
+        </SheetHeader>
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {contacts.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">
+              No saved contacts on this network yet.{" "}
+              <Link href="/home/contacts" className="underline">
+                Add one
+              </Link>
+            </p>
+          ) : (
+            contacts.map((contact) => (
+              <div key={contact.id} className="rounded-lg border p-3">
+                <div className="flex items-center gap-3 mb-2">
+                  <ContactAvatar contact={contact} className="h-8 w-8" />
+                  <p className="font-medium truncate">{contact.name}</p>
+                </div>
+                <div className="space-y-1">
+                  {contact.entries.map((entry) => (
+                    <button
+                      key={entry.value}
+                      type="button"
+                      className="w-full text-left rounded-md p-2 hover:bg-muted"
+                      onClick={() => handleSelect(entry)}>
+                      <p className="text-xs text-muted-foreground">
+                        {CONTACT_ENTRY_TYPE_LABELS[entry.type]}
+                      </p>
+                      <p className="font-mono text-sm truncate">
+                        {entry.value}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
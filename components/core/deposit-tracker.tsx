@@ -0,0 +1,117 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { Bitcoin, Loader2, RotateCw } from "lucide-react";
+import { toast } from "sonner";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { REQUIRED_DEPOSIT_CONFIRMATIONS } from "@/lib/deposit-sync";
+import { usePendingDeposits } from "@/lib/use-deposit-addresses-store";
+import { useLabelsStore } from "@/lib/use-labels-store";
+import useWalletStore from "@/lib/use-wallet-store";
+import { cn } from "@/lib/utils";
+import type { Deposit } from "@/types/deposits";
+
+export function getDepositStatusText(deposit: Deposit) {
+  switch (deposit.status) {
+    case "awaiting_confirmation":
+      return deposit.confirmations === 0
+        ? "Unconfirmed"
+        : `${deposit.confirmations}/${REQUIRED_DEPOSIT_CONFIRMATIONS} confirmations`;
+    case "claimable":
+      return deposit.nextClaimAt
+        ? `Claim failed, retrying ${formatDistanceToNow(
+            new Date(deposit.nextClaimAt),
+            { addSuffix: true }
+          )}`
+        : "Claiming...";
+    case "failed":
+      return "Claim failed";
+    default:
+      return "Claimed";
+  }
+}
+
+function DepositItem({ deposit }: { deposit: Deposit }) {
+  const label = useLabelsStore((state) => state.addressLabels[deposit.address]);
+  const retryDepositClaim = useWalletStore((state) => state.retryDepositClaim);
+
+  const { mutate: retryClaim, isPending: isRetrying } = useMutation({
+    mutationFn: () => retryDepositClaim(deposit.id),
+    onSuccess: () => {
+      toast.success("Deposit Claimed", {
+        description: `${deposit.amountSats.toLocaleString()} sats added to your balance.`,
+      });
+    },
+    onError: (err) => {
+      toast.error("Claim Failed", { description: (err as Error).message });
+    },
+  });
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-muted">
+          <Bitcoin className="h-5 w-5 text-orange-500" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate">{label ?? "Bitcoin Deposit"}</p>
+          <p
+            className={cn(
+              "text-xs truncate",
+              deposit.status === "failed"
+                ? "text-destructive"
+                : "text-muted-foreground"
+            )}>
+            {getDepositStatusText(deposit)}
+          </p>
+        </div>
+        <p className="font-medium text-green-500">
+          +{deposit.amountSats.toLocaleString()} sats
+        </p>
+      </div>
+      {deposit.status === "failed" && (
+        <>
+          {deposit.claimError && (
+            <p className="text-xs text-muted-foreground break-words">
+              {deposit.claimError}
+            </p>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={() => retryClaim()}
+            disabled={isRetrying}>
+            {isRetrying ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RotateCw className="mr-2 h-4 w-4" />
+            )}
+            Retry Claim
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * On-chain deposits on their way into the wallet. Renders nothing once
+ * they're all claimed.
+ */
+export function DepositTracker() {
+  const deposits = usePendingDeposits();
+  if (deposits.length === 0) return null;
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold mb-3">Incoming Deposits</h2>
+      <div className="space-y-2">
+        {deposits.map((deposit) => (
+          <DepositItem key={deposit.id} deposit={deposit} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import {
+  AlertTriangle,
+  CheckCircle,
+  Copy,
+  Download,
+  Loader2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { downloadFile } from "@/lib/history-export";
+import useWalletStore from "@/lib/use-wallet-store";
+import type { ExitTransaction, LeafExit } from "@/types/leaves";
+
+// Roughly ten minutes a block
+function formatTimelock(blocks: number) {
+  const hours = Math.round((blocks * 10) / 60);
+  return hours > 0 ? `${blocks} blocks (~${hours}h)` : `${blocks} blocks`;
+}
+
+function shortenId(id: string) {
+  return `${id.slice(0, 8)}...${id.slice(-6)}`;
+}
+
+function copyToClipboard(text: string) {
+  navigator.clipboard
+    .writeText(text)
+    .then(() => toast.success("Copied to clipboard"))
+    .catch(() => toast.error("Failed to copy"));
+}
+
+function ExitTransactionItem({
+  transaction,
+  index,
+}: {
+  transaction: ExitTransaction;
+  index: number;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 min-w-0">
+        <p className="font-mono text-xs truncate">
+          {index + 1}. {transaction.txid}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {transaction.kind === "refund" ? "Refund to your key" : "Tree node"}
+          {transaction.timelockBlocks > 0 &&
+            ` · waits ${formatTimelock(transaction.timelockBlocks)}`}
+          {transaction.needsFeeBump && " · needs a CPFP child"}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        aria-label="Copy raw transaction"
+        onClick={() => copyToClipboard(transaction.hex)}>
+        <Copy className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+function LeafExitItem({ exit }: { exit: LeafExit }) {
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium">{exit.valueSats.toLocaleString()} sats</p>
+          <p className="font-mono text-xs text-muted-foreground truncate">
+            Leaf {shortenId(exit.leafId)}
+          </p>
+        </div>
+        {exit.verificationError ? (
+          <Badge variant="destructive">
+            <AlertTriangle className="mr-1 h-3 w-3" /> Invalid
+          </Badge>
+        ) : (
+          <Badge variant="secondary">
+            <CheckCircle className="mr-1 h-3 w-3" /> Verified
+          </Badge>
+        )}
+      </div>
+      {exit.verificationError && (
+        <p className="text-xs text-destructive">{exit.verificationError}</p>
+      )}
+      {exit.transactions.map((transaction, idx) => (
+        <ExitTransactionItem
+          key={transaction.txid}
+          transaction={transaction}
+          index={idx}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Travels with the download, the file is useless without it
+const EXIT_FILE_NOTE =
+  "Signed, zero-fee transactions. Each one only relays in a package with a child transaction that spends its zero-value anchor output and pays the fee for both (CPFP), e.g. through Bitcoin Core's submitpackage. Broadcast them in order, each after the previous one has waited out its timelock.";
+
+/**
+ * Exports the wallet's pre-signed exit transactions so the funds can be
+ * taken on-chain without the Spark operators.
+ */
+export function EmergencyExit() {
+  const getLeafExits = useWalletStore((state) => state.getLeafExits);
+  const network = useWalletStore((state) => state.initWalletNetwork);
+
+  const {
+    mutate: prepareExits,
+    data: exits,
+    isPending,
+  } = useMutation({
+    mutationFn: getLeafExits,
+    onError: (err) => {
+      toast.error("Failed to Prepare Exit", {
+        description: (err as Error).message,
+      });
+    },
+  });
+
+  const handleDownload = (exits: LeafExit[]) => {
+    downloadFile(
+      `spark-exit-${network.toLowerCase()}.json`,
+      JSON.stringify(
+        {
+          network,
+          createdAt: new Date().toISOString(),
+          note: EXIT_FILE_NOTE,
+          leaves: exits,
+        },
+        null,
+        2
+      ),
+      "application/json"
+    );
+  };
+
+  const invalidCount =
+    exits?.filter((exit) => exit.verificationError).length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-muted-foreground">
+        If the Spark operators go offline you can still take your funds
+        on-chain. Each leaf of your balance has a chain of pre-signed
+        transactions to publish in order, waiting out each timelock.
+      </p>
+      <div className="flex gap-2 rounded-lg border border-amber-500/50 p-3 text-xs">
+        <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+        <p>
+          These transactions are not broadcast-ready. They pay no fee, so
+          Bitcoin nodes only relay each one together with a child transaction
+          that spends its anchor output and pays the fee (CPFP), submitted as a
+          package. This wallet doesn&apos;t build those children and most
+          explorers can&apos;t broadcast packages, you need your own Bitcoin
+          node and funds to pay the fees.
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        onClick={() => prepareExits()}
+        disabled={isPending}
+        className="w-full">
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {exits ? "Refresh Exit Transactions" : "Prepare Exit Transactions"}
+      </Button>
+      {exits && exits.length === 0 && (
+        <p className="text-center text-muted-foreground">
+          The wallet has no leaves to exit.
+        </p>
+      )}
+      {exits && exits.length > 0 && (
+        <>
+          <p>
+            {exits.length} leaves,{" "}
+            {exits
+              .reduce((sum, exit) => sum + exit.valueSats, 0)
+              .toLocaleString()}{" "}
+            sats
+            {invalidCount > 0 && (
+              <span className="text-destructive">
+                {" "}
+                · {invalidCount} failed verification
+              </span>
+            )}
+          </p>
+          <div className="space-y-2">
+            {exits.map((exit) => (
+              <LeafExitItem key={exit.leafId} exit={exit} />
+            ))}
+          </div>
+          <Button onClick={() => handleDownload(exits)} className="w-full">
+            <Download className="mr-2 h-4 w-4" />
+            Download Exit Transactions
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
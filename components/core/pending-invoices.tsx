@@ -0,0 +1,66 @@
+"use client";
+
+import { Zap } from "lucide-react";
+import { formatCountdown, useCountdown } from "@/lib/use-countdown";
+import type { HistoryTransaction } from "@/types/history";
+
+interface PendingInvoicesProps {
+  invoices: HistoryTransaction[];
+  onSelect: (invoice: HistoryTransaction) => void;
+}
+
+function PendingInvoiceItem({
+  invoice,
+  onSelect,
+}: {
+  invoice: HistoryTransaction;
+  onSelect: () => void;
+}) {
+  const secondsLeft = useCountdown(invoice.expiresAt);
+
+  // Expired while the list was open, the next sync marks it failed
+  if (secondsLeft === 0) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className="w-full flex items-center gap-3 rounded-lg p-3 text-left hover:bg-muted">
+      <div className="flex h-10 w-10 items-center justify-center rounded-full bg-muted">
+        <Zap className="h-5 w-5 text-yellow-500" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate">
+          {invoice.label ?? invoice.description ?? "Lightning Invoice"}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {secondsLeft === null
+            ? "Waiting for payment"
+            : `Expires in ${formatCountdown(secondsLeft)}`}
+        </p>
+      </div>
+      <p className="font-medium">{invoice.amountSats.toLocaleString()} sats</p>
+    </button>
+  );
+}
+
+/**
+ * Unpaid invoices from the local history, so one that was shown and left
+ * can be opened again until it's paid or expires.
+ */
+export function PendingInvoices({ invoices, onSelect }: PendingInvoicesProps) {
+  if (invoices.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-xs space-y-1">
+      <p className="text-sm font-medium">Pending Invoices</p>
+      {invoices.map((invoice) => (
+        <PendingInvoiceItem
+          key={invoice.id}
+          invoice={invoice}
+          onSelect={() => onSelect(invoice)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import { TokenItem } from "../token-item";
+import { useWalletTokens } from "@/lib/use-wallet-tokens";
+
+export function TokenList() {
+  const { tokens, isLoading } = useWalletTokens();
+
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {tokens.map((token) => (
+          <Skeleton key={token.pubkey} className="h-16 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {tokens.map((token) => (
+        <TokenItem key={token.pubkey} token={token} />
+      ))}
+    </div>
+  );
+}
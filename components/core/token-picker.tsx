@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { TokenIcon, TokenItem } from "../token-item";
+import type { WalletToken } from "@/lib/use-wallet-tokens";
+import { cn } from "@/lib/utils";
+
+interface TokenPickerProps {
+  tokens: WalletToken[];
+  btcBalanceSats: number;
+  selectedTokenPubkey: string | null; // null means Bitcoin
+  onSelect: (tokenPubkey: string | null) => void;
+}
+
+export function TokenPicker({
+  tokens,
+  btcBalanceSats,
+  selectedTokenPubkey,
+  onSelect,
+}: TokenPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const selectedToken = tokens.find(
+    (token) => token.pubkey === selectedTokenPubkey
+  );
+
+  const handleSelect = (tokenPubkey: string | null) => {
+    onSelect(tokenPubkey);
+    setIsOpen(false);
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          {selectedToken ? (
+            <>
+              <TokenIcon
+                ticker={selectedToken.ticker}
+                iconUrl={selectedToken.iconUrl}
+                className="h-5 w-5"
+              />
+              {selectedToken.ticker}
+            </>
+          ) : (
+            "Bitcoin"
+          )}
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="rounded-t-lg max-h-[85vh]">
+        <SheetHeader>
+          <SheetTitle>Select Asset</SheetTitle>
+          <SheetDescription>Choose what you want to send.</SheetDescription>
+        </SheetHeader>
+        <div className="p-4 space-y-1 overflow-y-auto">
+          <div
+            className={cn(
+              "flex items-center justify-between rounded-lg p-3 cursor-pointer hover:bg-muted",
+              selectedTokenPubkey === null && "bg-muted"
+            )}
+            onClick={() => handleSelect(null)}>
+            <TokenIcon ticker="BTC" iconUrl="/bitcoin-icon.svg" />
+            <div className="flex-1 mx-3">
+              <p className="font-medium">Bitcoin</p>
+              <p className="text-xs text-muted-foreground">BTC</p>
+            </div>
+            <p className="font-medium">
+              {btcBalanceSats.toLocaleString()} sats
+            </p>
+          </div>
+          {tokens.map((token) => (
+            <TokenItem
+              key={token.pubkey}
+              token={token}
+              selected={token.pubkey === selectedTokenPubkey}
+              onClick={() => handleSelect(token.pubkey)}
+            />
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
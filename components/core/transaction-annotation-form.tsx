@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  TRANSACTION_CATEGORIES,
+  TRANSACTION_CATEGORY_LABELS,
+} from "@/lib/history-filters";
+import type { TransactionAnnotation } from "@/types/history";
+
+interface TransactionAnnotationFormProps {
+  annotation: TransactionAnnotation;
+  onSave: (annotation: TransactionAnnotation) => Promise<void>;
+}
+
+export function TransactionAnnotationForm({
+  annotation,
+  onSave,
+}: TransactionAnnotationFormProps) {
+  const [label, setLabel] = useState(annotation.label ?? "");
+  const [category, setCategory] = useState(annotation.category);
+  const [note, setNote] = useState(annotation.note ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const isChanged =
+    label.trim() !== (annotation.label ?? "") ||
+    category !== annotation.category ||
+    note.trim() !== (annotation.note ?? "");
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ label, category, note });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="tx-label">Label</Label>
+        <Input
+          id="tx-label"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. Coffee with Alice"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Category</Label>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant={category ? "outline" : "default"}
+            onClick={() => setCategory(undefined)}>
+            None
+          </Button>
+          {TRANSACTION_CATEGORIES.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={category === option ? "default" : "outline"}
+              onClick={() => setCategory(option)}>
+              {TRANSACTION_CATEGORY_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="tx-note">Note</Label>
+        <Textarea
+          id="tx-note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={3}
+        />
+      </div>
+      <Button
+        onClick={handleSave}
+        disabled={!isChanged || isSaving}
+        className="w-full">
+        {isSaving ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          "Save"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Search, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  TRANSACTION_DIRECTIONS,
+  TRANSACTION_STATUSES,
+  TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  countActiveFilters,
+  type HistoryFilters,
+} from "@/lib/history-filters";
+import type { TransactionType } from "@/types/explorer";
+
+interface TransactionFiltersProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+}
+
+const DIRECTION_LABELS = { incoming: "Received", outgoing: "Sent" };
+
+const STATUS_LABELS = {
+  confirmed: "Confirmed",
+  pending: "Pending",
+  failed: "Failed",
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// A row of toggle buttons with an "All" option that clears the value
+function OptionGroup<T extends string>({
+  label,
+  options,
+  labels,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: T[];
+  labels: Record<T, string>;
+  value?: T;
+  onChange: (value?: T) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant={value ? "outline" : "default"}
+          onClick={() => onChange(undefined)}>
+          All
+        </Button>
+        {options.map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={value === option ? "default" : "outline"}
+            onClick={() => onChange(option)}>
+            {labels[option]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function TransactionFilters({
+  filters,
+  onChange,
+}: TransactionFiltersProps) {
+  const [search, setSearch] = useState(filters.search ?? "");
+  const activeFilterCount = countActiveFilters({
+    ...filters,
+    search: undefined,
+  });
+  const [isOpen, setIsOpen] = useState(activeFilterCount > 0);
+
+  // Only write the search to the URL once typing pauses
+  useEffect(() => {
+    if (search === (filters.search ?? "")) return;
+    const timeout = setTimeout(
+      () => onChange({ ...filters, search: search || undefined }),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [search, filters, onChange]);
+
+  const toggleType = (type: TransactionType) => {
+    const types = filters.types ?? [];
+    onChange({
+      ...filters,
+      types: types.includes(type)
+        ? types.filter((selected) => selected !== type)
+        : [...types, type],
+    });
+  };
+
+  return (
+    <div className="space-y-3 mb-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search label, memo, address or ID"
+            className="pl-8"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => setIsOpen((open) => !open)}
+          aria-expanded={isOpen}>
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters
+          {activeFilterCount > 0 && (
+            <Badge className="ml-1 px-1.5">{activeFilterCount}</Badge>
+          )}
+        </Button>
+      </div>
+
+      {isOpen && (
+        <div className="space-y-4 rounded-lg border p-3">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <div className="flex flex-wrap gap-2">
+              {TRANSACTION_TYPES.map((type) => (
+                <Button
+                  key={type}
+                  size="sm"
+                  variant={
+                    filters.types?.includes(type) ? "default" : "outline"
+                  }
+                  onClick={() => toggleType(type)}>
+                  {TRANSACTION_TYPE_LABELS[type]}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <OptionGroup
+            label="Direction"
+            options={TRANSACTION_DIRECTIONS}
+            labels={DIRECTION_LABELS}
+            value={filters.direction}
+            onChange={(direction) => onChange({ ...filters, direction })}
+          />
+          <OptionGroup
+            label="Status"
+            options={TRANSACTION_STATUSES}
+            labels={STATUS_LABELS}
+            value={filters.status}
+            onChange={(status) => onChange({ ...filters, status })}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="history-from">From</Label>
+              <Input
+                id="history-from"
+                type="date"
+                value={filters.from ?? ""}
+                max={filters.to}
+                onChange={(e) =>
+                  onChange({ ...filters, from: e.target.value || undefined })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="history-to">To</Label>
+              <Input
+                id="history-to"
+                type="date"
+                value={filters.to ?? ""}
+                min={filters.from}
+                onChange={(e) =>
+                  onChange({ ...filters, to: e.target.value || undefined })
+                }
+              />
+            </div>
+          </div>
+          {activeFilterCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => onChange({ search: filters.search })}>
+              Clear filters
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
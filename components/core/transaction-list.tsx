@@ -1,6 +1,7 @@
 "use client";
 
 import {
+  useInfiniteQuery,
   useQuery,
   keepPreviousData,
   useQueryClient,
@@ -8,77 +9,81 @@ import {
 
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"; // `shadcn-ui add alert`
-import { Terminal } from "lucide-react";
+import { Loader2, Terminal } from "lucide-react";
 import Link from "next/link";
 import { Button } from "../ui/button";
-import { useState, useImperativeHandle, forwardRef, useEffect } from "react";
+import {
+  useCallback,
+  useImperativeHandle,
+  forwardRef,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { TransactionItem } from "../transaction-item";
+import { TransactionFilters } from "./transaction-filters";
 import { useWallet } from "@/lib/use-wallet-store";
-
-// Define types based on your openapi.json (or generate them)
-// Simplified example types:
-interface ApiTransaction {
-  id: string;
-  type:
-    | "spark_transfer"
-    | "lightning_payment"
-    | "bitcoin_deposit"
-    | "bitcoin_withdrawal";
-  direction: "incoming" | "outgoing";
-  counterparty?: {
-    pubkey?: string | null;
-    identifier?: string;
-    type?: string;
-  } | null; // Adjusted based on potential null
-  amountSats: number;
-  valueUsd: number;
-  timestamp: string; // ISO String date
-  status: "confirmed" | "pending" | "failed";
-  txid?: string | null; // For linking to explorer
-}
-
-interface AddressTransactionsResponse {
-  meta: { totalItems: number; limit: number; offset: number };
-  data: ApiTransaction[];
-}
+import { countTransactions, listTransactions } from "@/lib/history-db";
+import { syncHistory } from "@/lib/history-sync";
+import { findContact } from "@/lib/contacts";
+import { useContactIndex } from "@/lib/use-contacts-store";
+import {
+  countActiveFilters,
+  parseHistoryFilters,
+  toHistorySearchParams,
+  type HistoryFilters,
+} from "@/lib/history-filters";
+import type { HistoryTransaction } from "@/types/history";
 
 // Define a public ref interface
 export interface TransactionListRefHandle {
   refresh: () => void;
 }
 
-// Replace with your actual API endpoint and network logic
-const API_BASE_URL = "https://api.equaleyes.flashnet.xyz/"; // Or your backend URL
-const DEFAULT_NETWORK = "MAINNET"; // Or dynamically get from useWallet store if needed
-
-async function fetchTransactions(
-  address: string,
-  limit: number,
-  offset: number,
-  network: string = DEFAULT_NETWORK
-): Promise<AddressTransactionsResponse> {
-  const url = `${API_BASE_URL}/v1/address/${address}/transactions?network=${network}&limit=${limit}&offset=${offset}`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch transactions: ${response.statusText}`);
-  }
-  return response.json();
-}
+const PAGE_SIZE = 15;
 
 export const TransactionList = forwardRef<
   TransactionListRefHandle,
   { sparkAddress: string }
 >(function TransactionList({ sparkAddress }, ref) {
-  const [offset, setOffset] = useState(0);
-  const limit = 15; // Number of transactions per page
   const queryClient = useQueryClient();
-  const { btcBalance } = useWallet();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const {
+    wallet,
+    pubkey,
+    btcBalance,
+    satsUsdPrice,
+    initWalletNetwork: network,
+  } = useWallet();
+  const contactIndex = useContactIndex();
+
+  // Filters live in the URL so a filtered view can be bookmarked
+  const filters = useMemo(
+    () => parseHistoryFilters(searchParams),
+    [searchParams]
+  );
+  const handleFiltersChange = useCallback(
+    (nextFilters: HistoryFilters) => {
+      const params = toHistorySearchParams(
+        nextFilters,
+        new URLSearchParams(searchParams.toString())
+      ).toString();
+      router.replace(params ? `${pathname}?${params}` : pathname, {
+        scroll: false,
+      });
+    },
+    [pathname, router, searchParams]
+  );
 
   // Expose refresh method through ref
   useImperativeHandle(ref, () => ({
     refresh: () => {
       queryClient.invalidateQueries({
-        queryKey: ["transactions", sparkAddress],
+        queryKey: ["transactions", network, sparkAddress],
       });
     },
   }));
@@ -87,38 +92,86 @@ export const TransactionList = forwardRef<
   useEffect(() => {
     if (btcBalance.value > 0) {
       queryClient.invalidateQueries({
-        queryKey: ["transactions", sparkAddress],
+        queryKey: ["transactions", network, sparkAddress],
       });
     }
-  }, [btcBalance.value, sparkAddress, queryClient]);
-
-  const { data, error, isLoading, isFetching, isPlaceholderData } = useQuery<
-    AddressTransactionsResponse,
-    Error
-  >({
-    queryKey: ["transactions", sparkAddress, limit, offset],
-    queryFn: () => fetchTransactions(sparkAddress, limit, offset),
+  }, [btcBalance.value, network, sparkAddress, queryClient]);
+
+  // History is served from the local database, syncing from the SDK before
+  // the first page. Offline the sync fails and the stored history is shown.
+  const {
+    data,
+    error,
+    isPending,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["transactions", network, sparkAddress, filters],
+    queryFn: async ({ pageParam }) => {
+      const scope = { network, identityPublicKey: pubkey };
+      if (wallet && !pageParam) {
+        try {
+          await syncHistory(wallet, scope);
+        } catch (syncError) {
+          console.warn("TransactionList: History sync failed.", syncError);
+        }
+      }
+      return listTransactions(scope, {
+        cursor: pageParam,
+        limit: PAGE_SIZE,
+        filters,
+      });
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!pubkey,
     placeholderData: keepPreviousData,
     staleTime: 15 * 1000,
     refetchInterval: 30 * 1000,
   });
 
-  const handleNextPage = () => {
-    if (data && !isPlaceholderData && offset + limit < data.meta.totalItems) {
-      setOffset((prev) => prev + limit);
-    }
-  };
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const transactions = data?.pages.flatMap((page) => page.data) ?? [];
+  const hasFilters = countActiveFilters(filters) > 0;
+
+  // Counting reads every stored row, so only filtered views show a total
+  const { data: totalItems = 0 } = useQuery({
+    queryKey: ["transactions", network, sparkAddress, "count", filters],
+    queryFn: () =>
+      countTransactions({ network, identityPublicKey: pubkey }, filters),
+    enabled: !!pubkey && hasFilters,
+    placeholderData: keepPreviousData,
+    staleTime: 15 * 1000,
+    refetchInterval: 30 * 1000,
+  });
 
-  const handlePreviousPage = () => {
-    setOffset((prev) => Math.max(0, prev - limit));
-  };
+  const filterControls = (
+    <TransactionFilters filters={filters} onChange={handleFiltersChange} />
+  );
 
-  if (isLoading) {
+  if (isPending) {
     return (
-      <div className="space-y-3">
-        {[...Array(5)].map((_, i) => (
-          <Skeleton key={i} className="h-16 w-full rounded-lg" />
-        ))}
+      <div>
+        {filterControls}
+        <div className="space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full rounded-lg" />
+          ))}
+        </div>
       </div>
     );
   }
@@ -133,53 +186,60 @@ export const TransactionList = forwardRef<
     );
   }
 
-  if (!data || !data.data || data.data.length === 0) {
+  if (transactions.length === 0) {
     return (
-      <p className="text-muted-foreground text-sm text-center py-4">
-        No transactions yet.
-      </p>
+      <div>
+        {filterControls}
+        <p className="text-muted-foreground text-sm text-center py-4">
+          {hasFilters
+            ? "No transactions match these filters."
+            : "No transactions yet."}
+        </p>
+      </div>
     );
   }
 
   return (
-    <div className="space-y-1">
-      {data.data.map((tx: ApiTransaction) => (
-        <TransactionItem
-          key={tx.id}
-          id={tx.id}
-          type={tx.type}
-          direction={tx.direction}
-          amountSats={tx.amountSats}
-          valueUsd={tx.valueUsd}
-          timestamp={tx.timestamp}
-          status={tx.status}
-          counterparty={tx.counterparty ?? undefined}
-        />
-      ))}
-      {/* Pagination Controls */}
-      <div className="flex justify-between items-center pt-4">
-        <Button
-          onClick={handlePreviousPage}
-          disabled={offset === 0 || isFetching}
-          variant="outline"
-          size="sm">
-          Previous
-        </Button>
-        <span className="text-sm text-muted-foreground">
-          Page {Math.floor(offset / limit) + 1} of{" "}
-          {Math.ceil(data.meta.totalItems / limit)}
-        </span>
-        <Button
-          onClick={handleNextPage}
-          disabled={
-            isPlaceholderData ||
-            offset + limit >= data.meta.totalItems ||
-            isFetching
-          }
-          variant="outline"
-          size="sm">
-          Next
-        </Button>
+    <div>
+      {filterControls}
+      {hasFilters && (
+        <p className="text-xs text-muted-foreground mb-2">
+          {totalItems.toLocaleString()}{" "}
+          {totalItems === 1 ? "transaction" : "transactions"}
+        </p>
+      )}
+      <div className="space-y-1">
+        {transactions.map((tx: HistoryTransaction) => (
+          <TransactionItem
+            key={tx.id}
+            id={tx.id}
+            type={tx.type}
+            direction={tx.direction}
+            amountSats={tx.amountSats}
+            valueUsd={tx.amountSats * satsUsdPrice.value}
+            timestamp={tx.timestamp}
+            status={tx.status}
+            counterparty={tx.counterparty ?? undefined}
+            contact={findContact(contactIndex, tx.counterparty)}
+            label={tx.label}
+          />
+        ))}
+      </div>
+      {/* Infinite scroll sentinel */}
+      <div ref={loadMoreRef} className="flex justify-center py-4">
+        {isFetchingNextPage ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          hasNextPage && (
+            <Button
+              onClick={() => fetchNextPage()}
+              disabled={isFetching}
+              variant="outline"
+              size="sm">
+              Load more
+            </Button>
+          )
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,22 @@
+"use client";
+
+import { FlaskConical } from "lucide-react";
+import { useWallet } from "@/lib/use-wallet-store";
+import { NETWORK_LABELS } from "@/lib/network";
+
+// Shown on every wallet screen while a test network is active so test funds
+// can't be mistaken for real bitcoin.
+export function NetworkBanner() {
+  const { initWalletNetwork } = useWallet();
+
+  if (initWalletNetwork === "MAINNET") {
+    return null;
+  }
+
+  return (
+    <div className="sticky top-0 z-50 flex items-center justify-center gap-2 bg-amber-500 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-black">
+      <FlaskConical className="h-3.5 w-3.5" />
+      {NETWORK_LABELS[initWalletNetwork]} · Test funds only
+    </div>
+  );
+}
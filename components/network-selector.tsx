@@ -0,0 +1,50 @@
+"use client";
+
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Label } from "@/components/ui/label";
+import {
+  NETWORK_LABELS,
+  SUPPORTED_NETWORKS,
+  isSupportedNetwork,
+  type WalletNetwork,
+} from "@/lib/network";
+import { cn } from "@/lib/utils";
+
+interface NetworkSelectorProps {
+  value: WalletNetwork;
+  onChange: (network: WalletNetwork) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function NetworkSelector({
+  value,
+  onChange,
+  disabled = false,
+  className,
+}: NetworkSelectorProps) {
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Label>Network</Label>
+      <Tabs
+        value={value}
+        onValueChange={(next) => {
+          if (isSupportedNetwork(next)) onChange(next);
+        }}>
+        <TabsList className="w-full">
+          {SUPPORTED_NETWORKS.map((network) => (
+            <TabsTrigger key={network} value={network} disabled={disabled}>
+              {NETWORK_LABELS[network]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      {value !== "MAINNET" && (
+        <p className="text-xs text-muted-foreground">
+          {NETWORK_LABELS[value]} funds are for testing only and have no real
+          value.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { formatTokenAmount } from "@/lib/token-utils";
+import type { WalletToken } from "@/lib/use-wallet-tokens";
+
+interface TokenIconProps {
+  ticker: string;
+  iconUrl?: string;
+  className?: string;
+}
+
+export function TokenIcon({ ticker, iconUrl, className }: TokenIconProps) {
+  return (
+    <Avatar className={cn("h-10 w-10", className)}>
+      {iconUrl && <AvatarImage src={iconUrl} alt={ticker} />}
+      <AvatarFallback className="text-xs font-semibold">
+        {ticker.slice(0, 3).toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+interface TokenItemProps {
+  token: WalletToken;
+  onClick?: () => void;
+  selected?: boolean;
+}
+
+export function TokenItem({ token, onClick, selected }: TokenItemProps) {
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-between rounded-lg p-3",
+        onClick && "cursor-pointer hover:bg-muted",
+        selected && "bg-muted"
+      )}
+      onClick={onClick}>
+      {/* Left side: Icon */}
+      <TokenIcon ticker={token.ticker} iconUrl={token.iconUrl} />
+
+      {/* Middle: Name and Ticker */}
+      <div className="flex-1 mx-3 min-w-0">
+        <p className="font-medium truncate">{token.name}</p>
+        <p className="text-xs text-muted-foreground">{token.ticker}</p>
+      </div>
+
+      {/* Right side: Balance */}
+      <div className="text-right">
+        <p className="font-medium">
+          {formatTokenAmount(token.balance, token.decimals)}
+        </p>
+        {token.valueUsd !== undefined && (
+          <p className="text-xs text-muted-foreground">
+            ${token.valueUsd.toFixed(2)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
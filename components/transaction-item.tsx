@@ -2,27 +2,34 @@ import { formatDistanceToNow } from "date-fns";
 import { ArrowDownLeft, ArrowUpRight, Bitcoin, X, Zap } from "lucide-react";
 import { cn } from "@/lib/utils";
 import Link from "next/link";
+import { ContactAvatar } from "./contact-item";
+import type { Contact } from "@/types/contacts";
+import type {
+  TransactionCounterparty,
+  TransactionDirection,
+  TransactionStatus,
+  TransactionType,
+} from "@/types/explorer";
 
 interface TransactionItemProps {
-  id: string; // Good
-  type:
-    | "spark_transfer"
-    | "lightning_payment"
-    | "bitcoin_deposit"
-    | "bitcoin_withdrawal"; // Matches API
-  direction: "incoming" | "outgoing"; // Matches API
-  amountSats: number; // Matches API
-  valueUsd: number; // Matches API
-  timestamp: string; // Matches API (ISO string)
-  status: "confirmed" | "pending" | "failed"; // Matches API
-  counterparty?: {
-    // Matches API (optional)
-    pubkey?: string | null; // Allow null for pubkey
-    identifier?: string;
-    type?: string;
-  } | null; // Allow null for the counterparty object itself
+  id: string;
+  type: TransactionType;
+  direction: TransactionDirection;
+  amountSats: number;
+  valueUsd: number;
+  timestamp: string; // ISO string
+  status: TransactionStatus;
+  counterparty?: TransactionCounterparty | null;
+  contact?: Contact; // Saved contact matching the counterparty
+  label?: string; // User label, shown instead of the counterparty
 }
 
+// Long addresses and keys shortened to their ends
+const shortenIdentifier = (identifier: string) =>
+  identifier.length > 14
+    ? `${identifier.slice(0, 6)}...${identifier.slice(-6)}`
+    : identifier;
+
 export function TransactionItem({
   id,
   type,
@@ -31,6 +38,9 @@ export function TransactionItem({
   valueUsd,
   timestamp,
   status,
+  counterparty,
+  contact,
+  label,
 }: TransactionItemProps) {
   const isIncoming = direction === "incoming";
 
@@ -78,6 +88,15 @@ export function TransactionItem({
     addSuffix: true,
   });
 
+  // Who the payment was with, by contact name when it's a saved one
+  const counterpartyLabel =
+    contact?.name ??
+    (counterparty ? shortenIdentifier(counterparty.identifier) : null);
+  // Most specific name as the title, the next one in front of the time
+  const [title, subtitle] = [label, counterpartyLabel, getTypeLabel()].filter(
+    Boolean
+  );
+
   // Conditional styling based on status - good
   return (
     <div
@@ -90,14 +109,19 @@ export function TransactionItem({
         href={id ? `/home/tx/${id}` : "#"}
         className="w-full flex items-center justify-between">
         {/* Left side: Icon */}
-        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-muted">
-          {getIcon()}
-        </div>
+        {contact && status !== "failed" ? (
+          <ContactAvatar contact={contact} />
+        ) : (
+          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-muted">
+            {getIcon()}
+          </div>
+        )}
 
         {/* Middle: Type and Timestamp */}
-        <div className="flex-1 mx-3">
-          <p className="font-medium">{getTypeLabel()}</p>
-          <p className="text-xs text-muted-foreground">
+        <div className="flex-1 mx-3 min-w-0">
+          <p className="font-medium truncate">{title}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {subtitle && `${subtitle} · `}
             {status === "failed"
               ? "Failed"
               : status === "pending"
@@ -0,0 +1,191 @@
+import {
+  annotateTransaction,
+  getAllTransactions,
+  getTransaction,
+  type HistoryScope,
+} from "@/lib/history-db";
+import { tryParsePaymentRequest } from "@/lib/payment-request";
+import { useContactsStore } from "@/lib/use-contacts-store";
+import { getDepositAddresses } from "@/lib/use-deposit-addresses-store";
+import { useLabelsStore } from "@/lib/use-labels-store";
+import type { HistoryTransaction } from "@/types/history";
+
+// BIP329 wallet labels: one JSON object per line
+// https://github.com/bitcoin/bips/blob/master/bip-0329.mediawiki
+
+export const BIP329_TYPES = [
+  "tx",
+  "addr",
+  "pubkey",
+  "input",
+  "output",
+  "xpub",
+] as const;
+export type Bip329Type = (typeof BIP329_TYPES)[number];
+
+export interface Bip329Record {
+  type: Bip329Type;
+  ref: string;
+  label?: string;
+  origin?: string;
+  spendable?: boolean; // Outputs only
+}
+
+export interface Bip329ImportResult {
+  imported: number;
+  skipped: number; // Unsupported types or transactions not in this wallet
+  invalid: number; // Lines that aren't BIP329 records
+}
+
+const DEFAULT_DEPOSIT_ADDRESS_LABEL = "Spark deposit address";
+
+export function toBip329Jsonl(records: Bip329Record[]) {
+  return records.map((record) => JSON.stringify(record)).join("\n");
+}
+
+function isBip329Record(value: unknown): value is Bip329Record {
+  const record = value as Bip329Record;
+  return (
+    typeof record === "object" &&
+    record !== null &&
+    BIP329_TYPES.includes(record.type) &&
+    typeof record.ref === "string" &&
+    record.ref.length > 0 &&
+    (record.label === undefined || typeof record.label === "string")
+  );
+}
+
+export function parseBip329Jsonl(content: string) {
+  const records: Bip329Record[] = [];
+  let invalid = 0;
+  content
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .forEach((line) => {
+      try {
+        const value = JSON.parse(line);
+        if (isBip329Record(value)) {
+          records.push(value);
+        } else {
+          invalid++;
+        }
+      } catch {
+        invalid++;
+      }
+    });
+  return { records, invalid };
+}
+
+/**
+ * Encrypted exports are a single base64 line, plain ones start with JSON.
+ */
+export function isEncryptedLabelFile(content: string) {
+  const trimmed = content.trim();
+  return trimmed.length > 0 && !trimmed.startsWith("{");
+}
+
+// Other wallets only know on-chain txids, Spark payments fall back to our id
+function transactionRef(tx: HistoryTransaction) {
+  return tx.txid ?? tx.transferId ?? tx.id;
+}
+
+/**
+ * Labels for the wallet's transactions, deposit addresses and the Spark
+ * identity keys of contacts. Contact names win over imported key labels.
+ */
+export async function exportWalletLabels(
+  scope: HistoryScope
+): Promise<Bip329Record[]> {
+  const records: Bip329Record[] = [];
+
+  (await getAllTransactions(scope)).forEach((tx) => {
+    const label = tx.label ?? tx.note;
+    if (label) {
+      records.push({ type: "tx", ref: transactionRef(tx), label });
+    }
+  });
+
+  const { addressLabels, pubkeyLabels } = useLabelsStore.getState();
+  const addresses = new Set([
+    ...getDepositAddresses(scope).map((entry) => entry.address),
+    ...Object.keys(addressLabels),
+  ]);
+  addresses.forEach((address) => {
+    records.push({
+      type: "addr",
+      ref: address,
+      label: addressLabels[address] ?? DEFAULT_DEPOSIT_ADDRESS_LABEL,
+    });
+  });
+
+  const pubkeys = new Map(Object.entries(pubkeyLabels));
+  useContactsStore.getState().contacts.forEach((contact) =>
+    contact.entries.forEach((entry) => {
+      const request = tryParsePaymentRequest(entry.value, scope.network);
+      if (request?.type === "spark") {
+        pubkeys.set(request.identityPublicKey.toLowerCase(), contact.name);
+      }
+    })
+  );
+  pubkeys.forEach((label, pubkey) =>
+    records.push({ type: "pubkey", ref: pubkey, label })
+  );
+
+  return records;
+}
+
+/**
+ * Applies imported labels. Transaction labels replace the current label but
+ * keep the category and note.
+ */
+export async function importWalletLabels(
+  scope: HistoryScope,
+  records: Bip329Record[]
+): Promise<Omit<Bip329ImportResult, "invalid">> {
+  const transactions = await getAllTransactions(scope);
+  const byTxid = new Map(
+    transactions
+      .filter((tx) => tx.txid)
+      .map((tx) => [tx.txid!.toLowerCase(), tx])
+  );
+  const { setAddressLabel, setPubkeyLabel } = useLabelsStore.getState();
+  let imported = 0;
+  let skipped = 0;
+
+  for (const record of records) {
+    const label = record.label?.trim();
+    if (!label) {
+      skipped++;
+      continue;
+    }
+    switch (record.type) {
+      case "tx": {
+        const tx =
+          byTxid.get(record.ref.toLowerCase()) ??
+          (await getTransaction(scope, record.ref));
+        if (!tx) {
+          skipped++;
+          continue;
+        }
+        await annotateTransaction(scope, tx.id, {
+          label,
+          category: tx.category,
+          note: tx.note,
+        });
+        break;
+      }
+      case "addr":
+        setAddressLabel(record.ref, label);
+        break;
+      case "pubkey":
+        setPubkeyLabel(record.ref, label);
+        break;
+      default:
+        // Inputs, outputs and xpubs belong to on-chain wallets
+        skipped++;
+        continue;
+    }
+    imported++;
+  }
+  return { imported, skipped };
+}
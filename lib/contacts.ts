@@ -0,0 +1,144 @@
+import { encodeSparkAddress } from "@buildonspark/spark-sdk";
+import {
+  PaymentRequestError,
+  parsePaymentRequest,
+  tryParsePaymentRequest,
+} from "@/lib/payment-request";
+import type { WalletNetwork } from "@/lib/network";
+import type { TransactionCounterparty } from "@/types/explorer";
+import type { Contact, ContactEntry, ContactEntryType } from "@/types/contacts";
+
+export const CONTACT_ENTRY_TYPE_LABELS: Record<ContactEntryType, string> = {
+  spark: "Spark",
+  lightning_address: "Lightning Address",
+  bitcoin: "Bitcoin",
+};
+
+/**
+ * Validates an address for saving to a contact. Spark and Bitcoin addresses
+ * must belong to the wallet's current network.
+ */
+export function parseContactEntry(
+  input: string,
+  network: WalletNetwork
+): ContactEntry {
+  const request = parsePaymentRequest(input, network);
+  switch (request.type) {
+    case "spark":
+    case "bitcoin":
+    case "lightning_address":
+      return { type: request.type, value: request.address };
+    default:
+      throw new PaymentRequestError(
+        "Only Spark addresses, Lightning Addresses and Bitcoin addresses can be saved."
+      );
+  }
+}
+
+/**
+ * Non-throwing variant, e.g. to check whether a recipient can be saved.
+ */
+export function tryParseContactEntry(
+  input: string,
+  network: WalletNetwork
+): ContactEntry | null {
+  try {
+    return parseContactEntry(input, network);
+  } catch {
+    return null;
+  }
+}
+
+// History identifies Spark counterparties by identity public key, so Spark
+// addresses are indexed by the key they encode
+function addressLookupKey(address: string, network: WalletNetwork) {
+  const request = tryParsePaymentRequest(address, network);
+  switch (request?.type) {
+    case "spark":
+      return request.identityPublicKey.toLowerCase();
+    case "bitcoin":
+    case "lightning_address":
+      return request.address.toLowerCase();
+    default:
+      return null;
+  }
+}
+
+export type ContactIndex = Map<string, Contact>;
+
+/**
+ * Maps every address and Spark identity key on the network to its contact.
+ */
+export function buildContactIndex(
+  contacts: Contact[],
+  network: WalletNetwork
+): ContactIndex {
+  const index: ContactIndex = new Map();
+  contacts.forEach((contact) =>
+    contact.entries.forEach((entry) => {
+      const key = addressLookupKey(entry.value, network);
+      if (key && !index.has(key)) index.set(key, contact);
+    })
+  );
+  return index;
+}
+
+/**
+ * The contact behind a history counterparty or a send recipient.
+ */
+export function findContact(
+  index: ContactIndex,
+  counterparty?: Pick<TransactionCounterparty, "identifier" | "pubkey"> | null
+): Contact | undefined {
+  if (!counterparty) return undefined;
+  return (
+    (counterparty.pubkey && index.get(counterparty.pubkey.toLowerCase())) ||
+    index.get(counterparty.identifier.toLowerCase())
+  );
+}
+
+/**
+ * The contact saved with a Spark address, Lightning Address or Bitcoin
+ * address, e.g. the recipient being paid.
+ */
+export function findContactByAddress(
+  index: ContactIndex,
+  address: string,
+  network: WalletNetwork
+): Contact | undefined {
+  const key = addressLookupKey(address, network);
+  return key ? index.get(key) : undefined;
+}
+
+/**
+ * The address to save for a history counterparty, or null when it has
+ * nothing reusable (e.g. a Lightning payment without a Lightning Address).
+ */
+export function counterpartyContactEntry(
+  counterparty: TransactionCounterparty,
+  network: WalletNetwork
+): ContactEntry | null {
+  if (counterparty.type !== "spark") {
+    return tryParseContactEntry(counterparty.identifier, network);
+  }
+  try {
+    return parseContactEntry(
+      encodeSparkAddress({
+        identityPublicKey: counterparty.pubkey ?? counterparty.identifier,
+        network,
+      }),
+      network
+    );
+  } catch {
+    return null; // Not a valid identity key
+  }
+}
+
+export function contactInitials(name: string) {
+  return name
+    .trim()
+    .split(/\s+/)
+    .slice(0, 2)
+    .map((word) => word.charAt(0).toUpperCase())
+    .join("");
+}
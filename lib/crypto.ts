@@ -8,15 +8,25 @@ export function validateMnemonic(mnemonic: string) {
   return bip39.validateMnemonic(mnemonic);
 }
 
+// String.fromCharCode(...bytes) overflows the stack on large inputs
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 /**
- * Encrypts a mnemonic phrase with a password
+ * Encrypts text with a password: PBKDF2-derived AES-GCM key, output is
+ * base64 of salt, iv and ciphertext.
  */
-export async function encryptMnemonic(
-  mnemonic: string,
+export async function encryptWithPassword(
+  plaintext: string,
   password: string
 ): Promise<string> {
   const encoder = new TextEncoder();
-  const data = encoder.encode(mnemonic);
+  const data = encoder.encode(plaintext);
 
   // Convert password to key
   const keyMaterial = await window.crypto.subtle.importKey(
@@ -66,21 +76,21 @@ export async function encryptMnemonic(
   result.set(new Uint8Array(ciphertext), salt.length + iv.length);
 
   // Convert to base64
-  return btoa(String.fromCharCode(...result));
+  return toBase64(result);
 }
 
 /**
- * Decrypts an encrypted mnemonic with a password
+ * Decrypts the output of encryptWithPassword
  */
-export async function decryptMnemonic(
-  encryptedMnemonic: string,
+export async function decryptWithPassword(
+  encrypted: string,
   password: string
 ): Promise<string> {
   const encoder = new TextEncoder();
   const decoder = new TextDecoder();
 
   // Convert from base64
-  const encryptedData = Uint8Array.from(atob(encryptedMnemonic), (c) =>
+  const encryptedData = Uint8Array.from(atob(encrypted), (c) =>
     c.charCodeAt(0)
   );
 
@@ -128,3 +138,60 @@ export async function decryptMnemonic(
     throw new Error("Invalid password");
   }
 }
+
+/**
+ * Encrypts a mnemonic phrase with a password
+ */
+export function encryptMnemonic(
+  mnemonic: string,
+  password: string
+): Promise<string> {
+  return encryptWithPassword(mnemonic, password);
+}
+
+/**
+ * Decrypts an encrypted mnemonic with a password
+ */
+export function decryptMnemonic(
+  encryptedMnemonic: string,
+  password: string
+): Promise<string> {
+  return decryptWithPassword(encryptedMnemonic, password);
+}
+
+/**
+ * Encrypts text with an AES-GCM key, output is base64 of iv and ciphertext.
+ */
+export async function encryptWithKey(
+  plaintext: string,
+  key: CryptoKey
+): Promise<string> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  const result = new Uint8Array(iv.length + ciphertext.byteLength);
+  result.set(iv, 0);
+  result.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64(result);
+}
+
+/**
+ * Decrypts the output of encryptWithKey
+ */
+export async function decryptWithKey(
+  encrypted: string,
+  key: CryptoKey
+): Promise<string> {
+  const encryptedData = Uint8Array.from(atob(encrypted), (c) =>
+    c.charCodeAt(0)
+  );
+  const decrypted = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: encryptedData.slice(0, 12) },
+    key,
+    encryptedData.slice(12)
+  );
+  return new TextDecoder().decode(decrypted);
+}
@@ -0,0 +1,256 @@
+import type { SparkWallet } from "@buildonspark/spark-sdk";
+import {
+  countConfirmations,
+  getAddressDeposits,
+  getTipHeight,
+  type OnchainDeposit,
+} from "@/lib/esplora";
+import type { HistoryScope } from "@/lib/history-db";
+import { fromClaimedDeposit, recordTransactions } from "@/lib/history-sync";
+import {
+  getDepositAddresses,
+  getDeposits,
+  useDepositAddressesStore,
+} from "@/lib/use-deposit-addresses-store";
+import type { Deposit, DepositAddress } from "@/types/deposits";
+
+// The operators only accept deposits this deep in the chain
+export const REQUIRED_DEPOSIT_CONFIRMATIONS = 3;
+
+const MAX_CLAIM_ATTEMPTS = 5;
+const CLAIM_RETRY_BASE_MS = 60 * 1000;
+const CLAIM_RETRY_MAX_MS = 60 * 60 * 1000;
+// Paying a used single-use address again is rare, look for it hourly.
+// The static address is made for reuse and always watched.
+const CLAIMED_ADDRESS_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// 1, 2, 4, 8... minutes, at most an hour
+function claimRetryDelay(attempts: number) {
+  return Math.min(
+    CLAIM_RETRY_BASE_MS * 2 ** (attempts - 1),
+    CLAIM_RETRY_MAX_MS
+  );
+}
+
+function isDue(entry: DepositAddress, now: number) {
+  if (entry.retiredAt) return false;
+  if (entry.isStatic || entry.status !== "claimed" || !entry.checkedAt) {
+    return true;
+  }
+  return (
+    now - new Date(entry.checkedAt).getTime() >=
+    CLAIMED_ADDRESS_CHECK_INTERVAL_MS
+  );
+}
+
+export function toDepositId({
+  txid,
+  outputIndex,
+}: Pick<OnchainDeposit, "txid" | "outputIndex">) {
+  return `${txid}:${outputIndex}`;
+}
+
+// Keeps the claim state of deposits seen before
+function toDeposit(
+  scope: HistoryScope,
+  address: string,
+  onchain: OnchainDeposit,
+  confirmations: number,
+  existing?: Deposit
+): Deposit {
+  const base: Deposit = existing ?? {
+    id: toDepositId(onchain),
+    txid: onchain.txid,
+    outputIndex: onchain.outputIndex,
+    address,
+    identityPublicKey: scope.identityPublicKey,
+    amountSats: onchain.amountSats,
+    confirmations,
+    status: "awaiting_confirmation",
+    claimAttempts: 0,
+    firstSeenAt: new Date().toISOString(),
+  };
+  const isDeepEnough = confirmations >= REQUIRED_DEPOSIT_CONFIRMATIONS;
+  return {
+    ...base,
+    amountSats: onchain.amountSats,
+    confirmations,
+    status:
+      base.status === "awaiting_confirmation" && isDeepEnough
+        ? "claimable"
+        : base.status,
+  };
+}
+
+// The SSP credits static deposits minus its fee with a transfer, which the
+// history sync picks up. Single-use deposits become leaves directly.
+async function claimStaticDeposit(wallet: SparkWallet, deposit: Deposit) {
+  const quote = await wallet.getClaimStaticDepositQuote(
+    deposit.txid,
+    deposit.outputIndex
+  );
+  await wallet.claimStaticDeposit({
+    transactionId: quote.transactionId,
+    creditAmountSats: quote.creditAmountSats,
+    sspSignature: quote.signature,
+    outputIndex: quote.outputIndex,
+  });
+}
+
+/**
+ * Claims one deposit into Spark. A failure schedules the next automatic
+ * attempt, or marks the deposit failed once the retries run out, and is
+ * then rethrown.
+ */
+async function claimDeposit(
+  wallet: SparkWallet,
+  scope: HistoryScope,
+  deposit: Deposit
+) {
+  const { putDeposit } = useDepositAddressesStore.getState();
+  try {
+    console.log(
+      `Attempting to claim deposit ${deposit.id} for address ${deposit.address}`
+    );
+    const isStatic = getDepositAddresses(scope).some(
+      (entry) => entry.address === deposit.address && entry.isStatic
+    );
+    if (isStatic) {
+      await claimStaticDeposit(wallet, deposit);
+    } else {
+      // The SDK claims the transaction's first output to an unused address,
+      // claiming each deposit in turn gets them all
+      const leaves = await wallet.claimDeposit(deposit.txid);
+      await recordTransactions(scope, [fromClaimedDeposit(deposit, leaves)]);
+    }
+    putDeposit({
+      ...deposit,
+      status: "claimed",
+      claimedAt: new Date().toISOString(),
+      nextClaimAt: undefined,
+      claimError: undefined,
+    });
+    console.log(`Successfully claimed deposit ${deposit.id}`);
+  } catch (error) {
+    const claimAttempts = deposit.claimAttempts + 1;
+    const isOutOfRetries = claimAttempts >= MAX_CLAIM_ATTEMPTS;
+    putDeposit({
+      ...deposit,
+      status: isOutOfRetries ? "failed" : "claimable",
+      claimAttempts,
+      nextClaimAt: isOutOfRetries
+        ? undefined
+        : new Date(Date.now() + claimRetryDelay(claimAttempts)).toISOString(),
+      claimError: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+// Addresses count as claimed once every deposit to them is
+function updateAddressStatus(scope: HistoryScope, address: string) {
+  const deposits = getDeposits(scope).filter(
+    (deposit) => deposit.address === address
+  );
+  if (deposits.length === 0) return;
+  useDepositAddressesStore.getState().updateAddress(address, {
+    status: deposits.every((deposit) => deposit.status === "claimed")
+      ? "claimed"
+      : "awaiting_confirmation",
+    amountSats: deposits.reduce((sum, deposit) => sum + deposit.amountSats, 0),
+  });
+}
+
+/**
+ * Checks the wallet's deposit addresses on-chain, tracks every payment to
+ * them and claims the ones with enough confirmations. Retired addresses
+ * aren't watched. Resolves to whether anything was claimed.
+ */
+export async function syncDepositAddresses(
+  wallet: SparkWallet,
+  scope: HistoryScope
+): Promise<boolean> {
+  const now = Date.now();
+  const watched = getDepositAddresses(scope).filter((entry) =>
+    isDue(entry, now)
+  );
+  if (watched.length > 0) {
+    const tipHeight = await getTipHeight(scope.network);
+    const known = new Map(
+      getDeposits(scope).map((deposit) => [deposit.id, deposit])
+    );
+    const { putDeposit, updateAddress } = useDepositAddressesStore.getState();
+    await Promise.all(
+      watched.map(async (entry) => {
+        try {
+          const onchain = await getAddressDeposits(
+            entry.address,
+            scope.network
+          );
+          onchain.forEach((deposit) =>
+            putDeposit(
+              toDeposit(
+                scope,
+                entry.address,
+                deposit,
+                countConfirmations(deposit, tipHeight),
+                known.get(toDepositId(deposit))
+              )
+            )
+          );
+          updateAddress(entry.address, {
+            checkedAt: new Date().toISOString(),
+            txid: onchain[0]?.txid,
+          });
+          updateAddressStatus(scope, entry.address);
+        } catch (error) {
+          console.error(
+            `syncDepositAddresses: Failed to check ${entry.address}.`,
+            error
+          );
+        }
+      })
+    );
+  }
+
+  const claimable = getDeposits(scope).filter(
+    (deposit) =>
+      deposit.status === "claimable" &&
+      (!deposit.nextClaimAt || new Date(deposit.nextClaimAt).getTime() <= now)
+  );
+  let claimedSomething = false;
+  for (const deposit of claimable) {
+    try {
+      await claimDeposit(wallet, scope, deposit);
+      updateAddressStatus(scope, deposit.address);
+      claimedSomething = true;
+    } catch (error) {
+      console.error(
+        `syncDepositAddresses: Failed to claim ${deposit.id}.`,
+        error
+      );
+    }
+  }
+  return claimedSomething;
+}
+
+/**
+ * Manual retry for a deposit that ran out of automatic retries. Starts a
+ * fresh round of retries if it fails again.
+ */
+export async function retryDepositClaim(
+  wallet: SparkWallet,
+  scope: HistoryScope,
+  depositId: string
+) {
+  const deposit = getDeposits(scope).find((entry) => entry.id === depositId);
+  if (!deposit) {
+    throw new Error(`Deposit ${depositId} not found`);
+  }
+  await claimDeposit(wallet, scope, {
+    ...deposit,
+    status: "claimable",
+    claimAttempts: 0,
+  });
+  updateAddressStatus(scope, deposit.address);
+}
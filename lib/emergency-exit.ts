@@ -0,0 +1,104 @@
+import {
+  ConnectionManager,
+  constructUnilateralExitTxs,
+  getTxFromRawTxHex,
+  isEphemeralAnchorOutput,
+  WalletConfigService,
+  type SparkSigner,
+  type SparkWallet,
+} from "@buildonspark/spark-sdk";
+import { TreeNode } from "@buildonspark/spark-sdk/proto/spark";
+import { bytesToHex } from "@noble/hashes/utils";
+import { getTimelockBlocks } from "@/lib/leaves";
+import type { WalletNetwork } from "@/lib/network";
+import type { ExitTransaction, LeafExit } from "@/types/leaves";
+
+function toExitTransaction(
+  hex: string,
+  kind: ExitTransaction["kind"]
+): ExitTransaction {
+  const tx = getTxFromRawTxHex(hex);
+  const needsFeeBump = Array.from({ length: tx.outputsLength }, (_, idx) =>
+    tx.getOutput(idx)
+  ).some((output) => isEphemeralAnchorOutput(output.script, output.amount));
+  return {
+    txid: tx.id,
+    hex,
+    kind,
+    timelockBlocks: getTimelockBlocks(hex),
+    needsFeeBump,
+  };
+}
+
+/**
+ * Checks that every transaction is signed and spends the one before it, and
+ * that the chain ends in the leaf's current refund transaction. Resolves to
+ * what's wrong, or undefined.
+ */
+function verifyExitChain(leaf: TreeNode, transactions: string[]) {
+  if (transactions.length < 2) {
+    return "The exit chain is incomplete.";
+  }
+  for (let i = 0; i < transactions.length; i++) {
+    const tx = getTxFromRawTxHex(transactions[i]);
+    if (!tx.isFinal) {
+      return `Transaction ${i + 1} is not fully signed.`;
+    }
+    if (i === 0) continue;
+    const parentTxid = getTxFromRawTxHex(transactions[i - 1]).id;
+    const spendsParent = Array.from({ length: tx.inputsLength }, (_, idx) =>
+      tx.getInput(idx)
+    ).some((input) => input.txid && bytesToHex(input.txid) === parentTxid);
+    if (!spendsParent) {
+      return `Transaction ${i + 1} does not spend transaction ${i}.`;
+    }
+  }
+  if (transactions[transactions.length - 1] !== bytesToHex(leaf.refundTx)) {
+    return "The exit chain does not end in the leaf's refund transaction.";
+  }
+}
+
+/**
+ * Pre-signed exit transactions for every leaf the wallet owns, with the path
+ * from the deposit down through the tree. They pay no fee themselves: each
+ * one relays only as a package with a CPFP child spending its anchor output,
+ * which this wallet doesn't build.
+ */
+export async function getLeafExits(
+  wallet: SparkWallet,
+  signer: SparkSigner,
+  network: WalletNetwork
+): Promise<LeafExit[]> {
+  const leaves = await wallet.getLeaves();
+  if (leaves.length === 0) return [];
+
+  // The wallet has no public way to fetch a leaf's ancestors. Open our own
+  // client to the coordinator, authenticated with the wallet's signer.
+  const config = new WalletConfigService({ network }, signer);
+  const sparkClient = await new ConnectionManager(config).createSparkClient(
+    config.getCoordinatorAddress()
+  );
+  const chains = await constructUnilateralExitTxs(
+    leaves.map((leaf) => bytesToHex(TreeNode.encode(leaf).finish())),
+    sparkClient,
+    config.getNetworkProto()
+  );
+
+  return leaves.map((leaf) => {
+    const transactions =
+      chains.find((chain) => chain.leafId === leaf.id)?.transactions ?? [];
+    const verificationError = verifyExitChain(leaf, transactions);
+    return {
+      leafId: leaf.id,
+      treeId: leaf.treeId,
+      valueSats: leaf.value,
+      transactions: transactions.map((hex, idx) =>
+        toExitTransaction(
+          hex,
+          idx === transactions.length - 1 ? "refund" : "node"
+        )
+      ),
+      ...(verificationError && { verificationError }),
+    };
+  });
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { countConfirmations, getAddressDeposits } from "@/lib/esplora";
+
+const ADDRESS = "bc1pdeposit";
+
+function mockFetch(body: unknown) {
+  const fetchMock = vi.fn(async () => Response.json(body));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("getAddressDeposits", () => {
+  it("returns every output paying the address", async () => {
+    mockFetch([
+      {
+        txid: "aa",
+        vout: [
+          { scriptpubkey_address: ADDRESS, value: 1_000 },
+          { scriptpubkey_address: "bc1pchange", value: 5_000 },
+          { scriptpubkey_address: ADDRESS, value: 2_000 },
+        ],
+        status: { confirmed: true, block_height: 100 },
+      },
+      {
+        txid: "bb",
+        vout: [{ scriptpubkey_address: ADDRESS, value: 3_000 }],
+        status: { confirmed: false },
+      },
+    ]);
+    await expect(getAddressDeposits(ADDRESS, "MAINNET")).resolves.toEqual([
+      { txid: "aa", outputIndex: 0, amountSats: 1_000, blockHeight: 100 },
+      { txid: "aa", outputIndex: 2, amountSats: 2_000, blockHeight: 100 },
+      { txid: "bb", outputIndex: 0, amountSats: 3_000, blockHeight: undefined },
+    ]);
+  });
+
+  it("skips transactions that don't pay the address", async () => {
+    mockFetch([
+      {
+        txid: "cc",
+        vout: [{ scriptpubkey_address: "bc1pother", value: 1_000 }],
+        status: { confirmed: true, block_height: 100 },
+      },
+    ]);
+    await expect(getAddressDeposits(ADDRESS, "MAINNET")).resolves.toEqual([]);
+  });
+});
+
+describe("countConfirmations", () => {
+  it("counts the including block", () => {
+    const deposit = { txid: "aa", outputIndex: 0, amountSats: 1 };
+    expect(countConfirmations({ ...deposit, blockHeight: 100 }, 102)).toBe(3);
+    expect(countConfirmations(deposit, 102)).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+import type { WalletNetwork } from "@/lib/network";
+
+// The Esplora instances the Spark SDK checks deposits against
+const ESPLORA_URLS: Record<WalletNetwork, string> = {
+  MAINNET: "https://mempool.space/api",
+  REGTEST: "https://regtest-mempool.us-west-2.sparkinfra.net/api",
+};
+
+// "user:password" for the regtest instance, which needs Basic auth
+const REGTEST_CREDENTIALS = process.env.NEXT_PUBLIC_REGTEST_ESPLORA_CREDENTIALS;
+
+interface EsploraTransaction {
+  txid: string;
+  vout: { scriptpubkey_address?: string; value: number }[];
+  status: { confirmed: boolean; block_height?: number };
+}
+
+/**
+ * An on-chain output paying one of the wallet's deposit addresses.
+ */
+export interface OnchainDeposit {
+  txid: string;
+  outputIndex: number;
+  amountSats: number;
+  blockHeight?: number; // Absent while unconfirmed
+}
+
+async function esploraFetch<T>(path: string, network: WalletNetwork) {
+  const headers: HeadersInit =
+    network === "REGTEST" && REGTEST_CREDENTIALS
+      ? { Authorization: `Basic ${btoa(REGTEST_CREDENTIALS)}` }
+      : {};
+  const response = await fetch(`${ESPLORA_URLS[network]}${path}`, {
+    headers,
+  });
+  if (!response.ok) {
+    throw new Error(`Esplora request failed. status: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Outputs paying the address, newest transaction first. Esplora returns the mempool and
+ * the latest 25 confirmed transactions, plenty for a single-use address.
+ * Older payments to the static address were tracked when they were new.
+ */
+export async function getAddressDeposits(
+  address: string,
+  network: WalletNetwork
+): Promise<OnchainDeposit[]> {
+  const transactions = await esploraFetch<EsploraTransaction[]>(
+    `/address/${encodeURIComponent(address)}/txs`,
+    network
+  );
+  return transactions.flatMap((tx) =>
+    tx.vout.flatMap((output, outputIndex) =>
+      output.scriptpubkey_address === address && output.value > 0
+        ? [
+            {
+              txid: tx.txid,
+              outputIndex,
+              amountSats: output.value,
+              blockHeight: tx.status.confirmed
+                ? tx.status.block_height
+                : undefined,
+            },
+          ]
+        : []
+    )
+  );
+}
+
+/**
+ * Height of the latest block, for counting confirmations.
+ */
+export function getTipHeight(network: WalletNetwork) {
+  return esploraFetch<number>("/blocks/tip/height", network);
+}
+
+export function countConfirmations(deposit: OnchainDeposit, tipHeight: number) {
+  return deposit.blockHeight === undefined
+    ? 0
+    : Math.max(tipHeight - deposit.blockHeight + 1, 0);
+}
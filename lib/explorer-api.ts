@@ -0,0 +1,189 @@
+import type {
+  AddressSummaryResponse,
+  AddressTokensResponse,
+  AddressTransactionsResponse,
+  ExplorerNetwork,
+  HTTPValidationError,
+  NetworkStats,
+  PeriodTpvStats,
+  TokenDetailsResponse,
+  TokenHoldersResponse,
+  TokenLeaderboardResponse,
+  TokenTransactionsResponse,
+  TpvPeriod,
+  TxV1Response,
+  ValidationError,
+  WalletLeaderboard,
+} from "@/types/explorer";
+
+export const DEFAULT_EXPLORER_BASE_URL =
+  process.env.NEXT_PUBLIC_EXPLORER_API_URL ??
+  "https://api.equaleyes.flashnet.xyz";
+export const DEFAULT_EXPLORER_NETWORK: ExplorerNetwork = "MAINNET";
+
+/**
+ * Error thrown for any non-2xx explorer response.
+ * `detail` holds the parsed HTTPValidationError entries when the API sent them.
+ */
+export class ExplorerApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly detail: ValidationError[] = []
+  ) {
+    super(message);
+    this.name = "ExplorerApiError";
+  }
+
+  get isNotFound() {
+    return this.status === 404;
+  }
+}
+
+export interface ExplorerClientOptions {
+  baseUrl?: string;
+  network?: ExplorerNetwork;
+  fetch?: typeof fetch;
+}
+
+type RequestOptions = {
+  network?: ExplorerNetwork;
+};
+
+type PaginationOptions = RequestOptions & {
+  limit?: number;
+  offset?: number;
+};
+
+type QueryParams = Record<string, string | number | undefined>;
+
+function formatValidationErrors(detail: ValidationError[]): string {
+  return detail
+    .map((error) => `${error.loc.join(".")}: ${error.msg}`)
+    .join("; ");
+}
+
+async function toExplorerApiError(
+  response: Response
+): Promise<ExplorerApiError> {
+  let detail: ValidationError[] = [];
+  let message = response.statusText || `HTTP ${response.status}`;
+  try {
+    const body = (await response.json()) as
+      | HTTPValidationError
+      | { detail?: string };
+    if (Array.isArray(body?.detail)) {
+      detail = body.detail;
+      message = formatValidationErrors(detail) || message;
+    } else if (typeof body?.detail === "string") {
+      message = body.detail;
+    }
+  } catch {
+    // Body wasn't JSON, keep the status text
+  }
+  return new ExplorerApiError(message, response.status, detail);
+}
+
+/**
+ * Creates a typed client for every path in openapi.json.
+ * Point `baseUrl` (or NEXT_PUBLIC_EXPLORER_API_URL) at a mock server for tests.
+ */
+export function createExplorerClient(options: ExplorerClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? DEFAULT_EXPLORER_BASE_URL).replace(
+    /\/+$/,
+    ""
+  );
+  const defaultNetwork = options.network ?? DEFAULT_EXPLORER_NETWORK;
+  const fetchFn: typeof fetch =
+    options.fetch ?? ((...args) => globalThis.fetch(...args));
+
+  async function request<T>(
+    path: string,
+    { network, ...params }: QueryParams & RequestOptions = {}
+  ): Promise<T> {
+    const searchParams = new URLSearchParams({
+      network: network ?? defaultNetwork,
+    });
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) searchParams.set(key, String(value));
+    });
+
+    const response = await fetchFn(`${baseUrl}${path}?${searchParams}`);
+    if (!response.ok) {
+      throw await toExplorerApiError(response);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  const segment = encodeURIComponent;
+
+  return {
+    baseUrl,
+    network: defaultNetwork,
+
+    // Address
+    getAddressSummary: (address: string, opts: RequestOptions = {}) =>
+      request<AddressSummaryResponse>(`/v1/address/${segment(address)}`, opts),
+    getAddressTransactions: (address: string, opts: PaginationOptions = {}) =>
+      request<AddressTransactionsResponse>(
+        `/v1/address/${segment(address)}/transactions`,
+        opts
+      ),
+    getAddressTokens: (address: string, opts: RequestOptions = {}) =>
+      request<AddressTokensResponse>(
+        `/v1/address/${segment(address)}/tokens`,
+        opts
+      ),
+
+    // Transactions
+    getLatestTransactions: (opts: RequestOptions & { limit?: number } = {}) =>
+      request<TxV1Response[]>(`/v1/tx/latest`, opts),
+    getTransaction: (txid: string, opts: RequestOptions = {}) =>
+      request<TxV1Response>(`/v1/tx/${segment(txid)}`, opts),
+
+    // Tokens
+    getTokenDetails: (pubkey: string, opts: RequestOptions = {}) =>
+      request<TokenDetailsResponse>(`/v1/tokens/${segment(pubkey)}`, opts),
+    getTokenTransactions: (pubkey: string, opts: PaginationOptions = {}) =>
+      request<TokenTransactionsResponse>(
+        `/v1/tokens/${segment(pubkey)}/transactions`,
+        opts
+      ),
+    getTokenHolders: (pubkey: string, opts: PaginationOptions = {}) =>
+      request<TokenHoldersResponse>(
+        `/v1/tokens/${segment(pubkey)}/holders`,
+        opts
+      ),
+
+    // Stats & leaderboards
+    getNetworkStats: (opts: RequestOptions = {}) =>
+      request<NetworkStats>(`/v1/stats/summary`, opts),
+    getTpvStats: (opts: RequestOptions & { period?: TpvPeriod } = {}) =>
+      request<PeriodTpvStats>(`/v1/stats/tpv`, opts),
+    getWalletLeaderboard: (opts: RequestOptions & { limit?: number } = {}) =>
+      request<WalletLeaderboard>(`/v1/stats/leaderboard/wallets`, opts),
+    getTokenLeaderboard: (opts: RequestOptions & { limit?: number } = {}) =>
+      request<TokenLeaderboardResponse>(`/v1/stats/leaderboard/tokens`, opts),
+  };
+}
+
+export type ExplorerClient = ReturnType<typeof createExplorerClient>;
+
+let explorerClient: ExplorerClient = createExplorerClient();
+
+/**
+ * Returns the shared explorer client used by every screen.
+ */
+export function getExplorerClient(): ExplorerClient {
+  return explorerClient;
+}
+
+/**
+ * Replaces the shared client, e.g. to point the app at a mock server.
+ */
+export function configureExplorerClient(
+  options: ExplorerClientOptions
+): ExplorerClient {
+  explorerClient = createExplorerClient(options);
+  return explorerClient;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_LIGHTNING_FEE_POLICY,
+  getLightningFeeCap,
+} from "@/lib/fee-policy";
+
+describe("getLightningFeeCap", () => {
+  it("caps large payments at the sats limit", () => {
+    expect(getLightningFeeCap(1_000_000, DEFAULT_LIGHTNING_FEE_POLICY)).toBe(
+      500
+    );
+  });
+
+  it("caps mid-sized payments at the percentage, rounded up", () => {
+    expect(getLightningFeeCap(10_001, DEFAULT_LIGHTNING_FEE_POLICY)).toBe(301);
+  });
+
+  it("allows micro-payments the minimum fee", () => {
+    expect(getLightningFeeCap(100, DEFAULT_LIGHTNING_FEE_POLICY)).toBe(10);
+    expect(getLightningFeeCap(1, DEFAULT_LIGHTNING_FEE_POLICY)).toBe(10);
+  });
+
+  it("lets a lower sats limit win over the minimum", () => {
+    expect(
+      getLightningFeeCap(100, {
+        maxFeeSats: 2,
+        maxFeePercent: 3,
+        minFeeSats: 10,
+      })
+    ).toBe(2);
+  });
+
+  it("applies a minimum the user set with only a percentage", () => {
+    expect(
+      getLightningFeeCap(50, {
+        maxFeeSats: null,
+        maxFeePercent: 1,
+        minFeeSats: 5,
+      })
+    ).toBe(5);
+  });
+
+  it("keeps a percentage without a minimum as chosen", () => {
+    expect(
+      getLightningFeeCap(50, {
+        maxFeeSats: null,
+        maxFeePercent: 1,
+        minFeeSats: null,
+      })
+    ).toBe(1);
+    // Policies saved before the minimum existed
+    expect(getLightningFeeCap(50, { maxFeeSats: null, maxFeePercent: 1 })).toBe(
+      1
+    );
+  });
+
+  it("returns null without limits", () => {
+    expect(
+      getLightningFeeCap(100, { maxFeeSats: null, maxFeePercent: null })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Limits on what a Lightning payment may cost in routing fees.
+ * Either cap can be turned off with null, the lower one wins when both are set.
+ */
+export interface LightningFeePolicy {
+  maxFeeSats: number | null;
+  maxFeePercent: number | null; // Percent of the payment amount, e.g. 1 = 1%
+  // Floor under the percentage cap, so small payments can still be routed.
+  // Optional because policies saved before it existed have no floor.
+  minFeeSats?: number | null;
+}
+
+// Routing a payment costs a few sats whatever its size, so by default the
+// percentage cap never drops below 10 sats. Otherwise a 100 sat payment
+// would be capped at 3 sats and rarely find a route.
+export const DEFAULT_LIGHTNING_FEE_POLICY: LightningFeePolicy = {
+  maxFeeSats: 500,
+  maxFeePercent: 3,
+  minFeeSats: 10,
+};
+
+/**
+ * Thrown when a payment's fee estimate is above the allowed maximum.
+ */
+export class FeeCapExceededError extends Error {
+  constructor(
+    public readonly estimateSats: number,
+    public readonly capSats: number
+  ) {
+    super(
+      `The estimated fee of ${estimateSats.toLocaleString()} sats is above your limit of ${capSats.toLocaleString()} sats.`
+    );
+    this.name = "FeeCapExceededError";
+  }
+}
+
+/**
+ * Maximum fee allowed for a payment of `amountSats`, or null when the
+ * policy sets no limit. The percentage cap rounds up to whole sats and is
+ * at least the policy's minFeeSats, when it has one.
+ */
+export function getLightningFeeCap(
+  amountSats: number,
+  policy: LightningFeePolicy
+): number | null {
+  const caps: number[] = [];
+  if (policy.maxFeeSats !== null) {
+    caps.push(policy.maxFeeSats);
+  }
+  if (policy.maxFeePercent !== null) {
+    caps.push(
+      Math.max(
+        Math.ceil((amountSats * policy.maxFeePercent) / 100),
+        policy.minFeeSats ?? 0
+      )
+    );
+  }
+  return caps.length > 0 ? Math.min(...caps) : null;
+}
@@ -0,0 +1,295 @@
+import { deleteDB, openDB, type DBSchema, type IDBPDatabase } from "idb";
+import { networkStorageKey, type WalletNetwork } from "@/lib/network";
+import {
+  matchesHistoryFilters,
+  type HistoryFilters,
+} from "@/lib/history-filters";
+import type {
+  HistoryPage,
+  HistoryTransaction,
+  TransactionAnnotation,
+} from "@/types/history";
+
+/**
+ * Which wallet's history to read or write. Each wallet and network gets
+ * its own database so switching either never mixes transactions.
+ */
+export interface HistoryScope {
+  network: WalletNetwork;
+  identityPublicKey: string;
+}
+
+interface HistoryDbSchema extends DBSchema {
+  transactions: {
+    key: string;
+    value: HistoryTransaction;
+    indexes: {
+      "by-timestamp": string;
+      "by-transfer": string;
+      "by-request": string;
+    };
+  };
+}
+
+const DB_PREFIX = "wallet-history";
+const DB_VERSION = 2;
+
+const connections = new Map<string, Promise<IDBPDatabase<HistoryDbSchema>>>();
+
+function historyDbName({ network, identityPublicKey }: HistoryScope) {
+  return networkStorageKey(`${DB_PREFIX}:${identityPublicKey}`, network);
+}
+
+function openHistoryDb(scope: HistoryScope) {
+  const name = historyDbName(scope);
+  let connection = connections.get(name);
+  if (!connection) {
+    connection = openDB<HistoryDbSchema>(name, DB_VERSION, {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
+        if (oldVersion < 1) {
+          const store = db.createObjectStore("transactions", {
+            keyPath: "id",
+          });
+          store.createIndex("by-timestamp", "timestamp");
+          store.createIndex("by-transfer", "transferId");
+          store.createIndex("by-request", "requestId");
+        }
+        // Version 1 stored SSP timestamps as they came
+        if (oldVersion === 1) {
+          const store = transaction.objectStore("transactions");
+          for (
+            let cursor = await store.openCursor();
+            cursor;
+            cursor = await cursor.continue()
+          ) {
+            await cursor.update({
+              ...cursor.value,
+              timestamp: toIsoTimestamp(cursor.value.timestamp),
+            });
+          }
+        }
+      },
+      terminated() {
+        connections.delete(name);
+      },
+    });
+    connections.set(name, connection);
+  }
+  return connection;
+}
+
+/**
+ * The by-timestamp index and the page cursor compare timestamps as strings,
+ * which only sorts right when they all share toISOString()'s format.
+ */
+export function toIsoTimestamp(value: string | Date) {
+  return new Date(value).toISOString();
+}
+
+// Later syncs only fill in what they know, never erase stored details
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Unpaid invoices are kept so they can be polled, but aren't transactions.
+ */
+export function isUnpaidInvoice(tx: HistoryTransaction) {
+  return (
+    tx.type === "lightning_payment" &&
+    tx.direction === "incoming" &&
+    tx.requestStatus === "INVOICE_CREATED"
+  );
+}
+
+/**
+ * Inserts transactions, merging each into any stored record with the same id.
+ */
+export async function putTransactions(
+  scope: HistoryScope,
+  transactions: HistoryTransaction[]
+) {
+  if (transactions.length === 0) return;
+  const db = await openHistoryDb(scope);
+  const tx = db.transaction("transactions", "readwrite");
+  await Promise.all([
+    ...transactions.map(async (transaction) => {
+      const existing = await tx.store.get(transaction.id);
+      await tx.store.put({
+        ...existing,
+        ...withoutUndefined(transaction),
+        timestamp: toIsoTimestamp(transaction.timestamp),
+      } as HistoryTransaction);
+    }),
+    tx.done,
+  ]);
+}
+
+/**
+ * Replaces the user's label, category and note. Unlike putTransactions,
+ * empty or missing fields are cleared.
+ */
+export async function annotateTransaction(
+  scope: HistoryScope,
+  id: string,
+  { label, category, note }: TransactionAnnotation
+) {
+  const db = await openHistoryDb(scope);
+  const tx = db.transaction("transactions", "readwrite");
+  const existing = await tx.store.get(id);
+  if (!existing) {
+    throw new Error(`Transaction ${id} not found`);
+  }
+  const updated: HistoryTransaction = { ...existing };
+  delete updated.label;
+  delete updated.category;
+  delete updated.note;
+  await Promise.all([
+    tx.store.put({
+      ...updated,
+      ...withoutUndefined({
+        label: label?.trim() || undefined,
+        category,
+        note: note?.trim() || undefined,
+      }),
+    }),
+    tx.done,
+  ]);
+}
+
+export async function deleteTransactions(scope: HistoryScope, ids: string[]) {
+  if (ids.length === 0) return;
+  const db = await openHistoryDb(scope);
+  const tx = db.transaction("transactions", "readwrite");
+  await Promise.all([...ids.map((id) => tx.store.delete(id)), tx.done]);
+}
+
+/**
+ * Looks a transaction up by its id, Spark transfer id or SSP request id.
+ */
+export async function getTransaction(
+  scope: HistoryScope,
+  id: string
+): Promise<HistoryTransaction | undefined> {
+  const db = await openHistoryDb(scope);
+  return (
+    (await db.get("transactions", id)) ??
+    (await db.getFromIndex("transactions", "by-transfer", id)) ??
+    (await db.getFromIndex("transactions", "by-request", id))
+  );
+}
+
+/**
+ * Every stored record, newest first, including unpaid invoices.
+ */
+export async function getAllTransactions(scope: HistoryScope) {
+  const db = await openHistoryDb(scope);
+  const transactions = await db.getAllFromIndex("transactions", "by-timestamp");
+  return transactions.reverse();
+}
+
+/**
+ * Invoices still waiting to be paid, newest first.
+ */
+export async function listPendingInvoices(scope: HistoryScope) {
+  const now = new Date();
+  return (await getAllTransactions(scope)).filter(
+    (tx) =>
+      isUnpaidInvoice(tx) &&
+      tx.status === "pending" &&
+      (!tx.expiresAt || new Date(tx.expiresAt) > now)
+  );
+}
+
+function toCursor(tx: HistoryTransaction) {
+  return `${tx.timestamp}|${tx.id}`;
+}
+
+function parseCursor(cursor: string) {
+  const separator = cursor.indexOf("|");
+  return {
+    timestamp: cursor.slice(0, separator),
+    id: cursor.slice(separator + 1),
+  };
+}
+
+function isListedTransaction(tx: HistoryTransaction, filters: HistoryFilters) {
+  return !isUnpaidInvoice(tx) && matchesHistoryFilters(tx, filters);
+}
+
+/**
+ * One page of matching transactions. The cursor marks the last row already
+ * shown, so transactions synced in while scrolling don't shift later pages.
+ */
+export async function listTransactions(
+  scope: HistoryScope,
+  {
+    cursor,
+    limit,
+    filters = {},
+  }: { cursor?: string; limit: number; filters?: HistoryFilters }
+): Promise<HistoryPage> {
+  const db = await openHistoryDb(scope);
+  const index = db.transaction("transactions").store.index("by-timestamp");
+  const after = cursor ? parseCursor(cursor) : undefined;
+  // Walking backwards, rows sharing a timestamp come in descending id order
+  let row = await index.openCursor(
+    after ? IDBKeyRange.upperBound(after.timestamp) : null,
+    "prev"
+  );
+  const data: HistoryTransaction[] = [];
+  while (row) {
+    const tx = row.value;
+    const isShown =
+      after && tx.timestamp === after.timestamp && tx.id >= after.id;
+    if (!isShown && isListedTransaction(tx, filters)) {
+      if (data.length === limit) {
+        return { data, nextCursor: toCursor(data[data.length - 1]) };
+      }
+      data.push(tx);
+    }
+    row = await row.continue();
+  }
+  return { data };
+}
+
+/**
+ * How many transactions match the filters across all pages.
+ */
+export async function countTransactions(
+  scope: HistoryScope,
+  filters: HistoryFilters = {}
+) {
+  const db = await openHistoryDb(scope);
+  let count = 0;
+  let row = await db.transaction("transactions").store.openCursor();
+  while (row) {
+    if (isListedTransaction(row.value, filters)) count++;
+    row = await row.continue();
+  }
+  return count;
+}
+
+/**
+ * Deletes the history of every wallet on this device, e.g. on wallet reset.
+ * Browsers without indexedDB.databases() only lose the connections we opened.
+ */
+export async function clearAllHistory() {
+  const names = new Set(connections.keys());
+  if (typeof indexedDB.databases === "function") {
+    (await indexedDB.databases()).forEach(({ name }) => {
+      if (name?.startsWith(`${DB_PREFIX}:`)) names.add(name);
+    });
+  }
+  await Promise.all(
+    Array.from(names).map(async (name) => {
+      const connection = connections.get(name);
+      connections.delete(name);
+      const db = await connection?.catch(() => undefined);
+      db?.close();
+      await deleteDB(name);
+    })
+  );
+}
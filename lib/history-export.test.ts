@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { exportHistory } from "@/lib/history-export";
+import type { HistoryTransaction } from "@/types/history";
+
+const DEPOSIT_TIME = "2025-03-10T12:00:00.000Z";
+const WITHDRAWAL_TIME = "2025-03-10T15:30:00.000Z";
+// Wide enough that both transactions are inside in any timezone
+const RANGE = { from: "2025-03-09", to: "2025-03-11" };
+
+const DEPOSIT: HistoryTransaction = {
+  id: "deposit-1",
+  type: "bitcoin_deposit",
+  direction: "incoming",
+  status: "confirmed",
+  amountSats: 100_000,
+  timestamp: DEPOSIT_TIME,
+  txid: "aa".repeat(32),
+  label: 'Salary, "March"',
+  category: "income",
+};
+
+const WITHDRAWAL: HistoryTransaction = {
+  id: "withdrawal-1",
+  type: "bitcoin_withdrawal",
+  direction: "outgoing",
+  status: "confirmed",
+  amountSats: 50_000,
+  feeSats: 1_000,
+  timestamp: WITHDRAWAL_TIME,
+  txid: "bb".repeat(32),
+};
+
+const PENDING_SEND: HistoryTransaction = {
+  id: "send-1",
+  type: "spark_transfer",
+  direction: "outgoing",
+  status: "pending",
+  amountSats: 2_000,
+  timestamp: WITHDRAWAL_TIME,
+};
+
+const UNPAID_INVOICE: HistoryTransaction = {
+  id: "invoice-1",
+  type: "lightning_payment",
+  direction: "incoming",
+  status: "pending",
+  amountSats: 5_000,
+  timestamp: DEPOSIT_TIME,
+  requestStatus: "INVOICE_CREATED",
+};
+
+const OUT_OF_RANGE: HistoryTransaction = {
+  ...DEPOSIT,
+  id: "deposit-0",
+  timestamp: "2025-01-01T12:00:00.000Z",
+};
+
+function mockPrices(usd: number) {
+  const fetchMock = vi.fn(async () =>
+    Response.json({
+      prices: [
+        [new Date(DEPOSIT_TIME).getTime(), usd],
+        [new Date(WITHDRAWAL_TIME).getTime(), usd],
+      ],
+    })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("exportHistory", () => {
+  it("exports the range oldest first, without unpaid invoices", async () => {
+    mockPrices(80_000);
+    const result = await exportHistory(
+      [WITHDRAWAL, UNPAID_INVOICE, OUT_OF_RANGE, DEPOSIT],
+      { format: "json", ...RANGE }
+    );
+    const rows = JSON.parse(result.content);
+    expect(rows.map((row: { id: string }) => row.id)).toEqual([
+      "deposit-1",
+      "withdrawal-1",
+    ]);
+    expect(result).toMatchObject({
+      filename: "spark-history-2025-03-09-to-2025-03-11.json",
+      rowCount: 2,
+      isMissingPrices: false,
+    });
+  });
+
+  it("takes withdrawal fees out of the amount and prices it in USD", async () => {
+    mockPrices(80_000);
+    const result = await exportHistory([WITHDRAWAL], {
+      format: "json",
+      ...RANGE,
+    });
+    expect(JSON.parse(result.content)[0]).toMatchObject({
+      amountSats: 49_000,
+      feeSats: 1_000,
+      fiatValueUsd: 39.2,
+    });
+  });
+
+  it("escapes CSV fields", async () => {
+    mockPrices(80_000);
+    const result = await exportHistory([DEPOSIT], { format: "csv", ...RANGE });
+    const [header, row] = result.content.split("\r\n");
+    expect(header.startsWith("timestamp,type,direction,status")).toBe(true);
+    expect(row).toContain(',"Salary, ""March""",income,');
+    expect(result.mimeType).toBe("text/csv");
+  });
+
+  it("writes only settled transactions to the tax tool CSV", async () => {
+    mockPrices(80_000);
+    const result = await exportHistory([DEPOSIT, WITHDRAWAL, PENDING_SEND], {
+      format: "koinly",
+      ...RANGE,
+    });
+    const lines = result.content.split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toBe(
+      `2025-03-10 12:00:00 UTC,,,0.00100000,BTC,,,80,USD,income,"Salary, ""March""",${DEPOSIT.txid}`
+    );
+    expect(lines[2]).toBe(
+      `2025-03-10 15:30:00 UTC,0.00049000,BTC,,,0.00001000,BTC,39.2,USD,,,${WITHDRAWAL.txid}`
+    );
+    expect(result.rowCount).toBe(2);
+  });
+
+  it("leaves the fiat value empty when prices can't be fetched", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(null, { status: 429 }))
+    );
+    const result = await exportHistory([DEPOSIT], {
+      format: "json",
+      ...RANGE,
+    });
+    expect(JSON.parse(result.content)[0].fiatValueUsd).toBeNull();
+    expect(result.isMissingPrices).toBe(true);
+  });
+
+  it("doesn't fetch prices for an empty range", async () => {
+    const fetchMock = mockPrices(80_000);
+    const result = await exportHistory([OUT_OF_RANGE], {
+      format: "csv",
+      ...RANGE,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.rowCount).toBe(0);
+  });
+});
@@ -0,0 +1,297 @@
+import { isUnpaidInvoice } from "@/lib/history-db";
+import { matchesHistoryFilters } from "@/lib/history-filters";
+import type { HistoryTransaction, TransactionCategory } from "@/types/history";
+
+export const HISTORY_EXPORT_FORMATS = ["csv", "json", "koinly"] as const;
+export type HistoryExportFormat = (typeof HISTORY_EXPORT_FORMATS)[number];
+
+export const HISTORY_EXPORT_FORMAT_LABELS: Record<HistoryExportFormat, string> =
+  {
+    csv: "CSV",
+    json: "JSON",
+    koinly: "Tax tool CSV",
+  };
+
+const SATS_PER_BTC = 100_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One exported transaction. Unlike the stored record, amountSats never
+ * includes the fee, so amount plus fee is always what left the wallet.
+ */
+export interface HistoryExportRow {
+  timestamp: string;
+  type: HistoryTransaction["type"];
+  direction: HistoryTransaction["direction"];
+  status: HistoryTransaction["status"];
+  amountSats: number;
+  feeSats: number;
+  fiatValueUsd: number | null; // Null when no price was available
+  counterparty: string;
+  memo: string;
+  label: string;
+  category: TransactionCategory | "";
+  note: string;
+  id: string;
+  transferId: string;
+  txid: string;
+  paymentHash: string;
+}
+
+export interface HistoryExport {
+  filename: string;
+  content: string;
+  mimeType: string;
+  rowCount: number;
+  isMissingPrices: boolean;
+}
+
+type PricePoint = [time: number, usd: number];
+
+/**
+ * BTC/USD prices covering the range. CoinGecko returns hourly points for
+ * ranges up to 90 days and daily points beyond that.
+ */
+async function fetchBtcUsdPrices(from: number, to: number) {
+  const params = new URLSearchParams({
+    vs_currency: "usd",
+    from: Math.floor((from - DAY_MS) / 1000).toString(),
+    to: Math.ceil((to + DAY_MS) / 1000).toString(),
+  });
+  const response = await fetch(
+    `https://api.coingecko.com/api/v3/coins/bitcoin/market_chart/range?${params}`
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch BTC prices. status: ${response.status}`);
+  }
+  const data = await response.json();
+  if (!Array.isArray(data?.prices)) throw new Error("Invalid response format");
+  return data.prices as PricePoint[];
+}
+
+// Prices are sorted by time, the nearest one sits around the insert position
+function priceAt(prices: PricePoint[], time: number) {
+  if (prices.length === 0) return null;
+  let low = 0;
+  let high = prices.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (prices[mid][0] < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  const before = prices[Math.max(low - 1, 0)];
+  const after = prices[low];
+  const nearest =
+    Math.abs(before[0] - time) <= Math.abs(after[0] - time) ? before : after;
+  // A price from days away is worse than none for tax purposes
+  return Math.abs(nearest[0] - time) <= DAY_MS ? nearest[1] : null;
+}
+
+function toExportRow(
+  tx: HistoryTransaction,
+  prices: PricePoint[]
+): HistoryExportRow {
+  const feeSats = tx.feeSats ?? 0;
+  // Withdrawal fees come out of the amount instead of on top of it
+  const amountSats =
+    tx.type === "bitcoin_withdrawal"
+      ? Math.max(tx.amountSats - feeSats, 0)
+      : tx.amountSats;
+  const price = priceAt(prices, new Date(tx.timestamp).getTime());
+  return {
+    timestamp: tx.timestamp,
+    type: tx.type,
+    direction: tx.direction,
+    status: tx.status,
+    amountSats,
+    feeSats,
+    fiatValueUsd:
+      price === null
+        ? null
+        : Math.round((amountSats / SATS_PER_BTC) * price * 100) / 100,
+    counterparty: tx.counterparty?.identifier ?? "",
+    memo: tx.description ?? "",
+    label: tx.label ?? "",
+    category: tx.category ?? "",
+    note: tx.note ?? "",
+    id: tx.id,
+    transferId: tx.transferId ?? "",
+    txid: tx.txid ?? "",
+    paymentHash: tx.paymentHash ?? "",
+  };
+}
+
+function escapeCsv(value: string | number | null) {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number | null)[][]) {
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsv).join(","))
+    .join("\r\n");
+}
+
+const CSV_COLUMNS: (keyof HistoryExportRow)[] = [
+  "timestamp",
+  "type",
+  "direction",
+  "status",
+  "amountSats",
+  "feeSats",
+  "fiatValueUsd",
+  "counterparty",
+  "memo",
+  "label",
+  "category",
+  "note",
+  "id",
+  "transferId",
+  "txid",
+  "paymentHash",
+];
+
+function formatBtc(sats: number) {
+  return sats ? (sats / SATS_PER_BTC).toFixed(8) : "";
+}
+
+// Koinly tags for the categories it treats differently from a plain
+// deposit or withdrawal
+const KOINLY_LABELS: Partial<Record<TransactionCategory, string>> = {
+  income: "income",
+  expense: "cost",
+  gift: "gift",
+  donation: "donation",
+};
+
+// "2025-01-31 14:05:00 UTC"
+function formatUtcDate(timestamp: string) {
+  return `${new Date(timestamp)
+    .toISOString()
+    .slice(0, 19)
+    .replace("T", " ")} UTC`;
+}
+
+/**
+ * Koinly's universal CSV, which CoinTracker and most other tax tools also
+ * import. Only settled transactions count as disposals or income.
+ */
+function toKoinlyCsv(rows: HistoryExportRow[]) {
+  return toCsv(
+    [
+      "Date",
+      "Sent Amount",
+      "Sent Currency",
+      "Received Amount",
+      "Received Currency",
+      "Fee Amount",
+      "Fee Currency",
+      "Net Worth Amount",
+      "Net Worth Currency",
+      "Label",
+      "Description",
+      "TxHash",
+    ],
+    rows
+      .filter((row) => row.status === "confirmed")
+      .map((row) => {
+        const isOutgoing = row.direction === "outgoing";
+        return [
+          formatUtcDate(row.timestamp),
+          isOutgoing ? formatBtc(row.amountSats) : "",
+          isOutgoing ? "BTC" : "",
+          isOutgoing ? "" : formatBtc(row.amountSats),
+          isOutgoing ? "" : "BTC",
+          formatBtc(row.feeSats),
+          row.feeSats ? "BTC" : "",
+          row.fiatValueUsd,
+          row.fiatValueUsd === null ? "" : "USD",
+          (row.category && KOINLY_LABELS[row.category]) || "",
+          [row.label, row.memo, row.note].filter(Boolean).join(" - "),
+          row.txid || row.transferId || row.id,
+        ];
+      })
+  );
+}
+
+/**
+ * Builds an export of the transactions between two yyyy-mm-dd days, both
+ * inclusive. Without price data the fiat column is left empty rather than
+ * failing the export.
+ */
+export async function exportHistory(
+  transactions: HistoryTransaction[],
+  {
+    format,
+    from,
+    to,
+  }: { format: HistoryExportFormat; from: string; to: string }
+): Promise<HistoryExport> {
+  // Oldest first, the order accounting tools expect
+  const selected = transactions
+    .filter(
+      (tx) => !isUnpaidInvoice(tx) && matchesHistoryFilters(tx, { from, to })
+    )
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  let prices: PricePoint[] = [];
+  if (selected.length > 0) {
+    try {
+      prices = await fetchBtcUsdPrices(
+        new Date(selected[0].timestamp).getTime(),
+        new Date(selected[selected.length - 1].timestamp).getTime()
+      );
+    } catch (error) {
+      console.error("exportHistory: Failed to fetch BTC prices.", error);
+    }
+  }
+  const rows = selected.map((tx) => toExportRow(tx, prices));
+  const isMissingPrices = rows.some((row) => row.fiatValueUsd === null);
+  const basename = `spark-history-${from}-to-${to}`;
+
+  switch (format) {
+    case "json":
+      return {
+        filename: `${basename}.json`,
+        content: JSON.stringify(rows, null, 2),
+        mimeType: "application/json",
+        rowCount: rows.length,
+        isMissingPrices,
+      };
+    case "koinly":
+      return {
+        filename: `${basename}-koinly.csv`,
+        content: toKoinlyCsv(rows),
+        mimeType: "text/csv",
+        rowCount: rows.filter((row) => row.status === "confirmed").length,
+        isMissingPrices,
+      };
+    default:
+      return {
+        filename: `${basename}.csv`,
+        content: toCsv(
+          CSV_COLUMNS,
+          rows.map((row) => CSV_COLUMNS.map((column) => row[column]))
+        ),
+        mimeType: "text/csv",
+        rowCount: rows.length,
+        isMissingPrices,
+      };
+  }
+}
+
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string
+) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
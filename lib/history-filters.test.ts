@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  countActiveFilters,
+  matchesHistoryFilters,
+  parseHistoryFilters,
+  toHistorySearchParams,
+} from "@/lib/history-filters";
+import type { HistoryTransaction } from "@/types/history";
+
+// Local noon, so the date filters hold in any timezone
+const TX: HistoryTransaction = {
+  id: "transfer-1",
+  type: "lightning_payment",
+  direction: "outgoing",
+  status: "confirmed",
+  amountSats: 2_100,
+  timestamp: new Date("2025-03-10T12:00:00").toISOString(),
+  counterparty: { type: "lightning", identifier: "alice@example.com" },
+  paymentHash: "ABCDEF0123",
+  category: "gift",
+  note: "Birthday",
+};
+
+describe("matchesHistoryFilters", () => {
+  it("matches everything without filters", () => {
+    expect(matchesHistoryFilters(TX, {})).toBe(true);
+  });
+
+  it("filters by type, direction and status", () => {
+    expect(
+      matchesHistoryFilters(TX, {
+        types: ["spark_transfer", "lightning_payment"],
+        direction: "outgoing",
+        status: "confirmed",
+      })
+    ).toBe(true);
+    expect(matchesHistoryFilters(TX, { types: ["spark_transfer"] })).toBe(
+      false
+    );
+    expect(matchesHistoryFilters(TX, { direction: "incoming" })).toBe(false);
+    expect(matchesHistoryFilters(TX, { status: "pending" })).toBe(false);
+  });
+
+  it("includes both ends of the date range", () => {
+    expect(
+      matchesHistoryFilters(TX, { from: "2025-03-10", to: "2025-03-10" })
+    ).toBe(true);
+    expect(matchesHistoryFilters(TX, { from: "2025-03-11" })).toBe(false);
+    expect(matchesHistoryFilters(TX, { to: "2025-03-09" })).toBe(false);
+  });
+
+  it("searches ids, notes, categories and counterparties, ignoring case", () => {
+    ["abcdef", "birthday", "Gift", "ALICE@"].forEach((search) =>
+      expect(matchesHistoryFilters(TX, { search })).toBe(true)
+    );
+    expect(matchesHistoryFilters(TX, { search: "bob" })).toBe(false);
+  });
+
+  it("ignores a blank search", () => {
+    expect(matchesHistoryFilters(TX, { search: "   " })).toBe(true);
+  });
+});
+
+describe("countActiveFilters", () => {
+  it("counts set filters, not blank ones", () => {
+    expect(countActiveFilters({})).toBe(0);
+    expect(
+      countActiveFilters({
+        types: [],
+        direction: "incoming",
+        from: "2025-01-01",
+        search: " ",
+      })
+    ).toBe(2);
+  });
+});
+
+describe("parseHistoryFilters", () => {
+  it("reads valid filters from the URL", () => {
+    expect(
+      parseHistoryFilters(
+        new URLSearchParams(
+          "type=spark_transfer,bitcoin_deposit&direction=incoming&status=pending&from=2025-01-01&to=2025-01-31&q=coffee"
+        )
+      )
+    ).toEqual({
+      types: ["spark_transfer", "bitcoin_deposit"],
+      direction: "incoming",
+      status: "pending",
+      from: "2025-01-01",
+      to: "2025-01-31",
+      search: "coffee",
+    });
+  });
+
+  it("ignores values that aren't valid", () => {
+    expect(
+      parseHistoryFilters(
+        new URLSearchParams(
+          "type=bogus,lightning_payment&direction=sideways&status=lost&from=01/01/2025"
+        )
+      )
+    ).toEqual({ types: ["lightning_payment"] });
+  });
+});
+
+describe("toHistorySearchParams", () => {
+  it("round-trips through parseHistoryFilters", () => {
+    const filters = {
+      types: ["lightning_payment" as const],
+      direction: "outgoing" as const,
+      from: "2025-03-01",
+      search: "coffee",
+    };
+    expect(parseHistoryFilters(toHistorySearchParams(filters))).toEqual(
+      filters
+    );
+  });
+
+  it("keeps unrelated params and drops cleared filters", () => {
+    const params = toHistorySearchParams(
+      { search: "  " },
+      new URLSearchParams("tab=all&status=pending&q=old")
+    );
+    expect(params.toString()).toBe("tab=all");
+  });
+});
@@ -0,0 +1,182 @@
+import type {
+  TransactionDirection,
+  TransactionStatus,
+  TransactionType,
+} from "@/types/explorer";
+import type { HistoryTransaction, TransactionCategory } from "@/types/history";
+
+export const TRANSACTION_TYPES: TransactionType[] = [
+  "spark_transfer",
+  "lightning_payment",
+  "bitcoin_deposit",
+  "bitcoin_withdrawal",
+];
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  spark_transfer: "Spark",
+  lightning_payment: "Lightning",
+  bitcoin_deposit: "Deposit",
+  bitcoin_withdrawal: "Withdrawal",
+};
+
+export const TRANSACTION_DIRECTIONS: TransactionDirection[] = [
+  "incoming",
+  "outgoing",
+];
+
+export const TRANSACTION_STATUSES: TransactionStatus[] = [
+  "confirmed",
+  "pending",
+  "failed",
+];
+
+export const TRANSACTION_CATEGORIES: TransactionCategory[] = [
+  "income",
+  "expense",
+  "transfer",
+  "gift",
+  "donation",
+  "refund",
+  "other",
+];
+
+export const TRANSACTION_CATEGORY_LABELS: Record<TransactionCategory, string> =
+  {
+    income: "Income",
+    expense: "Expense",
+    transfer: "Own transfer",
+    gift: "Gift",
+    donation: "Donation",
+    refund: "Refund",
+    other: "Other",
+  };
+
+/**
+ * Filters for the history list. Every field is optional, an empty object
+ * matches everything. Dates are inclusive yyyy-mm-dd days in local time.
+ */
+export interface HistoryFilters {
+  types?: TransactionType[];
+  direction?: TransactionDirection;
+  status?: TransactionStatus;
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function startOfDay(date: string) {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+function endOfDay(date: string) {
+  return new Date(`${date}T23:59:59.999`).getTime();
+}
+
+export function matchesHistoryFilters(
+  tx: HistoryTransaction,
+  filters: HistoryFilters
+) {
+  if (filters.types?.length && !filters.types.includes(tx.type)) {
+    return false;
+  }
+  if (filters.direction && tx.direction !== filters.direction) {
+    return false;
+  }
+  if (filters.status && tx.status !== filters.status) {
+    return false;
+  }
+  const time = new Date(tx.timestamp).getTime();
+  if (filters.from && time < startOfDay(filters.from)) {
+    return false;
+  }
+  if (filters.to && time > endOfDay(filters.to)) {
+    return false;
+  }
+  const search = filters.search?.trim().toLowerCase();
+  if (search) {
+    const haystack = [
+      tx.id,
+      tx.transferId,
+      tx.txid,
+      tx.paymentHash,
+      tx.description,
+      tx.label,
+      tx.note,
+      tx.category && TRANSACTION_CATEGORY_LABELS[tx.category],
+      tx.counterparty?.identifier,
+      tx.counterparty?.pubkey,
+    ];
+    return haystack.some((field) => field?.toLowerCase().includes(search));
+  }
+  return true;
+}
+
+export function countActiveFilters(filters: HistoryFilters) {
+  return [
+    filters.types?.length,
+    filters.direction,
+    filters.status,
+    filters.from,
+    filters.to,
+    filters.search?.trim(),
+  ].filter(Boolean).length;
+}
+
+/**
+ * Reads filters from the URL, ignoring values that aren't valid so a
+ * hand-edited or outdated bookmark still opens.
+ */
+export function parseHistoryFilters(
+  params: Pick<URLSearchParams, "get">
+): HistoryFilters {
+  const filters: HistoryFilters = {};
+  const types = (params.get("type") ?? "")
+    .split(",")
+    .filter((type): type is TransactionType =>
+      TRANSACTION_TYPES.includes(type as TransactionType)
+    );
+  if (types.length > 0) filters.types = types;
+  const direction = params.get("direction") as TransactionDirection | null;
+  if (direction && TRANSACTION_DIRECTIONS.includes(direction)) {
+    filters.direction = direction;
+  }
+  const status = params.get("status") as TransactionStatus | null;
+  if (status && TRANSACTION_STATUSES.includes(status)) {
+    filters.status = status;
+  }
+  const from = params.get("from");
+  if (from && DATE_REGEX.test(from)) filters.from = from;
+  const to = params.get("to");
+  if (to && DATE_REGEX.test(to)) filters.to = to;
+  const search = params.get("q");
+  if (search) filters.search = search;
+  return filters;
+}
+
+/**
+ * Writes filters onto existing search params, keeping unrelated ones.
+ */
+export function toHistorySearchParams(
+  filters: HistoryFilters,
+  current?: URLSearchParams
+) {
+  const params = new URLSearchParams(current);
+  const values: Record<string, string | undefined> = {
+    type: filters.types?.length ? filters.types.join(",") : undefined,
+    direction: filters.direction,
+    status: filters.status,
+    from: filters.from,
+    to: filters.to,
+    q: filters.search?.trim() || undefined,
+  };
+  Object.entries(values).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  });
+  return params;
+}
@@ -0,0 +1,396 @@
+import type { SparkWallet } from "@buildonspark/spark-sdk";
+import {
+  CurrencyUnit,
+  LightningReceiveRequestStatus,
+  LightningSendRequestStatus,
+  SparkCoopExitRequestStatus,
+  type CoopExitRequest,
+  type CurrencyAmount,
+  type LightningReceiveRequest,
+  type LightningSendRequest,
+  type WalletLeaf,
+  type WalletTransfer,
+} from "@buildonspark/spark-sdk/types";
+import {
+  deleteTransactions,
+  getAllTransactions,
+  getTransaction,
+  isUnpaidInvoice,
+  putTransactions,
+  toIsoTimestamp,
+  type HistoryScope,
+} from "@/lib/history-db";
+import { parseBolt11 } from "@/lib/payment-request";
+import type { TransactionStatus, TransactionType } from "@/types/explorer";
+import type { Deposit } from "@/types/deposits";
+import type { HistoryTransaction } from "@/types/history";
+
+const TRANSFER_PAGE_SIZE = 100;
+
+function toSats({ originalValue, originalUnit }: CurrencyAmount) {
+  switch (originalUnit) {
+    case CurrencyUnit.MILLISATOSHI:
+      return Math.ceil(originalValue / 1000);
+    case CurrencyUnit.BITCOIN:
+      return Math.round(originalValue * 100_000_000);
+    default:
+      return originalValue;
+  }
+}
+
+// SWAP and COUNTER_SWAP are the wallet reorganising its own leaves
+const TRANSFER_TYPES: Partial<Record<WalletTransfer["type"], TransactionType>> =
+  {
+    TRANSFER: "spark_transfer",
+    PREIMAGE_SWAP: "lightning_payment",
+    COOPERATIVE_EXIT: "bitcoin_withdrawal",
+    UTXO_SWAP: "bitcoin_deposit",
+  };
+
+function toTransferStatus(status: WalletTransfer["status"]): TransactionStatus {
+  switch (status) {
+    case "TRANSFER_STATUS_COMPLETED":
+      return "confirmed";
+    case "TRANSFER_STATUS_EXPIRED":
+    case "TRANSFER_STATUS_RETURNED":
+      return "failed";
+    default:
+      return "pending";
+  }
+}
+
+function toLightningSendStatus(
+  status: LightningSendRequestStatus
+): TransactionStatus {
+  switch (status) {
+    case LightningSendRequestStatus.LIGHTNING_PAYMENT_SUCCEEDED:
+    case LightningSendRequestStatus.PREIMAGE_PROVIDED:
+    case LightningSendRequestStatus.TRANSFER_COMPLETED:
+      return "confirmed";
+    case LightningSendRequestStatus.LIGHTNING_PAYMENT_FAILED:
+      return "failed";
+    default:
+      return "pending";
+  }
+}
+
+function toLightningReceiveStatus(
+  status: LightningReceiveRequestStatus
+): TransactionStatus {
+  switch (status) {
+    case LightningReceiveRequestStatus.TRANSFER_COMPLETED:
+      return "confirmed";
+    case LightningReceiveRequestStatus.TRANSFER_CREATION_FAILED:
+    case LightningReceiveRequestStatus.REFUND_SIGNING_COMMITMENTS_QUERYING_FAILED:
+    case LightningReceiveRequestStatus.REFUND_SIGNING_FAILED:
+    case LightningReceiveRequestStatus.PAYMENT_PREIMAGE_RECOVERING_FAILED:
+    case LightningReceiveRequestStatus.TRANSFER_FAILED:
+      return "failed";
+    default:
+      return "pending";
+  }
+}
+
+function toWithdrawalStatus(
+  status: SparkCoopExitRequestStatus
+): TransactionStatus {
+  switch (status) {
+    case SparkCoopExitRequestStatus.SUCCEEDED:
+      return "confirmed";
+    case SparkCoopExitRequestStatus.FAILED:
+    case SparkCoopExitRequestStatus.EXPIRED:
+      return "failed";
+    default:
+      return "pending";
+  }
+}
+
+/**
+ * Maps a Spark transfer to a history record, or null for internal swaps.
+ */
+export function fromWalletTransfer(
+  transfer: WalletTransfer
+): HistoryTransaction | null {
+  const type = TRANSFER_TYPES[transfer.type];
+  if (!type) return null;
+  const isIncoming = transfer.transferDirection === "INCOMING";
+  const counterpartyPubkey = isIncoming
+    ? transfer.senderIdentityPublicKey
+    : transfer.receiverIdentityPublicKey;
+  return {
+    id: transfer.id,
+    type,
+    direction: isIncoming ? "incoming" : "outgoing",
+    status: toTransferStatus(transfer.status),
+    amountSats: transfer.totalValue,
+    timestamp: (
+      transfer.createdTime ??
+      transfer.updatedTime ??
+      new Date()
+    ).toISOString(),
+    counterparty:
+      type === "spark_transfer"
+        ? {
+            type: "spark",
+            identifier: counterpartyPubkey,
+            pubkey: counterpartyPubkey,
+          }
+        : undefined,
+    transferId: transfer.id,
+  };
+}
+
+/**
+ * `paidAmountSats` is what was sent, needed for zero-amount invoices which
+ * don't carry it.
+ */
+export function fromLightningSendRequest(
+  request: LightningSendRequest,
+  network: HistoryScope["network"],
+  paidAmountSats?: number
+): HistoryTransaction {
+  const invoice = parseBolt11(request.encodedInvoice, network);
+  const transferId = request.transfer?.sparkId;
+  return {
+    id: transferId ?? `lightning:${request.id}`,
+    type: "lightning_payment",
+    direction: "outgoing",
+    status: toLightningSendStatus(request.status),
+    amountSats: invoice.amountSats || (paidAmountSats ?? 0),
+    feeSats: toSats(request.fee),
+    timestamp: toIsoTimestamp(request.createdAt),
+    transferId,
+    requestId: request.id,
+    requestStatus: request.status,
+    invoice: request.encodedInvoice,
+    description: invoice.description || undefined,
+    paymentHash: invoice.paymentHash,
+    paymentPreimage: request.paymentPreimage,
+  };
+}
+
+export function fromLightningReceiveRequest(
+  request: LightningReceiveRequest,
+  network: HistoryScope["network"]
+): HistoryTransaction {
+  const invoice = parseBolt11(request.invoice.encodedInvoice, network);
+  const transferId = request.transfer?.sparkId;
+  return {
+    id: transferId ?? `lightning:${request.id}`,
+    type: "lightning_payment",
+    direction: "incoming",
+    status: toLightningReceiveStatus(request.status),
+    amountSats: invoice.amountSats,
+    timestamp: toIsoTimestamp(request.createdAt),
+    transferId,
+    requestId: request.id,
+    requestStatus: request.status,
+    invoice: request.invoice.encodedInvoice,
+    description: request.invoice.memo || invoice.description || undefined,
+    paymentHash: request.invoice.paymentHash,
+    paymentPreimage: request.paymentPreimage,
+    expiresAt: request.invoice.expiresAt,
+    completedAt:
+      request.status === LightningReceiveRequestStatus.TRANSFER_COMPLETED
+        ? toIsoTimestamp(request.updatedAt)
+        : undefined,
+  };
+}
+
+export function fromCoopExitRequest(
+  request: CoopExitRequest,
+  { amountSats, address }: { amountSats: number; address?: string }
+): HistoryTransaction {
+  const transferId = request.transfer?.sparkId;
+  return {
+    id: transferId ?? `withdrawal:${request.id}`,
+    type: "bitcoin_withdrawal",
+    direction: "outgoing",
+    status: toWithdrawalStatus(request.status),
+    amountSats,
+    feeSats: toSats(request.fee) + toSats(request.l1BroadcastFee),
+    timestamp: toIsoTimestamp(request.createdAt),
+    counterparty: address
+      ? { type: "bitcoin", identifier: address }
+      : undefined,
+    transferId,
+    txid: request.coopExitTxid || undefined,
+    requestId: request.id,
+    requestStatus: request.status,
+  };
+}
+
+/**
+ * Single-use address deposits become leaves directly, without a transfer.
+ */
+export function fromClaimedDeposit(
+  { txid, outputIndex }: Pick<Deposit, "txid" | "outputIndex">,
+  leaves: WalletLeaf[]
+): HistoryTransaction {
+  return {
+    id: `deposit:${txid}:${outputIndex}`,
+    type: "bitcoin_deposit",
+    direction: "incoming",
+    status: "confirmed",
+    amountSats: leaves.reduce((sum, leaf) => sum + leaf.value, 0),
+    timestamp: new Date().toISOString(),
+    txid,
+  };
+}
+
+/**
+ * Stores records from a send or receive as soon as it happens. History is
+ * a convenience, so failing to write it never fails the payment itself.
+ */
+export async function recordTransactions(
+  scope: HistoryScope,
+  transactions: (HistoryTransaction | null)[]
+) {
+  if (!scope.identityPublicKey) return;
+  try {
+    await putTransactions(
+      scope,
+      transactions.filter((tx): tx is HistoryTransaction => tx !== null)
+    );
+  } catch (error) {
+    console.error("recordTransactions: Failed to write history.", error);
+  }
+}
+
+// Newest first, stop once a whole page is already stored as-is
+async function syncTransfers(wallet: SparkWallet, scope: HistoryScope) {
+  for (let offset = 0; ; offset += TRANSFER_PAGE_SIZE) {
+    const { transfers } = await wallet.getTransfers(TRANSFER_PAGE_SIZE, offset);
+    const records: HistoryTransaction[] = [];
+    let isPageKnown = true;
+    for (const transfer of transfers) {
+      const record = fromWalletTransfer(transfer);
+      if (!record) continue;
+      const existing = await getTransaction(scope, record.id);
+      // The SSP request knows better whether a Lightning payment or
+      // withdrawal went through than the transfer that funded it
+      const status = existing?.requestStatus ? existing.status : record.status;
+      if (!existing || existing.status !== status) {
+        isPageKnown = false;
+      }
+      records.push({ ...record, id: existing?.id ?? record.id, status });
+    }
+    await putTransactions(scope, records);
+    if (transfers.length < TRANSFER_PAGE_SIZE || isPageKnown) {
+      return;
+    }
+  }
+}
+
+async function refreshRequest(
+  wallet: SparkWallet,
+  scope: HistoryScope,
+  tx: HistoryTransaction
+): Promise<HistoryTransaction | null> {
+  const requestId = tx.requestId!;
+  // The SSP doesn't know the amount or counterparty of every send, keep the
+  // ones recorded when it was made
+  if (tx.type === "bitcoin_withdrawal") {
+    const request = await wallet.getCoopExitRequest(requestId);
+    return request
+      ? fromCoopExitRequest(request, {
+          amountSats: tx.amountSats,
+          address: tx.counterparty?.identifier,
+        })
+      : null;
+  }
+  if (tx.direction === "outgoing") {
+    const request = await wallet.getLightningSendRequest(requestId);
+    return request
+      ? {
+          ...fromLightningSendRequest(request, scope.network, tx.amountSats),
+          counterparty: tx.counterparty,
+        }
+      : null;
+  }
+  const request = await wallet.getLightningReceiveRequest(requestId);
+  return request ? fromLightningReceiveRequest(request, scope.network) : null;
+}
+
+// Stores the request's latest state and returns the record as now stored
+async function syncRequest(
+  wallet: SparkWallet,
+  scope: HistoryScope,
+  tx: HistoryTransaction
+): Promise<HistoryTransaction> {
+  if (
+    isUnpaidInvoice(tx) &&
+    tx.expiresAt &&
+    new Date(tx.expiresAt) < new Date()
+  ) {
+    const expired: HistoryTransaction = { ...tx, status: "failed" };
+    await putTransactions(scope, [expired]);
+    return expired;
+  }
+  const updated = await refreshRequest(wallet, scope, tx);
+  if (!updated) return tx;
+  // The transfer id only becomes known once the SSP has created it.
+  // A label already set on the synced transfer wins over the memo.
+  if (updated.id !== tx.id) {
+    const transfer = await getTransaction(scope, updated.id);
+    await deleteTransactions(scope, [tx.id]);
+    await putTransactions(scope, [
+      { ...tx, ...updated, label: transfer?.label ?? tx.label },
+    ]);
+  } else {
+    await putTransactions(scope, [updated]);
+  }
+  return (await getTransaction(scope, updated.id)) ?? updated;
+}
+
+// Polls the SSP for Lightning payments and withdrawals still in flight
+async function syncRequests(wallet: SparkWallet, scope: HistoryScope) {
+  const pending = (await getAllTransactions(scope)).filter(
+    (tx) => tx.requestId && tx.status === "pending"
+  );
+  for (const tx of pending) {
+    try {
+      await syncRequest(wallet, scope, tx);
+    } catch (error) {
+      console.warn(`syncRequests: Failed to refresh ${tx.id}.`, error);
+    }
+  }
+}
+
+/**
+ * Refreshes a single invoice from the SSP, e.g. while its QR code is shown.
+ * Settled invoices are returned as stored without asking the SSP again.
+ */
+export async function refreshInvoice(
+  wallet: SparkWallet,
+  scope: HistoryScope,
+  requestId: string
+): Promise<HistoryTransaction> {
+  const tx = await getTransaction(scope, requestId);
+  if (!tx) {
+    throw new Error(`Invoice ${requestId} not found`);
+  }
+  return tx.status === "pending" ? syncRequest(wallet, scope, tx) : tx;
+}
+
+const activeSyncs = new Map<string, Promise<void>>();
+
+/**
+ * Pulls the wallet's transfers and pending SSP requests into the local
+ * history database. Concurrent calls for the same wallet share one sync.
+ */
+export function syncHistory(
+  wallet: SparkWallet,
+  scope: HistoryScope
+): Promise<void> {
+  const key = `${scope.network}:${scope.identityPublicKey}`;
+  let sync = activeSyncs.get(key);
+  if (!sync) {
+    sync = (async () => {
+      await syncTransfers(wallet, scope);
+      await syncRequests(wallet, scope);
+    })().finally(() => activeSyncs.delete(key));
+    activeSyncs.set(key, sync);
+  }
+  return sync;
+}
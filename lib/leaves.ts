@@ -0,0 +1,122 @@
+import {
+  getCurrentTimelock,
+  getTxFromRawTxBytes,
+  getTxFromRawTxHex,
+  type SparkWallet,
+} from "@buildonspark/spark-sdk";
+import type { LeafSummary, LeafSwapPreview } from "@/types/leaves";
+
+const TRANSFER_PAGE_SIZE = 100;
+
+// BIP68: a sequence with this bit set carries no relative timelock
+const SEQUENCE_LOCKTIME_DISABLE_FLAG = 2 ** 31;
+
+// Every transfer takes this much off the refund timelock, the SDK refreshes
+// the leaf before it runs out
+export const TIMELOCK_STEP_BLOCKS = 100;
+export const LOW_TIMELOCK_BLOCKS = 3 * TIMELOCK_STEP_BLOCKS;
+
+/**
+ * Relative timelock in blocks a transaction waits for after its parent
+ * confirms.
+ */
+export function getTimelockBlocks(tx: string | Uint8Array) {
+  const parsed =
+    typeof tx === "string" ? getTxFromRawTxHex(tx) : getTxFromRawTxBytes(tx);
+  const sequence = parsed.getInput(0).sequence ?? 0;
+  return sequence >= SEQUENCE_LOCKTIME_DISABLE_FLAG
+    ? 0
+    : getCurrentTimelock(sequence);
+}
+
+// The SSP hands swapped leaves back in power-of-two denominations
+function toDenominations(amountSats: number) {
+  const denominations: number[] = [];
+  let remaining = amountSats;
+  for (let i = Math.floor(Math.log2(amountSats)); remaining > 0; i--) {
+    if (remaining >= 2 ** i) {
+      denominations.push(2 ** i);
+      remaining -= 2 ** i;
+    }
+  }
+  return denominations;
+}
+
+// Transfers come newest first, so the first one holding a leaf is the one
+// that brought it in
+async function findReceivedAt(wallet: SparkWallet, leafIds: string[]) {
+  const receivedAt = new Map<string, string>();
+  const pending = new Set(leafIds);
+  for (let offset = 0; pending.size > 0; offset += TRANSFER_PAGE_SIZE) {
+    const { transfers } = await wallet.getTransfers(TRANSFER_PAGE_SIZE, offset);
+    for (const transfer of transfers) {
+      if (transfer.transferDirection !== "INCOMING") continue;
+      const time = transfer.updatedTime ?? transfer.createdTime;
+      transfer.leaves.forEach(({ leaf }) => {
+        if (leaf && time && pending.delete(leaf.id)) {
+          receivedAt.set(leaf.id, time.toISOString());
+        }
+      });
+    }
+    if (transfers.length < TRANSFER_PAGE_SIZE) break;
+  }
+  return receivedAt;
+}
+
+/**
+ * The wallet's leaves, largest first. Leaves from a deposit claim weren't
+ * transferred in and have no receive time.
+ */
+export async function getLeafSummaries(
+  wallet: SparkWallet
+): Promise<LeafSummary[]> {
+  const leaves = await wallet.getLeaves();
+  const receivedAt = await findReceivedAt(
+    wallet,
+    leaves.map((leaf) => leaf.id)
+  );
+  return leaves
+    .map((leaf) => ({
+      id: leaf.id,
+      treeId: leaf.treeId,
+      valueSats: leaf.value,
+      timelockBlocks: getTimelockBlocks(leaf.refundTx),
+      receivedAt: receivedAt.get(leaf.id),
+    }))
+    .sort((a, b) => b.valueSats - a.valueSats);
+}
+
+async function getSelectedLeaves(wallet: SparkWallet, leafIds: string[]) {
+  const leaves = await wallet.getLeaves();
+  const selected = leaves.filter((leaf) => leafIds.includes(leaf.id));
+  if (selected.length !== leafIds.length) {
+    throw new Error("Some of the selected leaves are no longer in the wallet");
+  }
+  if (selected.length < 2) {
+    throw new Error("Select at least two leaves to preview a swap");
+  }
+  return { leaves, selected };
+}
+
+/**
+ * Leaves the wallet would hold after swapping the selected ones with the
+ * SSP for fresh ones of the same total.
+ */
+export async function previewLeafSwap(
+  wallet: SparkWallet,
+  leafIds: string[]
+): Promise<LeafSwapPreview> {
+  const { leaves, selected } = await getSelectedLeaves(wallet, leafIds);
+  const totalSats = selected.reduce((sum, leaf) => sum + leaf.value, 0);
+  const resultingLeavesSats = toDenominations(totalSats);
+  const { feeEstimate } = await wallet.getSwapFeeEstimate(totalSats);
+  return {
+    leafIds,
+    totalSats,
+    resultingLeavesSats,
+    leafCountBefore: leaves.length,
+    leafCountAfter:
+      leaves.length - selected.length + resultingLeavesSats.length,
+    feeEstimateSats: feeEstimate.originalValue || 0,
+  };
+}
@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  LnurlError,
+  requestLnurlPayInvoice,
+  resolveLnurl,
+  type LnurlPayRequest,
+} from "@/lib/lnurl";
+
+// BOLT11 test vectors: 20m committing to a description hash, and 2500u
+// with a plain "1 cup coffee" description
+const HASHED_INVOICE =
+  "lnbc20m1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqs9qrsgq7ea976txfraylvgzuxs8kgcw23ezlrszfnh8r6qtfpr6cxga50aj6txm9rxrydzd06dfeawfk6swupvz4erwnyutnjq7x39ymw6j38gp7ynn44";
+const HASHED_METADATA =
+  "One piece of chocolate cake, one icecream cone, one pickle, one slice of swiss cheese, one slice of salami, one lollypop, one piece of cherry pie, one sausage, one cupcake, and one slice of watermelon";
+const PLAIN_INVOICE =
+  "lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh";
+
+function mockFetch(body: unknown) {
+  const fetchMock = vi.fn(async () => Response.json(body));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function payRequestParams(callback: string) {
+  return {
+    tag: "payRequest",
+    callback,
+    metadata: JSON.stringify([["text/plain", "Coffee"]]),
+    minSendable: 1000,
+    maxSendable: 1_000_000_000,
+  };
+}
+
+function payRequest(metadata: string): LnurlPayRequest {
+  return {
+    tag: "payRequest",
+    callback: "https://example.com/callback",
+    domain: "example.com",
+    minSendableSats: 1,
+    maxSendableSats: 10_000_000,
+    commentAllowed: 0,
+    metadata,
+    parsedMetadata: { description: "" },
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("resolveLnurl", () => {
+  it("accepts an HTTPS callback", async () => {
+    mockFetch(payRequestParams("https://pay.example.com/cb?id=1"));
+    await expect(resolveLnurl("alice@example.com")).resolves.toMatchObject({
+      tag: "payRequest",
+      domain: "pay.example.com",
+      lightningAddress: "alice@example.com",
+    });
+  });
+
+  it("accepts an HTTP callback on an onion host", async () => {
+    mockFetch(payRequestParams("http://abcdef.onion/cb"));
+    await expect(resolveLnurl("alice@abcdef.onion")).resolves.toMatchObject({
+      domain: "abcdef.onion",
+    });
+  });
+
+  it("rejects an HTTP callback on a clearnet host", async () => {
+    mockFetch(payRequestParams("http://pay.example.com/cb"));
+    await expect(resolveLnurl("alice@example.com")).rejects.toThrow(
+      "The LNURL service sent a callback URL without HTTPS."
+    );
+  });
+
+  it("rejects a malformed callback as an LnurlError", async () => {
+    mockFetch(payRequestParams("not a url"));
+    const result = resolveLnurl("alice@example.com");
+    await expect(result).rejects.toBeInstanceOf(LnurlError);
+    await expect(result).rejects.toThrow(
+      "The LNURL service sent an invalid callback URL."
+    );
+  });
+
+  it("checks the callback of fast withdraw links without fetching", async () => {
+    const fetchMock = mockFetch({});
+    const query = new URLSearchParams({
+      tag: "withdrawRequest",
+      k1: "abc",
+      callback: "http://example.com/withdraw",
+      maxWithdrawable: "100000",
+    });
+    await expect(
+      resolveLnurl(`lnurlw://example.com/w?${query}`)
+    ).rejects.toThrow("The LNURL service sent a callback URL without HTTPS.");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("requestLnurlPayInvoice", () => {
+  it("returns an invoice committing to the metadata", async () => {
+    const fetchMock = mockFetch({ pr: HASHED_INVOICE });
+    await expect(
+      requestLnurlPayInvoice(payRequest(HASHED_METADATA), 2_000_000)
+    ).resolves.toEqual({
+      invoice: HASHED_INVOICE,
+      amountSats: 2_000_000,
+      successAction: undefined,
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://example.com/callback?amount=2000000000"
+    );
+  });
+
+  it("rejects an invoice without a description hash", async () => {
+    mockFetch({ pr: PLAIN_INVOICE });
+    await expect(
+      requestLnurlPayInvoice(payRequest(HASHED_METADATA), 250_000)
+    ).rejects.toThrow(
+      "The invoice does not commit to the LNURL metadata (no description hash)."
+    );
+  });
+
+  it("rejects an invoice with another description hash", async () => {
+    mockFetch({ pr: HASHED_INVOICE });
+    await expect(
+      requestLnurlPayInvoice(payRequest("Something else"), 2_000_000)
+    ).rejects.toThrow(
+      "The invoice description hash does not match the LNURL metadata."
+    );
+  });
+
+  it("rejects an invoice for another amount", async () => {
+    mockFetch({ pr: HASHED_INVOICE });
+    await expect(
+      requestLnurlPayInvoice(payRequest(HASHED_METADATA), 1_000)
+    ).rejects.toThrow(
+      "The invoice amount does not match the requested amount."
+    );
+  });
+
+  it("keeps a success URL on the callback's domain", async () => {
+    const successAction = {
+      tag: "url",
+      description: "Your receipt",
+      url: "https://example.com/receipt/1",
+    };
+    mockFetch({ pr: HASHED_INVOICE, successAction });
+    const result = await requestLnurlPayInvoice(
+      payRequest(HASHED_METADATA),
+      2_000_000
+    );
+    expect(result.successAction).toEqual(successAction);
+  });
+
+  it.each([
+    ["on another domain", "https://phishing.example.net/receipt"],
+    ["without HTTPS", "http://example.com/receipt"],
+    ["that is malformed", "not a url"],
+  ])("turns a success URL %s into a message", async (_, url) => {
+    mockFetch({
+      pr: HASHED_INVOICE,
+      successAction: { tag: "url", description: "Your receipt", url },
+    });
+    const result = await requestLnurlPayInvoice(
+      payRequest(HASHED_METADATA),
+      2_000_000
+    );
+    expect(result.successAction).toEqual({
+      tag: "message",
+      message:
+        "Your receipt\nThe link was left out, it isn't HTTPS on example.com.",
+    });
+  });
+});
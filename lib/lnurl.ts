@@ -0,0 +1,448 @@
+import { bech32 } from "@scure/base";
+import { decode } from "light-bolt11-decoder";
+
+// LNURL helpers (LUD-01, LUD-03, LUD-06, LUD-09, LUD-12, LUD-16, LUD-17).
+// Everything here talks to the LNURL service directly from the browser,
+// services are required to send permissive CORS headers.
+
+export class LnurlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LnurlError";
+  }
+}
+
+export interface LnurlPayMetadata {
+  description: string;
+  longDescription?: string;
+  identifier?: string; // Lightning Address from text/identifier or text/email
+  image?: string; // data URI
+}
+
+export interface LnurlPayRequest {
+  tag: "payRequest";
+  callback: string;
+  domain: string;
+  minSendableSats: number;
+  maxSendableSats: number;
+  commentAllowed: number; // Max comment length, 0 when comments aren't supported
+  metadata: string; // Raw metadata string, hashed into the invoice
+  parsedMetadata: LnurlPayMetadata;
+  lightningAddress?: string;
+}
+
+export interface LnurlWithdrawRequest {
+  tag: "withdrawRequest";
+  callback: string;
+  k1: string;
+  domain: string;
+  defaultDescription: string;
+  minWithdrawableSats: number;
+  maxWithdrawableSats: number;
+}
+
+export type LnurlRequest = LnurlPayRequest | LnurlWithdrawRequest;
+
+export type LnurlSuccessAction =
+  | { tag: "message"; message: string }
+  | { tag: "url"; description: string; url: string }
+  | { tag: "aes"; description: string };
+
+export interface LnurlPayInvoice {
+  invoice: string;
+  amountSats: number;
+  successAction?: LnurlSuccessAction;
+}
+
+const LNURL_PREFIX = "lnurl1";
+const LIGHTNING_ADDRESS_REGEX =
+  /^[a-z0-9\-_.+]+@([a-z0-9-]+\.)+[a-z0-9-]+(:\d+)?$/i;
+const LUD17_SCHEMES = ["lnurlp://", "lnurlw://", "lnurlc://", "keyauth://"];
+
+/**
+ * Strips a `lightning:` URI prefix, if any.
+ */
+function stripLightningPrefix(input: string): string {
+  const trimmed = input.trim();
+  return trimmed.toLowerCase().startsWith("lightning:")
+    ? trimmed.substring(10)
+    : trimmed;
+}
+
+function isOnionHost(host: string): boolean {
+  return /\.onion(:\d+)?$/i.test(host);
+}
+
+/**
+ * Decodes a bech32 `lnurl1…` string into the URL it encodes.
+ */
+export function decodeLnurl(lnurl: string): string {
+  try {
+    const { prefix, words } = bech32.decode(
+      lnurl.toLowerCase() as `${string}1${string}`,
+      2000 // LNURLs are longer than the 90 char BIP173 limit
+    );
+    if (prefix !== "lnurl") {
+      throw new Error(`Unexpected prefix ${prefix}`);
+    }
+    return new TextDecoder().decode(bech32.fromWords(words));
+  } catch (error) {
+    throw new LnurlError(
+      `Invalid LNURL: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Checks for a `name@domain` Lightning Address.
+ */
+export function isLightningAddress(input: string): boolean {
+  return LIGHTNING_ADDRESS_REGEX.test(stripLightningPrefix(input));
+}
+
+/**
+ * Checks for anything resolvable to an LNURL endpoint: bech32 LNURLs,
+ * LUD-17 scheme URLs and Lightning Addresses, with or without `lightning:`.
+ */
+export function isLnurlInput(input: string): boolean {
+  const value = stripLightningPrefix(input).toLowerCase();
+  return (
+    value.startsWith(LNURL_PREFIX) ||
+    LUD17_SCHEMES.some((scheme) => value.startsWith(scheme)) ||
+    isLightningAddress(value)
+  );
+}
+
+/**
+ * Turns any LNURL-style input into the HTTPS endpoint to query.
+ */
+export function getLnurlEndpoint(input: string): string {
+  const value = stripLightningPrefix(input);
+  const lower = value.toLowerCase();
+
+  if (lower.startsWith(LNURL_PREFIX)) {
+    return decodeLnurl(value);
+  }
+
+  const scheme = LUD17_SCHEMES.find((s) => lower.startsWith(s));
+  if (scheme) {
+    const rest = value.substring(scheme.length);
+    return `${isOnionHost(rest.split("/")[0]) ? "http" : "https"}://${rest}`;
+  }
+
+  if (isLightningAddress(value)) {
+    const [username, domain] = value.split("@");
+    const protocol = isOnionHost(domain) ? "http" : "https";
+    return `${protocol}://${domain}/.well-known/lnurlp/${username.toLowerCase()}`;
+  }
+
+  throw new LnurlError("Not an LNURL or Lightning Address.");
+}
+
+async function fetchLnurlJson<T>(url: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new LnurlError(`Could not reach ${new URL(url).host}.`);
+  }
+
+  let body: any;
+  try {
+    body = await response.json();
+  } catch {
+    throw new LnurlError(
+      `Unexpected response from ${new URL(url).host} (HTTP ${response.status}).`
+    );
+  }
+
+  if (body?.status === "ERROR") {
+    throw new LnurlError(body.reason || "The LNURL service returned an error.");
+  }
+  if (!response.ok) {
+    throw new LnurlError(`The LNURL service returned HTTP ${response.status}.`);
+  }
+  return body as T;
+}
+
+/**
+ * Checks a callback URL before anything is sent to it. LUD-01 only allows
+ * HTTPS, or plain HTTP to a Tor hidden service.
+ */
+function parseCallbackUrl(callback: string): URL {
+  let url: URL;
+  try {
+    url = new URL(callback);
+  } catch {
+    throw new LnurlError("The LNURL service sent an invalid callback URL.");
+  }
+  const isAllowed =
+    url.protocol === "https:" ||
+    (url.protocol === "http:" && isOnionHost(url.host));
+  if (!isAllowed) {
+    throw new LnurlError(
+      "The LNURL service sent a callback URL without HTTPS."
+    );
+  }
+  return url;
+}
+
+function parsePayMetadata(metadata: string): LnurlPayMetadata {
+  let entries: [string, string][];
+  try {
+    entries = JSON.parse(metadata);
+    if (!Array.isArray(entries)) throw new Error();
+  } catch {
+    throw new LnurlError("The LNURL service sent invalid metadata.");
+  }
+
+  const find = (type: string) =>
+    entries.find((entry) => Array.isArray(entry) && entry[0] === type)?.[1];
+  // Image entries are typed "image/png;base64" or "image/jpeg;base64"
+  const image = entries.find(
+    (entry) => Array.isArray(entry) && /^image\/.+;base64$/.test(entry[0])
+  );
+
+  return {
+    description: find("text/plain") ?? "",
+    longDescription: find("text/long-desc"),
+    identifier: find("text/identifier") ?? find("text/email"),
+    image: image ? `data:${image[0]},${image[1]}` : undefined,
+  };
+}
+
+function parsePayRequest(input: string, params: any): LnurlPayRequest {
+  if (typeof params.callback !== "string" || !params.metadata) {
+    throw new LnurlError("The LNURL service sent an incomplete pay request.");
+  }
+
+  const minSendableSats = Math.ceil(Number(params.minSendable) / 1000);
+  const maxSendableSats = Math.floor(Number(params.maxSendable) / 1000);
+  if (
+    !Number.isFinite(minSendableSats) ||
+    !Number.isFinite(maxSendableSats) ||
+    minSendableSats > maxSendableSats
+  ) {
+    throw new LnurlError("The LNURL service sent an invalid amount range.");
+  }
+
+  const callbackUrl = parseCallbackUrl(params.callback);
+  const value = stripLightningPrefix(input);
+  return {
+    tag: "payRequest",
+    callback: params.callback,
+    domain: callbackUrl.host,
+    minSendableSats: Math.max(minSendableSats, 1),
+    maxSendableSats,
+    commentAllowed: Number(params.commentAllowed) || 0,
+    metadata: params.metadata,
+    parsedMetadata: parsePayMetadata(params.metadata),
+    lightningAddress: isLightningAddress(value)
+      ? value.toLowerCase()
+      : undefined,
+  };
+}
+
+function parseWithdrawRequest(params: any): LnurlWithdrawRequest {
+  if (typeof params.callback !== "string" || typeof params.k1 !== "string") {
+    throw new LnurlError(
+      "The LNURL service sent an incomplete withdraw request."
+    );
+  }
+
+  const minWithdrawableSats = Math.ceil(
+    Number(params.minWithdrawable ?? 0) / 1000
+  );
+  const maxWithdrawableSats = Math.floor(Number(params.maxWithdrawable) / 1000);
+  if (
+    !Number.isFinite(minWithdrawableSats) ||
+    !Number.isFinite(maxWithdrawableSats) ||
+    maxWithdrawableSats < 1 ||
+    minWithdrawableSats > maxWithdrawableSats
+  ) {
+    throw new LnurlError("The LNURL service sent an invalid amount range.");
+  }
+
+  const callbackUrl = parseCallbackUrl(params.callback);
+  return {
+    tag: "withdrawRequest",
+    callback: params.callback,
+    k1: params.k1,
+    domain: callbackUrl.host,
+    defaultDescription: params.defaultDescription ?? "",
+    minWithdrawableSats: Math.max(minWithdrawableSats, 1),
+    maxWithdrawableSats,
+  };
+}
+
+/**
+ * Resolves an LNURL code or Lightning Address into its pay or withdraw
+ * parameters.
+ */
+export async function resolveLnurl(input: string): Promise<LnurlRequest> {
+  const endpoint = getLnurlEndpoint(input);
+
+  // LUD-03 fast withdraw links carry the parameters in the query string
+  const query = new URL(endpoint).searchParams;
+  if (query.get("tag") === "withdrawRequest" && query.get("k1")) {
+    return parseWithdrawRequest(Object.fromEntries(query));
+  }
+
+  const params = await fetchLnurlJson<any>(endpoint);
+  switch (params.tag) {
+    case "payRequest":
+      return parsePayRequest(input, params);
+    case "withdrawRequest":
+      return parseWithdrawRequest(params);
+    default:
+      throw new LnurlError(
+        params.tag
+          ? `Unsupported LNURL type "${params.tag}".`
+          : "The LNURL service did not return a pay or withdraw request."
+      );
+  }
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Checks a LUD-09 success action before it is shown. A URL action has to be
+ * HTTPS on the callback's domain, anything else is turned into a message
+ * so the app never links somewhere the service doesn't control.
+ */
+function checkSuccessAction(
+  action: LnurlSuccessAction,
+  callbackUrl: URL
+): LnurlSuccessAction {
+  if (action.tag !== "url") {
+    return action;
+  }
+  let url: URL | null;
+  try {
+    url = new URL(action.url);
+  } catch {
+    url = null;
+  }
+  if (
+    url?.protocol === "https:" &&
+    url.hostname.toLowerCase() === callbackUrl.hostname.toLowerCase()
+  ) {
+    return action;
+  }
+  const notice = `The link was left out, it isn't HTTPS on ${callbackUrl.hostname}.`;
+  return {
+    tag: "message",
+    message: action.description ? `${action.description}\n${notice}` : notice,
+  };
+}
+
+/**
+ * Requests an invoice from an LNURL-pay callback and checks that it commits
+ * to the requested amount and the service's metadata before returning it.
+ */
+export async function requestLnurlPayInvoice(
+  payRequest: LnurlPayRequest,
+  amountSats: number,
+  comment?: string
+): Promise<LnurlPayInvoice> {
+  if (
+    amountSats < payRequest.minSendableSats ||
+    amountSats > payRequest.maxSendableSats
+  ) {
+    throw new LnurlError(
+      `Amount must be between ${payRequest.minSendableSats.toLocaleString()} and ${payRequest.maxSendableSats.toLocaleString()} sats.`
+    );
+  }
+  const trimmedComment = comment?.trim();
+  if (trimmedComment && trimmedComment.length > payRequest.commentAllowed) {
+    throw new LnurlError(
+      payRequest.commentAllowed > 0
+        ? `Comment can be at most ${payRequest.commentAllowed} characters.`
+        : "This recipient does not accept comments."
+    );
+  }
+
+  const amountMsats = amountSats * 1000;
+  const callbackUrl = new URL(payRequest.callback);
+  callbackUrl.searchParams.set("amount", String(amountMsats));
+  if (trimmedComment) {
+    callbackUrl.searchParams.set("comment", trimmedComment);
+  }
+
+  const response = await fetchLnurlJson<{
+    pr?: string;
+    successAction?: LnurlSuccessAction | null;
+  }>(callbackUrl.toString());
+  if (!response.pr) {
+    throw new LnurlError("The LNURL service did not return an invoice.");
+  }
+
+  let decoded: ReturnType<typeof decode>;
+  try {
+    decoded = decode(response.pr);
+  } catch {
+    throw new LnurlError("The LNURL service returned an invalid invoice.");
+  }
+
+  const invoiceAmountMsats = decoded.sections.find(
+    (section) => section.name === "amount"
+  )?.value;
+  if (Number(invoiceAmountMsats) !== amountMsats) {
+    throw new LnurlError(
+      "The invoice amount does not match the requested amount."
+    );
+  }
+
+  // LUD-06 requires the invoice to commit to the hash of the metadata,
+  // otherwise it could be for anything the service likes.
+  // (light-bolt11-decoder decodes the tag but leaves it out of its types)
+  const descriptionHash = (
+    decoded.sections as { name: string; value?: unknown }[]
+  ).find((section) => section.name === "description_hash")?.value;
+  if (typeof descriptionHash !== "string") {
+    throw new LnurlError(
+      "The invoice does not commit to the LNURL metadata (no description hash)."
+    );
+  }
+  if (descriptionHash !== (await sha256Hex(payRequest.metadata))) {
+    throw new LnurlError(
+      "The invoice description hash does not match the LNURL metadata."
+    );
+  }
+
+  return {
+    invoice: response.pr,
+    amountSats,
+    successAction: response.successAction
+      ? checkSuccessAction(response.successAction, callbackUrl)
+      : undefined,
+  };
+}
+
+/**
+ * Hands our invoice to an LNURL-withdraw callback. The service pays it
+ * asynchronously, an OK here only means the request was accepted.
+ */
+export async function submitLnurlWithdraw(
+  withdrawRequest: LnurlWithdrawRequest,
+  invoice: string
+): Promise<void> {
+  const callbackUrl = new URL(withdrawRequest.callback);
+  callbackUrl.searchParams.set("k1", withdrawRequest.k1);
+  callbackUrl.searchParams.set("pr", invoice);
+
+  const response = await fetchLnurlJson<{ status?: string }>(
+    callbackUrl.toString()
+  );
+  if (response.status !== "OK") {
+    throw new LnurlError("The LNURL service did not accept the withdrawal.");
+  }
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import type { Mutate, StoreApi } from "zustand";
+import {
+  SUPPORTED_NETWORKS,
+  networkStorageKey,
+  type WalletNetwork,
+} from "@/lib/network";
+
+type PersistedStore<S> = Mutate<StoreApi<S>, [["zustand/persist", S]]>;
+
+interface NetworkStore {
+  store: PersistedStore<unknown>;
+  name: string;
+}
+
+const networkStores: NetworkStore[] = [];
+let currentNetwork: WalletNetwork | null = null;
+
+function load({ store, name }: NetworkStore, network: WalletNetwork) {
+  store.persist.setOptions({ name: networkStorageKey(name, network) });
+  store.persist.rehydrate();
+}
+
+/**
+ * Keeps a persisted store on the wallet network's own copy, under
+ * networkStorageKey(name, network), and loads the other copy whenever the
+ * network changes. The store's merge has to reset what another network
+ * doesn't have stored yet.
+ */
+export function persistPerNetwork<S>(store: PersistedStore<S>, name: string) {
+  // Without localStorage, e.g. when rendering on the server, nothing persists
+  if (!store.persist) return;
+  const entry = { store: store as PersistedStore<unknown>, name };
+  networkStores.push(entry);
+  if (currentNetwork) load(entry, currentNetwork);
+}
+
+/**
+ * Switches every per-network store to the network's copy. Called by the
+ * wallet store, which owns the selected network.
+ */
+export function loadNetworkStorage(network: WalletNetwork) {
+  if (network === currentNetwork) return;
+  currentNetwork = network;
+  networkStores.forEach((entry) => load(entry, network));
+}
+
+/**
+ * Deletes every network's copy of every per-network store and empties
+ * the loaded one.
+ */
+export function clearNetworkStorage() {
+  networkStores.forEach((entry) => {
+    const storage = entry.store.persist.getOptions().storage;
+    SUPPORTED_NETWORKS.forEach((network) =>
+      storage?.removeItem(networkStorageKey(entry.name, network))
+    );
+    entry.store.persist.rehydrate();
+  });
+}
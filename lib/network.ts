@@ -0,0 +1,50 @@
+import type { NetworkType } from "@buildonspark/spark-sdk";
+import type { ExplorerNetwork } from "@/types/explorer";
+
+/**
+ * Networks the wallet can be switched between.
+ * The explorer API only indexes these two.
+ */
+export const SUPPORTED_NETWORKS = [
+  "MAINNET",
+  "REGTEST",
+] as const satisfies readonly (NetworkType & ExplorerNetwork)[];
+
+export type WalletNetwork = (typeof SUPPORTED_NETWORKS)[number];
+
+export const DEFAULT_NETWORK: WalletNetwork = "MAINNET";
+
+export const NETWORK_LABELS: Record<WalletNetwork, string> = {
+  MAINNET: "Mainnet",
+  REGTEST: "Regtest",
+};
+
+export function isSupportedNetwork(value: unknown): value is WalletNetwork {
+  return SUPPORTED_NETWORKS.includes(value as WalletNetwork);
+}
+
+/**
+ * Scopes a storage key to a network. Mainnet keeps the bare key so data
+ * stored before network switching existed is still found.
+ */
+export function networkStorageKey(key: string, network: WalletNetwork) {
+  return network === "MAINNET" ? key : `${key}:${network.toLowerCase()}`;
+}
+
+/**
+ * Sparkscan link for a Spark transaction on the given network.
+ */
+export function sparkscanTxUrl(id: string, network: WalletNetwork) {
+  const url = `https://sparkscan.io/tx/${id}`;
+  return network === "MAINNET"
+    ? url
+    : `${url}?network=${network.toLowerCase()}`;
+}
+
+/**
+ * Mempool.space link for an on-chain transaction. Regtest has no public
+ * block explorer, so there is nothing to link to.
+ */
+export function mempoolTxUrl(txid: string, network: WalletNetwork) {
+  return network === "MAINNET" ? `https://mempool.space/tx/${txid}` : null;
+}
@@ -0,0 +1,389 @@
+import { bech32, bech32m } from "@scure/base";
+import { describe, expect, it } from "vitest";
+import {
+  getBip21Destination,
+  parseBtcAmount,
+  parsePaymentRequest,
+  PaymentRequestError,
+  type Bip21PaymentRequest,
+  type Bolt11PaymentRequest,
+} from "@/lib/payment-request";
+
+// BOLT11 test vectors: 2500u with "1 cup coffee", and a zero-amount invoice
+const MAINNET_INVOICE =
+  "lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh";
+const ZERO_AMOUNT_INVOICE =
+  "lnbc1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq9qrsgq357wnc5r2ueh7ck6q93dj32dlqnls087fxdwk8qakdyafkq3yap9us6v52vjjsrvywa6rt52cm9r9zqt8r2t7mlcwspyetp5h2tztugp9lfyql";
+const REGTEST_INVOICE =
+  "lnbcrt123450n1pnj6uf4pp5l26hsdxssmr52vd4xmn5xran7puzx34hpr6uevaq7ta0ayzrp8esdqqcqzpgxqyz5vqrzjqtr2vd60g57hu63rdqk87u3clac6jlfhej4kldrrjvfcw3mphcw8sqqqqzp3jlj6zyqqqqqqqqqqqqqq9qsp5w22fd8aqn7sdum7hxdf59ptgk322fkv589ejxjltngvgehlcqcyq9qxpqysgqvykwsxdx64qrj0s5pgcgygmrpj8w25jsjgltwn09yp24l9nvghe3dl3y0ycy70ksrlqmcn42hxn24e0ucuy3g9fjltudvhv4lrhhamgq3stqgp";
+
+const SPARK_MAINNET =
+  "sp1pgssy7d7vel0nh9m4326qc54e6rskpczn07dktww9rv4nu5ptvt0s9ucez8h3s";
+const SPARK_REGTEST =
+  "sprt1pgssy7d7vel0nh9m4326qc54e6rskpczn07dktww9rv4nu5ptvt0s9ucd5rgc0";
+const SPARK_TESTNET =
+  "spt1pgssy7d7vel0nh9m4326qc54e6rskpczn07dktww9rv4nu5ptvt0s9ucdm5ew9";
+const SPARK_SIGNET =
+  "sps1pgssy7d7vel0nh9m4326qc54e6rskpczn07dktww9rv4nu5ptvt0s9uct2497k";
+const SPARK_IDENTITY_KEY =
+  "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798";
+
+// BIP173 and BIP350 vectors
+const P2WPKH_MAINNET = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
+const P2WPKH_REGTEST = "bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080";
+const P2WSH_TESTNET =
+  "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7";
+const P2TR_MAINNET =
+  "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0";
+const P2PKH_MAINNET = "1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2";
+const P2SH_MAINNET = "3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy";
+const P2PKH_TESTNET = "mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn";
+
+// LUD-01 example
+const LNURL =
+  "LNURL1DP68GURN8GHJ7UM9WFMXJCM99E3K7MF0V9CXJ0M385EKVCENXC6R2C35XVUKXEFCV5MKVV34X5EKZD3EV56NYD3HXQURZEPEXEJXXEPNXSCRVWFNV9NXZCN9XQ6XYEFHVGCXXCMYXYMNSERXFQ5FNS";
+const LNURL_URL =
+  "https://service.com/api?q=3fc3645b439ce8e7f2553a69e5267081d96dcd340693afabe04be7b0ccd178df";
+
+/**
+ * Moves an invoice to another network's prefix. The signature no longer
+ * matches, which the parser doesn't check.
+ */
+function withInvoicePrefix(invoice: string, prefix: string) {
+  const { words } = bech32.decode(invoice as `${string}1${string}`, 2000);
+  return bech32.encode(prefix, words, 2000);
+}
+
+// Swaps the last character, breaking the checksum
+function corrupt(input: string) {
+  const last = input[input.length - 1];
+  return input.slice(0, -1) + (last === "q" ? "p" : "q");
+}
+
+function expectError(input: string, message: RegExp | string) {
+  const parse = () => parsePaymentRequest(input, "MAINNET");
+  expect(parse).toThrow(PaymentRequestError);
+  expect(parse).toThrow(message);
+}
+
+describe("parsePaymentRequest", () => {
+  it("rejects empty and unknown input", () => {
+    expectError("   ", "Enter an address or invoice.");
+    expectError("hello world", /^Not a Bitcoin or Spark address/);
+  });
+
+  describe("BOLT11 invoices", () => {
+    it("decodes a mainnet invoice", () => {
+      const request = parsePaymentRequest(
+        MAINNET_INVOICE,
+        "MAINNET"
+      ) as Bolt11PaymentRequest;
+      expect(request).toMatchObject({
+        type: "bolt11",
+        invoice: MAINNET_INVOICE,
+        amountSats: 250_000,
+        description: "1 cup coffee",
+        paymentHash:
+          "0001020304050607080900010203040506070809000102030405060708090102",
+        timestamp: 1496314658,
+        expirySeconds: 60,
+      });
+      expect(request.expiryDate).toEqual(new Date((1496314658 + 60) * 1000));
+    });
+
+    it("reports zero-amount invoices as 0 sats", () => {
+      expect(parsePaymentRequest(ZERO_AMOUNT_INVOICE, "MAINNET")).toMatchObject(
+        { type: "bolt11", amountSats: 0, expirySeconds: 3600 }
+      );
+    });
+
+    it("accepts uppercase and lightning: URIs", () => {
+      expect(
+        parsePaymentRequest(
+          `LIGHTNING:${MAINNET_INVOICE.toUpperCase()}`,
+          "MAINNET"
+        )
+      ).toMatchObject({ type: "bolt11", invoice: MAINNET_INVOICE });
+    });
+
+    it("decodes a regtest invoice on regtest", () => {
+      expect(parsePaymentRequest(REGTEST_INVOICE, "REGTEST")).toMatchObject({
+        type: "bolt11",
+        amountSats: 12_345,
+      });
+    });
+
+    it.each([
+      ["regtest", REGTEST_INVOICE, "MAINNET", "Regtest"],
+      [
+        "testnet",
+        withInvoicePrefix(MAINNET_INVOICE, "lntb2500u"),
+        "MAINNET",
+        "Testnet",
+      ],
+      [
+        "signet",
+        withInvoicePrefix(MAINNET_INVOICE, "lntbs2500u"),
+        "REGTEST",
+        "Signet",
+      ],
+      ["mainnet", MAINNET_INVOICE, "REGTEST", "Mainnet"],
+    ] as const)(
+      "rejects a %s invoice on another network",
+      (_, invoice, network, label) => {
+        expect(() => parsePaymentRequest(invoice, network)).toThrow(
+          new RegExp(`^This is a ${label} Lightning invoice`)
+        );
+      }
+    );
+
+    it("rejects a corrupted invoice", () => {
+      expectError(corrupt(MAINNET_INVOICE), "Invalid Lightning invoice.");
+    });
+
+    it("rejects mixed case", () => {
+      const mixed = "LNBC" + MAINNET_INVOICE.slice(4);
+      expectError(mixed, /^Not a Bitcoin or Spark address/);
+    });
+  });
+
+  describe("Bitcoin addresses", () => {
+    it.each([
+      [P2WPKH_MAINNET, "p2wpkh"],
+      [P2TR_MAINNET, "p2tr"],
+      [P2PKH_MAINNET, "p2pkh"],
+      [P2SH_MAINNET, "p2sh"],
+    ])("parses %s as %s", (address, addressType) => {
+      expect(parsePaymentRequest(address, "MAINNET")).toEqual({
+        type: "bitcoin",
+        address,
+        addressType,
+      });
+    });
+
+    it("lowercases uppercase bech32 addresses", () => {
+      expect(
+        parsePaymentRequest(P2WPKH_MAINNET.toUpperCase(), "MAINNET")
+      ).toMatchObject({ address: P2WPKH_MAINNET });
+    });
+
+    it("accepts regtest and testnet addresses on regtest", () => {
+      expect(parsePaymentRequest(P2WPKH_REGTEST, "REGTEST")).toMatchObject({
+        addressType: "p2wpkh",
+      });
+      // Regtest shares testnet's base58 version bytes
+      expect(parsePaymentRequest(P2PKH_TESTNET, "REGTEST")).toMatchObject({
+        addressType: "p2pkh",
+      });
+    });
+
+    it.each([
+      ["bech32", P2WPKH_MAINNET],
+      ["bech32m", P2TR_MAINNET],
+      ["base58", P2PKH_MAINNET],
+    ])("rejects a %s checksum failure", (_, address) => {
+      expectError(corrupt(address), "Invalid Bitcoin address checksum.");
+    });
+
+    it("rejects a taproot address encoded with bech32", () => {
+      const { words } = bech32m.decode(P2TR_MAINNET as `${string}1${string}`);
+      expectError(
+        bech32.encode("bc", words),
+        "Invalid Bitcoin address checksum."
+      );
+    });
+
+    it("rejects addresses for another network", () => {
+      expectError(P2WPKH_REGTEST, /^This is a Regtest Bitcoin address/);
+      expectError(P2WSH_TESTNET, /^This is a Testnet Bitcoin address/);
+      expectError(P2PKH_TESTNET, /^This is a Testnet Bitcoin address/);
+      expect(() => parsePaymentRequest(P2PKH_MAINNET, "REGTEST")).toThrow(
+        /^This is a Mainnet Bitcoin address/
+      );
+    });
+  });
+
+  describe("Spark addresses", () => {
+    it("decodes the identity public key", () => {
+      expect(parsePaymentRequest(SPARK_MAINNET, "MAINNET")).toEqual({
+        type: "spark",
+        address: SPARK_MAINNET,
+        identityPublicKey: SPARK_IDENTITY_KEY,
+      });
+      expect(parsePaymentRequest(SPARK_REGTEST, "REGTEST")).toMatchObject({
+        identityPublicKey: SPARK_IDENTITY_KEY,
+      });
+    });
+
+    it("accepts spark: URIs and uppercase", () => {
+      expect(
+        parsePaymentRequest(`spark:${SPARK_MAINNET.toUpperCase()}`, "MAINNET")
+      ).toMatchObject({ type: "spark", address: SPARK_MAINNET });
+    });
+
+    it.each([
+      [SPARK_REGTEST, "MAINNET", "Regtest"],
+      [SPARK_TESTNET, "MAINNET", "Testnet"],
+      [SPARK_SIGNET, "REGTEST", "Signet"],
+      [SPARK_MAINNET, "REGTEST", "Mainnet"],
+    ] as const)("rejects %s on %s", (address, network, label) => {
+      expect(() => parsePaymentRequest(address, network)).toThrow(
+        new RegExp(`^This is a ${label} Spark address`)
+      );
+    });
+
+    it("rejects a checksum failure", () => {
+      expectError(
+        corrupt(SPARK_MAINNET),
+        "Invalid Spark address checksum or payload."
+      );
+    });
+  });
+
+  describe("BIP21 URIs", () => {
+    it("parses the address, amount, label and message", () => {
+      expect(
+        parsePaymentRequest(
+          `bitcoin:${P2WPKH_MAINNET}?amount=0.0015&label=Coffee%20Shop&message=Thanks`,
+          "MAINNET"
+        )
+      ).toEqual({
+        type: "bip21",
+        address: {
+          type: "bitcoin",
+          address: P2WPKH_MAINNET,
+          addressType: "p2wpkh",
+        },
+        amountSats: 150_000,
+        label: "Coffee Shop",
+        message: "Thanks",
+      });
+    });
+
+    it("parses lightning= and spark= params", () => {
+      const request = parsePaymentRequest(
+        `BITCOIN:${P2WPKH_MAINNET}?lightning=${MAINNET_INVOICE}&spark=${SPARK_MAINNET}`,
+        "MAINNET"
+      ) as Bip21PaymentRequest;
+      expect(request.lightning).toMatchObject({
+        type: "bolt11",
+        amountSats: 250_000,
+      });
+      expect(request.spark).toMatchObject({
+        type: "spark",
+        identityPublicKey: SPARK_IDENTITY_KEY,
+      });
+    });
+
+    it("accepts a URI without an address when a param is present", () => {
+      expect(
+        parsePaymentRequest(`bitcoin:?spark=${SPARK_MAINNET}`, "MAINNET")
+      ).toMatchObject({ type: "bip21", spark: { address: SPARK_MAINNET } });
+      expectError("bitcoin:?amount=1", "The Bitcoin URI has no destination.");
+    });
+
+    it("rejects params for another network", () => {
+      expectError(
+        `bitcoin:${P2WPKH_MAINNET}?spark=${SPARK_REGTEST}`,
+        /^This is a Regtest Spark address/
+      );
+      expectError(
+        `bitcoin:${P2WPKH_MAINNET}?lightning=${REGTEST_INVOICE}`,
+        /^This is a Regtest Lightning invoice/
+      );
+    });
+
+    it("ignores unknown params but rejects unknown req- params", () => {
+      expect(
+        parsePaymentRequest(`bitcoin:${P2WPKH_MAINNET}?foo=bar`, "MAINNET")
+      ).toMatchObject({ type: "bip21" });
+      expectError(
+        `bitcoin:${P2WPKH_MAINNET}?req-foo=bar`,
+        'Unsupported required parameter "req-foo".'
+      );
+    });
+
+    it("rejects invalid amounts", () => {
+      expectError(
+        `bitcoin:${P2WPKH_MAINNET}?amount=1,5`,
+        'Invalid amount "1,5".'
+      );
+    });
+  });
+
+  describe("LNURL", () => {
+    it("decodes bech32 LNURLs", () => {
+      expect(parsePaymentRequest(LNURL, "MAINNET")).toEqual({
+        type: "lnurl",
+        lnurl: LNURL.toLowerCase(),
+        url: LNURL_URL,
+      });
+      expect(
+        parsePaymentRequest(`lightning:${LNURL}`, "MAINNET")
+      ).toMatchObject({ type: "lnurl", url: LNURL_URL });
+    });
+
+    it("resolves LUD-17 URLs", () => {
+      expect(
+        parsePaymentRequest("lnurlp://service.com/api?q=1", "MAINNET")
+      ).toMatchObject({ type: "lnurl", url: "https://service.com/api?q=1" });
+      expect(
+        parsePaymentRequest("lnurlw://example.onion/withdraw", "MAINNET")
+      ).toMatchObject({ url: "http://example.onion/withdraw" });
+    });
+
+    it("rejects a corrupted LNURL", () => {
+      expect(() =>
+        parsePaymentRequest(corrupt(LNURL.toLowerCase()), "MAINNET")
+      ).toThrow(/^Invalid LNURL/);
+    });
+  });
+
+  describe("Lightning Addresses", () => {
+    it("parses and lowercases the address", () => {
+      expect(parsePaymentRequest("Satoshi@Example.com", "MAINNET")).toEqual({
+        type: "lightning_address",
+        address: "satoshi@example.com",
+      });
+      expect(
+        parsePaymentRequest("lightning:alice@example.com", "MAINNET")
+      ).toEqual({ type: "lightning_address", address: "alice@example.com" });
+    });
+
+    it("is not confused with an email-less domain", () => {
+      expectError("example.com", /^Not a Bitcoin or Spark address/);
+    });
+  });
+});
+
+describe("parseBtcAmount", () => {
+  it("converts decimal BTC without float rounding", () => {
+    expect(parseBtcAmount("0.1")).toBe(10_000_000);
+    expect(parseBtcAmount("0.00000001")).toBe(1);
+    expect(parseBtcAmount("20.3")).toBe(2_030_000_000);
+  });
+
+  it.each(["0", "-1", "1e3", "0.000000001", "abc"])("rejects %s", (amount) => {
+    expect(() => parseBtcAmount(amount)).toThrow(PaymentRequestError);
+  });
+});
+
+describe("getBip21Destination", () => {
+  const parse = (uri: string) =>
+    parsePaymentRequest(uri, "MAINNET") as Bip21PaymentRequest;
+
+  it("prefers Spark, then a payable invoice, then on-chain", () => {
+    const uri = `bitcoin:${P2WPKH_MAINNET}?lightning=${MAINNET_INVOICE}`;
+    const beforeExpiry = new Date(1496314658 * 1000);
+    expect(
+      getBip21Destination(parse(`${uri}&spark=${SPARK_MAINNET}`), beforeExpiry)
+    ).toMatchObject({ type: "spark" });
+    expect(getBip21Destination(parse(uri), beforeExpiry)).toMatchObject({
+      type: "bolt11",
+    });
+    // The test invoice expired long ago
+    expect(getBip21Destination(parse(uri))).toMatchObject({
+      type: "bitcoin",
+    });
+  });
+});
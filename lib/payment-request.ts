@@ -0,0 +1,511 @@
+import { bech32, bech32m, createBase58check } from "@scure/base";
+import { sha256 } from "@noble/hashes/sha2";
+import { decode as decodeBolt11 } from "light-bolt11-decoder";
+import { decodeSparkAddress } from "@buildonspark/spark-sdk";
+import { decodeLnurl, getLnurlEndpoint, isLightningAddress } from "@/lib/lnurl";
+import { NETWORK_LABELS, type WalletNetwork } from "@/lib/network";
+
+// Single parser for everything a user can paste or scan on the send screen.
+// Pure: no network access and no wallet state, the caller passes the network.
+
+export type PaymentNetwork = WalletNetwork | "TESTNET" | "SIGNET";
+
+export type BitcoinAddressType = "p2pkh" | "p2sh" | "p2wpkh" | "p2wsh" | "p2tr";
+
+export interface SparkPaymentRequest {
+  type: "spark";
+  address: string;
+  identityPublicKey: string;
+}
+
+export interface BitcoinPaymentRequest {
+  type: "bitcoin";
+  address: string;
+  addressType: BitcoinAddressType;
+}
+
+export interface Bolt11PaymentRequest {
+  type: "bolt11";
+  invoice: string;
+  amountSats: number; // 0 for zero-amount invoices
+  description: string;
+  descriptionHash?: string;
+  paymentHash: string;
+  timestamp: number; // Unix seconds
+  expirySeconds: number;
+  expiryDate: Date;
+}
+
+export interface Bip21PaymentRequest {
+  type: "bip21";
+  address?: BitcoinPaymentRequest; // Optional when a lightning= or spark= param is present
+  amountSats?: number;
+  label?: string;
+  message?: string;
+  lightning?: Bolt11PaymentRequest;
+  spark?: SparkPaymentRequest;
+}
+
+export interface LnurlPaymentRequest {
+  type: "lnurl";
+  lnurl: string;
+  url: string;
+}
+
+export interface LightningAddressPaymentRequest {
+  type: "lightning_address";
+  address: string;
+}
+
+export type PaymentRequest =
+  | SparkPaymentRequest
+  | BitcoinPaymentRequest
+  | Bolt11PaymentRequest
+  | Bip21PaymentRequest
+  | LnurlPaymentRequest
+  | LightningAddressPaymentRequest;
+
+export type PaymentRequestType = PaymentRequest["type"];
+
+export class PaymentRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentRequestError";
+  }
+}
+
+const SPARK_PREFIXES: Record<string, PaymentNetwork> = {
+  sp: "MAINNET",
+  spt: "TESTNET",
+  sprt: "REGTEST",
+  sps: "SIGNET",
+};
+
+const SEGWIT_PREFIXES: Record<string, PaymentNetwork> = {
+  bc: "MAINNET",
+  tb: "TESTNET",
+  bcrt: "REGTEST",
+};
+
+const BOLT11_PREFIXES: Record<string, PaymentNetwork> = {
+  bc: "MAINNET",
+  tb: "TESTNET",
+  tbs: "SIGNET",
+  bcrt: "REGTEST",
+};
+
+// Base58 version bytes. Regtest shares testnet's, so both are accepted there.
+const BASE58_VERSIONS: Record<
+  number,
+  { type: BitcoinAddressType; mainnet: boolean }
+> = {
+  0x00: { type: "p2pkh", mainnet: true },
+  0x05: { type: "p2sh", mainnet: true },
+  0x6f: { type: "p2pkh", mainnet: false },
+  0xc4: { type: "p2sh", mainnet: false },
+};
+
+const BASE58_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{25,35}$/;
+const DEFAULT_BOLT11_EXPIRY_SECONDS = 3600;
+const SATS_PER_BTC = 100_000_000;
+
+const base58check = createBase58check(sha256);
+
+function networkLabel(network: PaymentNetwork): string {
+  return network in NETWORK_LABELS
+    ? NETWORK_LABELS[network as WalletNetwork]
+    : network.charAt(0) + network.slice(1).toLowerCase();
+}
+
+function assertNetwork(
+  kind: string,
+  found: PaymentNetwork,
+  expected: WalletNetwork
+) {
+  if (found !== expected) {
+    throw new PaymentRequestError(
+      `This is a ${networkLabel(found)} ${kind}, but the wallet is on ${
+        NETWORK_LABELS[expected]
+      }.`
+    );
+  }
+}
+
+/**
+ * Mixed-case bech32 is invalid, everything else is compared lowercased.
+ */
+function normalizeBech32(input: string): string | null {
+  if (input !== input.toLowerCase() && input !== input.toUpperCase()) {
+    return null;
+  }
+  return input.toLowerCase();
+}
+
+function bech32Prefix(input: string): string | null {
+  const normalized = normalizeBech32(input);
+  const separator = normalized?.lastIndexOf("1") ?? -1;
+  return normalized && separator > 0 ? normalized.slice(0, separator) : null;
+}
+
+function stripScheme(input: string, scheme: string): string | null {
+  return input.toLowerCase().startsWith(`${scheme}:`)
+    ? input.slice(scheme.length + 1)
+    : null;
+}
+
+export function parseSparkAddress(
+  input: string,
+  network: WalletNetwork
+): SparkPaymentRequest {
+  const prefix = bech32Prefix(input);
+  const addressNetwork = prefix ? SPARK_PREFIXES[prefix] : undefined;
+  if (!addressNetwork) {
+    throw new PaymentRequestError("Not a Spark address.");
+  }
+  assertNetwork("Spark address", addressNetwork, network);
+
+  const address = input.toLowerCase();
+  try {
+    return {
+      type: "spark",
+      address,
+      identityPublicKey: decodeSparkAddress(address, network).identityPublicKey,
+    };
+  } catch {
+    throw new PaymentRequestError("Invalid Spark address checksum or payload.");
+  }
+}
+
+function parseSegwitAddress(
+  input: string,
+  network: WalletNetwork
+): BitcoinPaymentRequest {
+  const address = normalizeBech32(input);
+  const prefix = address && bech32Prefix(address);
+  const addressNetwork = prefix ? SEGWIT_PREFIXES[prefix] : undefined;
+  if (!address || !addressNetwork) {
+    throw new PaymentRequestError("Not a Bitcoin address.");
+  }
+
+  // Version 0 uses bech32 (BIP173), later versions bech32m (BIP350)
+  let version: number;
+  let program: Uint8Array;
+  try {
+    const decoded =
+      address[prefix!.length + 1] === "q"
+        ? bech32.decode(address as `${string}1${string}`)
+        : bech32m.decode(address as `${string}1${string}`);
+    version = decoded.words[0];
+    program = bech32.fromWords(decoded.words.slice(1));
+  } catch {
+    throw new PaymentRequestError("Invalid Bitcoin address checksum.");
+  }
+
+  let addressType: BitcoinAddressType;
+  if (version === 0 && program.length === 20) {
+    addressType = "p2wpkh";
+  } else if (version === 0 && program.length === 32) {
+    addressType = "p2wsh";
+  } else if (version === 1 && program.length === 32) {
+    addressType = "p2tr";
+  } else {
+    throw new PaymentRequestError("Unsupported Bitcoin address version.");
+  }
+
+  assertNetwork("Bitcoin address", addressNetwork, network);
+  return { type: "bitcoin", address, addressType };
+}
+
+function parseBase58Address(
+  input: string,
+  network: WalletNetwork
+): BitcoinPaymentRequest {
+  let payload: Uint8Array;
+  try {
+    payload = base58check.decode(input);
+  } catch {
+    throw new PaymentRequestError("Invalid Bitcoin address checksum.");
+  }
+
+  const version = BASE58_VERSIONS[payload[0]];
+  if (!version || payload.length !== 21) {
+    throw new PaymentRequestError("Not a Bitcoin address.");
+  }
+  if (version.mainnet !== (network === "MAINNET")) {
+    assertNetwork(
+      "Bitcoin address",
+      version.mainnet ? "MAINNET" : "TESTNET",
+      network
+    );
+  }
+  return { type: "bitcoin", address: input, addressType: version.type };
+}
+
+export function parseBitcoinAddress(
+  input: string,
+  network: WalletNetwork
+): BitcoinPaymentRequest {
+  const prefix = bech32Prefix(input);
+  if (prefix && prefix in SEGWIT_PREFIXES) {
+    return parseSegwitAddress(input, network);
+  }
+  if (BASE58_ADDRESS_REGEX.test(input)) {
+    return parseBase58Address(input, network);
+  }
+  throw new PaymentRequestError("Not a Bitcoin address.");
+}
+
+export function parseBolt11(
+  input: string,
+  network: WalletNetwork
+): Bolt11PaymentRequest {
+  const invoice = normalizeBech32(input);
+  if (!invoice?.startsWith("ln")) {
+    throw new PaymentRequestError("Not a Lightning invoice.");
+  }
+
+  let decoded: ReturnType<typeof decodeBolt11>;
+  try {
+    decoded = decodeBolt11(invoice);
+  } catch {
+    throw new PaymentRequestError("Invalid Lightning invoice.");
+  }
+
+  // light-bolt11-decoder leaves some tags out of its section types
+  const sections = decoded.sections as { name: string; value?: unknown }[];
+  const section = (name: string) =>
+    sections.find((entry) => entry.name === name)?.value;
+  const textSection = (name: string) => {
+    const value = section(name);
+    return typeof value === "string" ? value : undefined;
+  };
+
+  const coinNetwork = section("coin_network");
+  const invoiceNetwork =
+    coinNetwork && typeof coinNetwork === "object" && "bech32" in coinNetwork
+      ? BOLT11_PREFIXES[String(coinNetwork.bech32)]
+      : undefined;
+  if (!invoiceNetwork) {
+    throw new PaymentRequestError("Unsupported Lightning invoice network.");
+  }
+  assertNetwork("Lightning invoice", invoiceNetwork, network);
+
+  const paymentHash = textSection("payment_hash");
+  if (!paymentHash) {
+    throw new PaymentRequestError("Invalid Lightning invoice.");
+  }
+
+  const amountMsats = textSection("amount");
+  const timestamp = Number(section("timestamp"));
+  const expirySeconds =
+    Number(section("expiry")) || DEFAULT_BOLT11_EXPIRY_SECONDS;
+
+  return {
+    type: "bolt11",
+    invoice,
+    amountSats: amountMsats ? Math.floor(Number(amountMsats) / 1000) : 0,
+    description: textSection("description") ?? "",
+    descriptionHash: textSection("description_hash"),
+    paymentHash,
+    timestamp,
+    expirySeconds,
+    expiryDate: new Date((timestamp + expirySeconds) * 1000),
+  };
+}
+
+/**
+ * Converts a BIP21 `amount` (decimal BTC) to sats without float rounding.
+ */
+export function parseBtcAmount(amount: string): number {
+  const match = /^(\d+)(?:\.(\d{0,8}))?$/.exec(amount.trim());
+  if (!match) {
+    throw new PaymentRequestError(`Invalid amount "${amount}".`);
+  }
+  const sats =
+    Number(match[1]) * SATS_PER_BTC + Number((match[2] ?? "").padEnd(8, "0"));
+  if (!Number.isSafeInteger(sats) || sats <= 0) {
+    throw new PaymentRequestError(`Invalid amount "${amount}".`);
+  }
+  return sats;
+}
+
+// Decimal BTC with trailing zeros trimmed, e.g. 0.0015
+function formatBtcAmount(sats: number) {
+  const whole = Math.floor(sats / SATS_PER_BTC);
+  const fraction = String(sats % SATS_PER_BTC)
+    .padStart(8, "0")
+    .replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : String(whole);
+}
+
+/**
+ * Builds a BIP21 URI that any wallet can pay by the rail it supports.
+ */
+export function formatBip21Uri({
+  address,
+  amountSats,
+  label,
+  lightning,
+  spark,
+}: {
+  address: string;
+  amountSats?: number;
+  label?: string;
+  lightning?: string;
+  spark?: string;
+}) {
+  const params = [
+    amountSats ? `amount=${formatBtcAmount(amountSats)}` : null,
+    label ? `label=${encodeURIComponent(label)}` : null,
+    lightning ? `lightning=${lightning}` : null,
+    spark ? `spark=${spark}` : null,
+  ].filter(Boolean);
+  return params.length > 0
+    ? `bitcoin:${address}?${params.join("&")}`
+    : `bitcoin:${address}`;
+}
+
+function parseBip21(uri: string, network: WalletNetwork): Bip21PaymentRequest {
+  const queryIndex = uri.indexOf("?");
+  const addressPart = queryIndex === -1 ? uri : uri.slice(0, queryIndex);
+  const params = new URLSearchParams(
+    queryIndex === -1 ? "" : uri.slice(queryIndex + 1)
+  );
+
+  const request: Bip21PaymentRequest = { type: "bip21" };
+  if (addressPart) {
+    request.address = parseBitcoinAddress(addressPart, network);
+  }
+
+  for (const [key, value] of Array.from(params.entries())) {
+    switch (key.toLowerCase()) {
+      case "amount":
+        request.amountSats = parseBtcAmount(value);
+        break;
+      case "label":
+        request.label = value;
+        break;
+      case "message":
+        request.message = value;
+        break;
+      case "lightning":
+        request.lightning = parseBolt11(value, network);
+        break;
+      case "spark":
+        request.spark = parseSparkAddress(value, network);
+        break;
+      default:
+        // BIP21: unknown required params make the URI unusable
+        if (key.toLowerCase().startsWith("req-")) {
+          throw new PaymentRequestError(
+            `Unsupported required parameter "${key}".`
+          );
+        }
+    }
+  }
+
+  if (!request.address && !request.lightning && !request.spark) {
+    throw new PaymentRequestError("The Bitcoin URI has no destination.");
+  }
+  return request;
+}
+
+/**
+ * The cheapest way to pay a BIP21 URI: a free Spark transfer, then a
+ * Lightning invoice that can still be paid, then on-chain.
+ */
+export function getBip21Destination(
+  request: Bip21PaymentRequest,
+  now = new Date()
+): SparkPaymentRequest | Bolt11PaymentRequest | BitcoinPaymentRequest {
+  if (request.spark) return request.spark;
+  const { lightning } = request;
+  // A zero-amount invoice would need the amount typed in again, an expired
+  // one can't be paid
+  const isLightningPayable =
+    lightning && lightning.amountSats > 0 && lightning.expiryDate > now;
+  if (lightning && (isLightningPayable || !request.address)) {
+    return lightning;
+  }
+  return request.address!;
+}
+
+function parseLightning(
+  input: string,
+  network: WalletNetwork
+): Bolt11PaymentRequest | LnurlPaymentRequest | LightningAddressPaymentRequest {
+  const lower = input.toLowerCase();
+  if (lower.startsWith("lnurl1")) {
+    return { type: "lnurl", lnurl: lower, url: decodeLnurl(input) };
+  }
+  if (/^(lnurl[pwc]|keyauth):\/\//.test(lower)) {
+    return { type: "lnurl", lnurl: input, url: getLnurlEndpoint(input) };
+  }
+  if (isLightningAddress(input)) {
+    return { type: "lightning_address", address: lower };
+  }
+  return parseBolt11(input, network);
+}
+
+/**
+ * Parses a pasted or scanned payment request for the given wallet network.
+ * Throws a PaymentRequestError describing why the input can't be paid.
+ */
+export function parsePaymentRequest(
+  input: string,
+  network: WalletNetwork
+): PaymentRequest {
+  const value = input.trim();
+  if (!value) {
+    throw new PaymentRequestError("Enter an address or invoice.");
+  }
+
+  const bitcoinUri = stripScheme(value, "bitcoin");
+  if (bitcoinUri !== null) {
+    return parseBip21(bitcoinUri, network);
+  }
+
+  const lightningUri = stripScheme(value, "lightning");
+  if (lightningUri !== null) {
+    return parseLightning(lightningUri, network);
+  }
+
+  const sparkUri = stripScheme(value, "spark");
+  if (sparkUri !== null) {
+    return parseSparkAddress(sparkUri, network);
+  }
+
+  const prefix = bech32Prefix(value);
+  if (prefix && prefix in SPARK_PREFIXES) {
+    return parseSparkAddress(value, network);
+  }
+  if (prefix?.startsWith("ln") || /^(lnurl[pwc]|keyauth):\/\//i.test(value)) {
+    return parseLightning(value, network);
+  }
+  if (isLightningAddress(value)) {
+    return { type: "lightning_address", address: value.toLowerCase() };
+  }
+  if (
+    (prefix && prefix in SEGWIT_PREFIXES) ||
+    BASE58_ADDRESS_REGEX.test(value)
+  ) {
+    return parseBitcoinAddress(value, network);
+  }
+  throw new PaymentRequestError(
+    "Not a Bitcoin or Spark address, Lightning invoice, LNURL or Lightning Address."
+  );
+}
+
+/**
+ * Non-throwing variant for live input validation.
+ */
+export function tryParsePaymentRequest(
+  input: string,
+  network: WalletNetwork
+): PaymentRequest | null {
+  try {
+    return parsePaymentRequest(input, network);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  LightningSendRequestStatus,
+  SparkCoopExitRequestStatus,
+  type CoopExitRequest,
+  type LightningSendRequest,
+  type WalletTransfer,
+} from "@buildonspark/spark-sdk/types";
+
+/**
+ * Receipts returned by the wallet store's send actions.
+ * `transferId` is the Spark transfer behind the payment, the id the
+ * explorer and the transaction detail page know it by.
+ */
+export interface SparkSendResult {
+  type: "spark";
+  transferId: string;
+  status: WalletTransfer["status"];
+}
+
+export interface TokenSendResult {
+  type: "token";
+  txId: string;
+}
+
+export interface LightningSendResult {
+  type: "lightning";
+  requestId: string;
+  transferId?: string;
+  paymentHash: string;
+  paymentPreimage?: string; // Set once the payment has settled
+  status: LightningSendRequestStatus;
+}
+
+export interface WithdrawalSendResult {
+  type: "bitcoin";
+  requestId: string;
+  transferId?: string;
+  txid?: string; // On-chain transaction paying the withdrawal address
+  status: SparkCoopExitRequestStatus;
+}
+
+export type SendResult =
+  | SparkSendResult
+  | TokenSendResult
+  | LightningSendResult
+  | WithdrawalSendResult;
+
+export function toSparkSendResult(transfer: WalletTransfer): SparkSendResult {
+  return { type: "spark", transferId: transfer.id, status: transfer.status };
+}
+
+export function toLightningSendResult(
+  request: LightningSendRequest,
+  paymentHash: string
+): LightningSendResult {
+  return {
+    type: "lightning",
+    requestId: request.id,
+    transferId: request.transfer?.sparkId,
+    paymentHash,
+    paymentPreimage: request.paymentPreimage,
+    status: request.status,
+  };
+}
+
+export function toWithdrawalSendResult(
+  request: CoopExitRequest
+): WithdrawalSendResult {
+  return {
+    type: "bitcoin",
+    requestId: request.id,
+    transferId: request.transfer?.sparkId,
+    txid: request.coopExitTxid || undefined,
+    status: request.status,
+  };
+}
+
+/**
+ * Id to open on /home/tx/[id], if the send produced one yet.
+ */
+export function getSendResultTxId(result: SendResult): string | undefined {
+  switch (result.type) {
+    case "spark":
+      return result.transferId;
+    case "token":
+      return result.txId;
+    case "lightning":
+    case "bitcoin":
+      return result.transferId;
+  }
+}
+
+const SETTLED_LIGHTNING_STATUSES: LightningSendRequestStatus[] = [
+  LightningSendRequestStatus.LIGHTNING_PAYMENT_FAILED,
+  LightningSendRequestStatus.PREIMAGE_PROVIDED,
+  LightningSendRequestStatus.TRANSFER_COMPLETED,
+];
+
+/**
+ * True while a Lightning payment is still in flight and worth polling.
+ */
+export function isLightningSendPending(result: LightningSendResult) {
+  return (
+    !result.paymentPreimage &&
+    !SETTLED_LIGHTNING_STATUSES.includes(result.status)
+  );
+}
+
+export function formatSendStatus(status: string) {
+  return status
+    .replace(/_/g, " ")
+    .toLowerCase()
+    .replace(/^\w/, (c) => c.toUpperCase());
+}
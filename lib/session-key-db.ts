@@ -0,0 +1,54 @@
+import { openDB, type DBSchema, type IDBPDatabase } from "idb";
+
+interface SessionKeyDbSchema extends DBSchema {
+  keys: {
+    key: string;
+    value: CryptoKey;
+  };
+}
+
+const DB_NAME = "wallet-session";
+const DB_VERSION = 1;
+const SESSION_KEY_ID = "session";
+
+let connection: Promise<IDBPDatabase<SessionKeyDbSchema>> | null = null;
+
+function openSessionKeyDb() {
+  if (!connection) {
+    connection = openDB<SessionKeyDbSchema>(DB_NAME, DB_VERSION, {
+      upgrade(db) {
+        db.createObjectStore("keys");
+      },
+      terminated() {
+        connection = null;
+      },
+    });
+  }
+  return connection;
+}
+
+/**
+ * Creates the key the unlocked mnemonic is encrypted with for the session,
+ * replacing the previous one. It's non-extractable: IndexedDB keeps it
+ * across reloads, but its bytes can't be read back out.
+ */
+export async function createSessionKey(): Promise<CryptoKey> {
+  const key = await window.crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+  const db = await openSessionKeyDb();
+  await db.put("keys", key, SESSION_KEY_ID);
+  return key;
+}
+
+export async function getSessionKey(): Promise<CryptoKey | undefined> {
+  const db = await openSessionKeyDb();
+  return db.get("keys", SESSION_KEY_ID);
+}
+
+export async function deleteSessionKey() {
+  const db = await openSessionKeyDb();
+  await db.delete("keys", SESSION_KEY_ID);
+}
@@ -0,0 +1,24 @@
+/**
+ * When an unlocked wallet locks itself again. Null turns the inactivity
+ * lock off, the session length always applies.
+ */
+export interface SessionPolicy {
+  sessionMinutes: number; // From unlock, however active the wallet is
+  inactivityMinutes: number | null;
+  lockOnHide: boolean; // Lock as soon as the tab is hidden
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  sessionMinutes: 30,
+  inactivityMinutes: 5,
+  lockOnHide: false,
+};
+
+export const SESSION_LENGTH_OPTIONS = [15, 30, 60, 240] as const;
+
+export const INACTIVITY_LOCK_OPTIONS = [null, 1, 5, 15] as const;
+
+export function formatMinutes(minutes: number | null) {
+  if (minutes === null) return "Off";
+  return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+}
@@ -0,0 +1,51 @@
+/**
+ * Formats a token amount given in base units using the token's decimals.
+ * Pass `grouping: false` for a plain value that parseTokenAmount accepts.
+ */
+export function formatTokenAmount(
+  amount: bigint,
+  decimals: number,
+  { grouping = true }: { grouping?: boolean } = {}
+): string {
+  const negative = amount < BigInt(0);
+  const absolute = negative ? -amount : amount;
+  const formatWhole = (value: bigint) =>
+    grouping ? value.toLocaleString() : value.toString();
+  if (decimals <= 0) {
+    return `${negative ? "-" : ""}${formatWhole(absolute)}`;
+  }
+
+  const divisor = BigInt(10) ** BigInt(decimals);
+  const whole = absolute / divisor;
+  const fraction = (absolute % divisor)
+    .toString()
+    .padStart(decimals, "0")
+    .replace(/0+$/, "");
+
+  return `${negative ? "-" : ""}${formatWhole(whole)}${
+    fraction ? `.${fraction}` : ""
+  }`;
+}
+
+/**
+ * Parses a human readable token amount (e.g. "12.5") into base units.
+ * Extra fractional digits beyond the token's decimals are truncated.
+ */
+export function parseTokenAmount(value: string, decimals: number): bigint {
+  const trimmed = value.trim();
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === "" || trimmed === ".") {
+    return BigInt(0);
+  }
+
+  const [wholePart, fractionPart = ""] = trimmed.split(".");
+  const fraction = fractionPart.slice(0, decimals).padEnd(decimals, "0");
+  return BigInt(`${wholePart || "0"}${fraction}` || "0");
+}
+
+/**
+ * Shortens a token public key for display when no ticker is known
+ */
+export function shortTokenPubkey(pubkey: string): string {
+  if (pubkey.length <= 12) return pubkey;
+  return `${pubkey.slice(0, 6)}...${pubkey.slice(-4)}`;
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useMemo } from "react";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { buildContactIndex } from "@/lib/contacts";
+import { persistPerNetwork } from "@/lib/network-storage";
+import useWalletStore from "@/lib/use-wallet-store";
+import type { Contact, ContactInput } from "@/types/contacts";
+
+interface ContactsState {
+  contacts: Contact[];
+  addContact: (contact: ContactInput) => Contact;
+  updateContact: (id: string, contact: ContactInput) => void;
+  deleteContact: (id: string) => void;
+}
+
+// Sorted by name so every list shows them in the same order
+function sortContacts(contacts: Contact[]) {
+  return [...contacts].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: "base" })
+  );
+}
+
+export const useContactsStore = create<ContactsState>()(
+  persist(
+    (set) => ({
+      contacts: [],
+
+      addContact: (input: ContactInput) => {
+        const contact: Contact = {
+          ...input,
+          id: crypto.randomUUID(),
+          createdAt: new Date().toISOString(),
+        };
+        set((state) => ({
+          contacts: sortContacts([...state.contacts, contact]),
+        }));
+        return contact;
+      },
+      updateContact: (id: string, input: ContactInput) => {
+        set((state) => ({
+          contacts: sortContacts(
+            state.contacts.map((contact) =>
+              contact.id === id ? { ...contact, ...input } : contact
+            )
+          ),
+        }));
+      },
+      deleteContact: (id: string) => {
+        set((state) => ({
+          contacts: state.contacts.filter((contact) => contact.id !== id),
+        }));
+      },
+    }),
+    {
+      name: "contacts-storage",
+      // A network without stored contacts starts empty
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        contacts: [],
+        ...(persistedState as Partial<ContactsState>),
+      }),
+    }
+  )
+);
+
+persistPerNetwork(useContactsStore, "contacts-storage");
+
+/**
+ * Contact lookup, with addresses parsed for the wallet's current network.
+ */
+export function useContactIndex() {
+  const contacts = useContactsStore((state) => state.contacts);
+  const network = useWalletStore((state) => state.initWalletNetwork);
+  return useMemo(
+    () => buildContactIndex(contacts, network),
+    [contacts, network]
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Whole seconds left until the deadline, ticking every second. Zero once
+ * it has passed, null without a deadline.
+ */
+export function useCountdown(deadline?: string | Date | null) {
+  const deadlineMs = deadline ? new Date(deadline).getTime() : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (deadlineMs === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= deadlineMs) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [deadlineMs]);
+
+  if (deadlineMs === null) return null;
+  return Math.max(0, Math.ceil((deadlineMs - now) / 1000));
+}
+
+// "2d 4h", "1:05:09" or "4:59"
+export function formatCountdown(seconds: number) {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  const mmss = `${String(minutes).padStart(hours > 0 ? 2 : 1, "0")}:${String(
+    secs
+  ).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
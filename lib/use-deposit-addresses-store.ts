@@ -0,0 +1,163 @@
+"use client";
+
+import { useMemo } from "react";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { HistoryScope } from "@/lib/history-db";
+import { persistPerNetwork } from "@/lib/network-storage";
+import useWalletStore from "@/lib/use-wallet-store";
+import type { Deposit, DepositAddress } from "@/types/deposits";
+
+interface DepositAddressesState {
+  addresses: DepositAddress[]; // Every wallet on the network, newest first
+  addAddresses: (
+    scope: HistoryScope,
+    addresses: string[],
+    isStatic?: boolean
+  ) => void;
+  updateAddress: (
+    address: string,
+    update: Partial<
+      Pick<DepositAddress, "status" | "amountSats" | "txid" | "checkedAt">
+    >
+  ) => void;
+  setRetired: (address: string, isRetired: boolean) => void;
+  deposits: Deposit[]; // Every wallet on the network, newest first
+  putDeposit: (deposit: Deposit) => void;
+}
+
+// The store only holds the current network, see persistPerNetwork
+function isInScope(
+  entry: Pick<DepositAddress, "identityPublicKey">,
+  scope: Pick<HistoryScope, "identityPublicKey">
+) {
+  return entry.identityPublicKey === scope.identityPublicKey;
+}
+
+/**
+ * The wallet's deposit addresses, newest first, outside of React.
+ */
+export function getDepositAddresses(scope: HistoryScope) {
+  return useDepositAddressesStore
+    .getState()
+    .addresses.filter((address) => isInScope(address, scope));
+}
+
+/**
+ * The wallet's deposits, newest first, outside of React.
+ */
+export function getDeposits(scope: HistoryScope) {
+  return useDepositAddressesStore
+    .getState()
+    .deposits.filter((deposit) => isInScope(deposit, scope));
+}
+
+export const useDepositAddressesStore = create<DepositAddressesState>()(
+  persist(
+    (set) => ({
+      addresses: [],
+
+      // Already known addresses are left as they are
+      addAddresses: (
+        scope: HistoryScope,
+        addresses: string[],
+        isStatic = false
+      ) => {
+        set((state) => {
+          const known = new Set(state.addresses.map((entry) => entry.address));
+          const createdAt = new Date().toISOString();
+          const added: DepositAddress[] = addresses
+            .filter((address) => !known.has(address))
+            .map((address) => ({
+              address,
+              identityPublicKey: scope.identityPublicKey,
+              ...(isStatic && { isStatic }),
+              status: "unused",
+              createdAt,
+            }));
+          return added.length > 0
+            ? { addresses: [...added, ...state.addresses] }
+            : state;
+        });
+      },
+      updateAddress: (address, update) => {
+        set((state) => ({
+          addresses: state.addresses.map((entry) =>
+            entry.address === address ? { ...entry, ...update } : entry
+          ),
+        }));
+      },
+      setRetired: (address: string, isRetired: boolean) => {
+        set((state) => ({
+          addresses: state.addresses.map((entry) => {
+            if (entry.address !== address) return entry;
+            const updated = { ...entry };
+            delete updated.retiredAt;
+            return isRetired
+              ? { ...updated, retiredAt: new Date().toISOString() }
+              : updated;
+          }),
+        }));
+      },
+      deposits: [],
+
+      // Replaces the stored deposit with the same id, or adds it
+      putDeposit: (deposit: Deposit) => {
+        set((state) => {
+          const isKnown = state.deposits.some(
+            (entry) => entry.id === deposit.id
+          );
+          return {
+            deposits: isKnown
+              ? state.deposits.map((entry) =>
+                  entry.id === deposit.id ? deposit : entry
+                )
+              : [deposit, ...state.deposits],
+          };
+        });
+      },
+    }),
+    {
+      name: "deposit-addresses-storage",
+      // A network without stored deposits starts empty
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        addresses: [],
+        deposits: [],
+        ...(persistedState as Partial<DepositAddressesState>),
+      }),
+    }
+  )
+);
+
+persistPerNetwork(useDepositAddressesStore, "deposit-addresses-storage");
+
+/**
+ * Deposit addresses of the loaded wallet, newest first.
+ */
+export function useDepositAddresses() {
+  const addresses = useDepositAddressesStore((state) => state.addresses);
+  const identityPublicKey = useWalletStore((state) => state.pubkey);
+  return useMemo(
+    () =>
+      addresses.filter((address) => isInScope(address, { identityPublicKey })),
+    [addresses, identityPublicKey]
+  );
+}
+
+/**
+ * Deposits of the loaded wallet that haven't been claimed yet.
+ */
+export function usePendingDeposits() {
+  const deposits = useDepositAddressesStore((state) => state.deposits);
+  const identityPublicKey = useWalletStore((state) => state.pubkey);
+  return useMemo(
+    () =>
+      deposits.filter(
+        (deposit) =>
+          deposit.status !== "claimed" &&
+          isInScope(deposit, { identityPublicKey })
+      ),
+    [deposits, identityPublicKey]
+  );
+}
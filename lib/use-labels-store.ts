@@ -0,0 +1,58 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { persistPerNetwork } from "@/lib/network-storage";
+
+type LabelMap = Record<string, string>;
+
+interface LabelsState {
+  addressLabels: LabelMap; // Bitcoin address -> label
+  pubkeyLabels: LabelMap; // Spark identity public key -> label
+  setAddressLabel: (address: string, label: string) => void;
+  setPubkeyLabel: (pubkey: string, label: string) => void;
+}
+
+// An empty label removes the entry
+function withLabel(labels: LabelMap, key: string, label: string): LabelMap {
+  const updated = { ...labels };
+  delete updated[key];
+  if (label.trim()) updated[key] = label.trim();
+  return updated;
+}
+
+export const useLabelsStore = create<LabelsState>()(
+  persist(
+    (set) => ({
+      addressLabels: {},
+      pubkeyLabels: {},
+
+      setAddressLabel: (address: string, label: string) => {
+        set((state) => ({
+          addressLabels: withLabel(state.addressLabels, address, label),
+        }));
+      },
+      setPubkeyLabel: (pubkey: string, label: string) => {
+        set((state) => ({
+          pubkeyLabels: withLabel(
+            state.pubkeyLabels,
+            pubkey.toLowerCase(),
+            label
+          ),
+        }));
+      },
+    }),
+    {
+      name: "labels-storage",
+      // A network without stored labels starts empty
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        addressLabels: {},
+        pubkeyLabels: {},
+        ...(persistedState as Partial<LabelsState>),
+      }),
+    }
+  )
+);
+
+persistPerNetwork(useLabelsStore, "labels-storage");
@@ -1,24 +1,58 @@
 "use client";
 
-import { decryptMnemonic, encryptMnemonic } from "@/lib/crypto";
+import {
+  decryptMnemonic,
+  decryptWithKey,
+  encryptMnemonic,
+  encryptWithKey,
+} from "@/lib/crypto";
+import {
+  createSessionKey,
+  deleteSessionKey,
+  getSessionKey,
+} from "@/lib/session-key-db";
+import { useSettingsStore } from "@/lib/use-settings-store";
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 
+// Older versions kept the decrypted mnemonic or seed here for the tab
+const LEGACY_SESSION_STORAGE_KEYS = [
+  "spark_wallet_mnemonic",
+  "spark_wallet_seed",
+  "pending_mnemonic",
+];
+
 interface Session {
-  sessionKey: string | null;
   expiresAt: number | null;
 }
 
 interface MnemonicState {
   encryptedMnemonic: string | null;
+  // Encrypted with the non-extractable session key in IndexedDB
   sessionEncryptedMnemonic: string | null;
   session: Session;
+  // Entered or generated on /create, waiting for a password. Memory only
+  pendingMnemonic: string | null;
   saveEncryptedMnemonic: (mnemonic: string, password: string) => Promise<void>;
   getDecryptedMnemonic: (password: string) => Promise<string>;
   startSession: (password: string) => Promise<void>;
   endSession: () => void;
   getSessionMnemonic: () => Promise<string | null>;
   clearEncryptedMnemonic: () => void;
+  setPendingMnemonic: (mnemonic: string | null) => void;
+}
+
+function discardSessionKey() {
+  deleteSessionKey().catch((error) =>
+    console.error("Failed to delete the session key.", error)
+  );
+}
+
+/**
+ * Removes secrets older versions wrote to sessionStorage in plaintext.
+ */
+export function clearLegacySessionSecrets() {
+  LEGACY_SESSION_STORAGE_KEYS.forEach((key) => sessionStorage.removeItem(key));
 }
 
 export const useMnemonicStore = create<MnemonicState>()(
@@ -27,9 +61,9 @@ export const useMnemonicStore = create<MnemonicState>()(
       encryptedMnemonic: null,
       sessionEncryptedMnemonic: null,
       session: {
-        sessionKey: null,
         expiresAt: null,
       },
+      pendingMnemonic: null,
 
       saveEncryptedMnemonic: async (mnemonic: string, password: string) => {
         const encrypted = await encryptMnemonic(mnemonic, password);
@@ -46,16 +80,16 @@ export const useMnemonicStore = create<MnemonicState>()(
 
       startSession: async (password: string) => {
         const mnemonic = await get().getDecryptedMnemonic(password);
-        const sessionKey = crypto.randomUUID();
-        const sessionEncryptedMnemonic = await encryptMnemonic(
+        const sessionKey = await createSessionKey();
+        const sessionEncryptedMnemonic = await encryptWithKey(
           mnemonic,
           sessionKey
         );
-        const expiresAt = Date.now() + 30 * 60 * 1000;
+        const { sessionMinutes } = useSettingsStore.getState().sessionPolicy;
+        const expiresAt = Date.now() + sessionMinutes * 60 * 1000;
         set({
           sessionEncryptedMnemonic,
           session: {
-            sessionKey,
             expiresAt,
           },
         });
@@ -64,24 +98,33 @@ export const useMnemonicStore = create<MnemonicState>()(
       getSessionMnemonic: async () => {
         const { session, sessionEncryptedMnemonic } = get();
         if (
-          session.sessionKey &&
-          session.expiresAt &&
-          Date.now() < session.expiresAt &&
-          sessionEncryptedMnemonic
+          !session.expiresAt ||
+          Date.now() >= session.expiresAt ||
+          !sessionEncryptedMnemonic
         ) {
-          return decryptMnemonic(sessionEncryptedMnemonic, session.sessionKey);
+          return null;
+        }
+        const sessionKey = await getSessionKey();
+        if (!sessionKey) {
+          return null;
+        }
+        try {
+          return await decryptWithKey(sessionEncryptedMnemonic, sessionKey);
+        } catch (error) {
+          // A key from another session, e.g. replaced in a second tab
+          console.warn("getSessionMnemonic: Failed to decrypt.", error);
+          return null;
         }
-        return null;
       },
 
       endSession: () => {
         set({
           session: {
-            sessionKey: null,
             expiresAt: null,
           },
           sessionEncryptedMnemonic: null,
         });
+        discardSessionKey();
       },
 
       clearEncryptedMnemonic: () => {
@@ -89,14 +132,38 @@ export const useMnemonicStore = create<MnemonicState>()(
           encryptedMnemonic: null,
           sessionEncryptedMnemonic: null,
           session: {
-            sessionKey: null,
             expiresAt: null,
           },
+          pendingMnemonic: null,
         });
+        discardSessionKey();
+      },
+
+      setPendingMnemonic: (mnemonic: string | null) => {
+        set({ pendingMnemonic: mnemonic });
       },
     }),
     {
       name: "mnemonic-storage",
+      version: 1,
+      partialize: (state) => ({
+        encryptedMnemonic: state.encryptedMnemonic,
+        sessionEncryptedMnemonic: state.sessionEncryptedMnemonic,
+        session: state.session,
+      }),
+      // Version 0 stored the session key next to the ciphertext it opens.
+      // Both are dropped, the next unlock starts a proper session.
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<MnemonicState>;
+        if (version < 1) {
+          return {
+            encryptedMnemonic: state.encryptedMnemonic ?? null,
+            sessionEncryptedMnemonic: null,
+            session: { expiresAt: null },
+          } as MnemonicState;
+        }
+        return state as MnemonicState;
+      },
     }
   )
 );
@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { formatMinutes } from "@/lib/session-policy";
+import { useMnemonicStore } from "@/lib/use-mnemonic-store";
+import { useSettingsStore } from "@/lib/use-settings-store";
+import useWalletStore from "@/lib/use-wallet-store";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll", "touchstart"];
+const CHECK_INTERVAL_MS = 1000;
+
+/**
+ * Locks the unlocked wallet when its session expires, after the configured
+ * inactivity and, if enabled, when the tab is hidden. Locking sends the
+ * user to /unlock.
+ */
+export function useSessionGuard() {
+  const router = useRouter();
+  const isUnlocked = useWalletStore(
+    (state) => state.initializationStatus === "success"
+  );
+  const lockWallet = useWalletStore((state) => state.lockWallet);
+  const expiresAt = useMnemonicStore((state) => state.session.expiresAt);
+  const { inactivityMinutes, lockOnHide } = useSettingsStore(
+    (state) => state.sessionPolicy
+  );
+
+  useEffect(() => {
+    if (!isUnlocked) return;
+
+    let lastActivityAt = Date.now();
+    const lock = (title: string, description: string) => {
+      lockWallet();
+      toast.info(title, { description });
+      router.replace("/unlock");
+    };
+    const handleActivity = () => {
+      lastActivityAt = Date.now();
+    };
+    const handleVisibilityChange = () => {
+      if (lockOnHide && document.visibilityState === "hidden") {
+        lock("Wallet Locked", "The wallet locks when you leave the tab.");
+      }
+    };
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      if (!expiresAt || now >= expiresAt) {
+        lock("Session Expired", "Enter your password to unlock again.");
+      } else if (
+        inactivityMinutes !== null &&
+        now - lastActivityAt >= inactivityMinutes * 60 * 1000
+      ) {
+        lock(
+          "Wallet Locked",
+          `Locked after ${formatMinutes(inactivityMinutes)} of inactivity.`
+        );
+      }
+    }, CHECK_INTERVAL_MS);
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [
+    isUnlocked,
+    expiresAt,
+    inactivityMinutes,
+    lockOnHide,
+    lockWallet,
+    router,
+  ]);
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  DEFAULT_LIGHTNING_FEE_POLICY,
+  type LightningFeePolicy,
+} from "@/lib/fee-policy";
+import {
+  DEFAULT_SESSION_POLICY,
+  type SessionPolicy,
+} from "@/lib/session-policy";
+
+interface SettingsState {
+  lightningFeePolicy: LightningFeePolicy;
+  explorerEnrichment: boolean; // Look transactions up on the explorer API too
+  sessionPolicy: SessionPolicy;
+  setLightningFeePolicy: (policy: LightningFeePolicy) => void;
+  setExplorerEnrichment: (enabled: boolean) => void;
+  setSessionPolicy: (policy: Partial<SessionPolicy>) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      lightningFeePolicy: DEFAULT_LIGHTNING_FEE_POLICY,
+      explorerEnrichment: false,
+      sessionPolicy: DEFAULT_SESSION_POLICY,
+
+      setLightningFeePolicy: (policy: LightningFeePolicy) => {
+        set({ lightningFeePolicy: policy });
+      },
+      setExplorerEnrichment: (enabled: boolean) => {
+        set({ explorerEnrichment: enabled });
+      },
+      setSessionPolicy: (policy: Partial<SessionPolicy>) => {
+        set((state) => ({
+          sessionPolicy: { ...state.sessionPolicy, ...policy },
+        }));
+      },
+    }),
+    {
+      name: "settings-storage",
+    }
+  )
+);
@@ -1,15 +1,18 @@
 "use client";
-import { SparkWallet } from "@buildonspark/spark-sdk";
 import {
-  ExitSpeed,
-  type LightningReceiveRequest,
-  type Transfer,
+  DefaultSparkSigner,
+  SparkWallet,
+  type Bech32mTokenIdentifier,
+  type SparkSigner,
+} from "@buildonspark/spark-sdk";
+import type {
+  LightningReceiveRequest,
+  LightningSendRequest,
+  WalletTransfer,
 } from "@buildonspark/spark-sdk/types";
-import type { NetworkType } from "@buildonspark/spark-sdk/utils";
-import { getLatestDepositTxId } from "@buildonspark/spark-sdk/utils";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { create } from "zustand";
-import { devtools } from "zustand/middleware";
+import { devtools, persist } from "zustand/middleware";
 import {
   type Currency,
   DEFAULT_BTC_CURRENCY,
@@ -17,9 +20,53 @@ import {
   PERMANENT_CURRENCIES,
   getCurrency,
 } from "../types/currency";
-import { useMnemonicStore } from "@/lib/use-mnemonic-store";
+import {
+  clearLegacySessionSecrets,
+  useMnemonicStore,
+} from "@/lib/use-mnemonic-store";
+import { DEFAULT_NETWORK, type WalletNetwork } from "@/lib/network";
+import { parseBolt11 } from "@/lib/payment-request";
+import { useSettingsStore } from "@/lib/use-settings-store";
+import { FeeCapExceededError, getLightningFeeCap } from "@/lib/fee-policy";
+import {
+  DEFAULT_WITHDRAWAL_SPEED,
+  toWithdrawalFeeQuotes,
+  type WithdrawalFeeQuotes,
+  type WithdrawalSpeed,
+} from "@/lib/withdrawal-fees";
+import {
+  toLightningSendResult,
+  toSparkSendResult,
+  toWithdrawalSendResult,
+  type LightningSendResult,
+  type SparkSendResult,
+  type TokenSendResult,
+  type WithdrawalSendResult,
+} from "@/lib/send-result";
+import {
+  fromCoopExitRequest,
+  fromLightningReceiveRequest,
+  fromLightningSendRequest,
+  fromWalletTransfer,
+  recordTransactions,
+  refreshInvoice,
+} from "@/lib/history-sync";
+import { clearAllHistory, type HistoryScope } from "@/lib/history-db";
+import { retryDepositClaim, syncDepositAddresses } from "@/lib/deposit-sync";
+import { getLeafExits } from "@/lib/emergency-exit";
+import { getLeafSummaries, previewLeafSwap } from "@/lib/leaves";
+import {
+  getDepositAddresses,
+  useDepositAddressesStore,
+} from "@/lib/use-deposit-addresses-store";
+// Imported so their per-network storage is registered before a reset
+import "@/lib/use-contacts-store";
+import "@/lib/use-labels-store";
+import { clearNetworkStorage, loadNetworkStorage } from "@/lib/network-storage";
+import type { HistoryTransaction } from "@/types/history";
+import type { LeafExit, LeafSummary, LeafSwapPreview } from "@/types/leaves";
 import { toast } from "sonner";
-import { useEffect } from "react";
+import { useCallback, useEffect } from "react";
 
 // Add a status type
 type InitializationStatus =
@@ -30,14 +77,26 @@ type InitializationStatus =
   | "no_wallet" // No mnemonic found during load attempt
   | "error"; // General error during init
 
-const DEFAULT_NETWORK: NetworkType = "MAINNET";
+interface PayLightningInvoiceOptions {
+  amountSats?: number; // Paid on zero-amount invoices, otherwise checked against the invoice
+  maxFeeSats?: number; // Per-payment override of the fee policy cap
+  lightningAddress?: string; // Recorded as the counterparty in history
+}
+
 const STORAGE_KEY = "flashnet_token";
 
+// Keyed by issuer public key, the way the explorer identifies tokens. The
+// SDK's bech32m identifier is kept for sending.
+type TokenBalances = Map<
+  string,
+  { balance: bigint; tokenIdentifier: Bech32mTokenIdentifier }
+>;
+
 interface WalletState {
   wallet?: SparkWallet;
   sparkAddress: string;
   pubkey: string;
-  initWalletNetwork: NetworkType;
+  initWalletNetwork: WalletNetwork;
   mnemonic: string | null;
   activeInputCurrency: Currency;
   activeAsset: Currency;
@@ -45,20 +104,20 @@ interface WalletState {
   isInitialized: boolean;
   initializationStatus: InitializationStatus;
   initializationError: string | null;
-  onchainDepositAddresses: Set<string>;
   btcBalance: number | undefined;
-  tokenBalances: Map<string, { balance: bigint }>;
+  tokenBalances: TokenBalances;
 }
 
 interface QueryTransfersResponse {
-  transfers: Transfer[];
+  transfers: WalletTransfer[];
   offset: number;
 }
 
 interface WalletActions {
   initWallet: (mnemonic: string) => Promise<void>;
   initWalletFromSeed: (seed: string) => Promise<void>;
-  setInitWalletNetwork: (network: NetworkType) => void;
+  setInitWalletNetwork: (network: WalletNetwork) => void;
+  switchNetwork: (network: WalletNetwork) => Promise<void>;
   setWallet: (wallet: SparkWallet) => void;
   setSparkAddress: (sparkAddress: string) => void;
   setPubkey: (pubkey: string) => void;
@@ -68,399 +127,664 @@ interface WalletActions {
     offset: number
   ) => Promise<QueryTransfersResponse>;
   getBitcoinDepositAddress: () => Promise<string>;
+  generateDepositAddress: () => Promise<string>;
+  getStaticDepositAddress: () => Promise<string>;
+  retryDepositClaim: (depositId: string) => Promise<void>;
+  getLeafExits: () => Promise<LeafExit[]>;
+  getLeafSummaries: () => Promise<LeafSummary[]>;
+  previewLeafSwap: (leafIds: string[]) => Promise<LeafSwapPreview>;
   createLightningInvoice: (
     amount: number,
-    memo: string
+    memo?: string,
+    expirySeconds?: number // SDK default when omitted
   ) => Promise<LightningReceiveRequest>;
-  sendTransfer: (amount: number, recipient: string) => Promise<void>;
-  payLightningInvoice: (invoice: string) => Promise<void>;
+  getInvoiceStatus: (requestId: string) => Promise<HistoryTransaction>;
+  sendTransfer: (amount: number, recipient: string) => Promise<SparkSendResult>;
+  payLightningInvoice: (
+    invoice: string,
+    options?: PayLightningInvoiceOptions
+  ) => Promise<LightningSendResult>;
+  getLightningSendResult: (requestId: string) => Promise<LightningSendResult>;
   transferTokens: (
     tokenPublicKey: string,
     tokenAmount: bigint,
     receiverSparkAddress: string
-  ) => Promise<void>;
+  ) => Promise<TokenSendResult>;
   setActiveAsset: (asset: Currency) => void;
   updateAssets: (assets: Map<string, Currency>) => void;
   setActiveInputCurrency: (currency: Currency) => void;
-  withdrawOnchain: (address: string, amount: number) => Promise<void>;
+  withdrawOnchain: (
+    address: string,
+    amount: number,
+    exitSpeed?: WithdrawalSpeed
+  ) => Promise<WithdrawalSendResult>;
+  getWithdrawalFeeQuotes: (
+    address: string,
+    amount: number
+  ) => Promise<WithdrawalFeeQuotes>;
   loadStoredWallet: () => Promise<InitializationStatus>;
   resetWallet: () => void;
-  setOnchainDepositAddresses: (addresses: Set<string>) => void;
+  lockWallet: () => Promise<void>;
   setInitializationStatus: (
     status: InitializationStatus,
     error?: string | null
   ) => void;
-  getInvoiceFeeEstimate: (invoice: string) => Promise<number>;
-  setBalance: (
-    balance: number,
-    tokenBalances: Map<string, { balance: bigint }>
-  ) => void;
+  getInvoiceFeeEstimate: (
+    invoice: string,
+    amountSats?: number // Only for zero-amount invoices
+  ) => Promise<number>;
+  setBalance: (balance: number, tokenBalances: TokenBalances) => void;
 }
 
 type WalletStore = WalletState & WalletActions;
 
-const MNEMONIC_STORAGE_KEY = "spark_wallet_mnemonic";
-const SEED_STORAGE_KEY = "spark_wallet_seed";
+function getHistoryScope(state: WalletState): HistoryScope {
+  return {
+    network: state.initWalletNetwork,
+    identityPublicKey: state.pubkey,
+  };
+}
+
+// The signer each wallet was initialized with, for SDK clients of our own
+const walletSigners = new WeakMap<SparkWallet, SparkSigner>();
+
+async function initializeSparkWallet(
+  mnemonicOrSeed: string,
+  network: WalletNetwork
+) {
+  const signer = new DefaultSparkSigner();
+  const { wallet } = await SparkWallet.initialize({
+    mnemonicOrSeed,
+    signer,
+    options: {
+      network,
+    },
+  });
+  walletSigners.set(wallet, signer);
+  return wallet;
+}
+
+// Brings back addresses the operators know of, e.g. after a reinstall
+async function restoreDepositAddresses(
+  wallet: SparkWallet,
+  scope: HistoryScope
+) {
+  const [unused, staticAddresses] = await Promise.all([
+    wallet.getUnusedDepositAddresses(),
+    wallet.queryStaticDepositAddresses(),
+  ]);
+  const { addAddresses } = useDepositAddressesStore.getState();
+  addAddresses(scope, unused);
+  addAddresses(scope, staticAddresses, true);
+}
 
 const useWalletStore = create<WalletStore>()(
   devtools(
-    (set, get) => ({
-      // State Properties
-      wallet: undefined,
-      sparkAddress: "",
-      pubkey: "",
-      initWalletNetwork: DEFAULT_NETWORK,
-      mnemonic: null,
-      activeInputCurrency: getCurrency(
-        PERMANENT_CURRENCIES,
-        "USD",
-        DEFAULT_USD_CURRENCY
-      ),
-      activeAsset: getCurrency(
-        PERMANENT_CURRENCIES,
-        "BTC",
-        DEFAULT_BTC_CURRENCY
-      ),
-      assets: PERMANENT_CURRENCIES,
-      isInitialized: false,
-      initializationStatus: "idle",
-      initializationError: null,
-      onchainDepositAddresses: new Set(),
-      btcBalance: undefined,
-      tokenBalances: new Map(),
-
-      // Actions
-      setInitWalletNetwork: (network: NetworkType) => {
-        set({ initWalletNetwork: network });
-      },
-      setWallet: (wallet: SparkWallet) => {
-        set({ wallet, isInitialized: !!wallet });
-      },
-      setSparkAddress: (sparkAddress: string) => {
-        set({ sparkAddress });
-      },
-      setPubkey: (pubkey: string) => {
-        set({ pubkey });
-      },
-      setActiveInputCurrency: (currency: Currency) => {
-        set({ activeInputCurrency: currency });
-      },
-      setActiveAsset: (asset: Currency) => {
-        set({ activeAsset: asset });
-      },
-      updateAssets: (newAssets: Map<string, Currency>) => {
-        const currentAssets = get().assets;
-        newAssets.forEach((value, key) => {
-          currentAssets.set(key, value);
-        });
-        set({ assets: currentAssets });
-      },
-      setInitializationStatus: (
-        status: InitializationStatus,
-        error: string | null = null
-      ) => {
-        set({
-          initializationStatus: status,
-          isInitialized: status === "success",
-          initializationError: error,
-        });
-      },
-      setBalance: (
-        balance: number,
-        tokenBalances: Map<string, { balance: bigint }>
-      ) => {
-        set({ btcBalance: balance, tokenBalances: tokenBalances });
-      },
-      resetWallet: () => {
-        set({
-          wallet: undefined,
-          sparkAddress: "",
-          pubkey: "",
-          mnemonic: null,
-          isInitialized: false,
-          initializationStatus: "idle",
-          initializationError: null,
-          activeInputCurrency: getCurrency(
-            PERMANENT_CURRENCIES,
-            "USD",
-            DEFAULT_USD_CURRENCY
-          ),
-          activeAsset: getCurrency(
-            PERMANENT_CURRENCIES,
-            "BTC",
-            DEFAULT_BTC_CURRENCY
-          ),
-          assets: PERMANENT_CURRENCIES,
-          onchainDepositAddresses: new Set(),
-          btcBalance: undefined,
-          tokenBalances: new Map(),
-        });
-        sessionStorage.removeItem(MNEMONIC_STORAGE_KEY);
-        sessionStorage.removeItem(SEED_STORAGE_KEY);
-        sessionStorage.removeItem(STORAGE_KEY);
-        localStorage.removeItem(STORAGE_KEY);
-      },
-      setOnchainDepositAddresses: (addresses: Set<string>) => {
-        set({ onchainDepositAddresses: addresses });
-      },
-
-      // Wallet Operations
-      initWallet: async (mnemonic: string) => {
-        const {
-          initWalletNetwork,
-          setSparkAddress,
-          setPubkey,
-          setOnchainDepositAddresses,
-          setInitializationStatus,
-        } = get();
-        try {
-          console.log("initWallet: Initializing...");
-          const { wallet } = await SparkWallet.initialize({
-            mnemonicOrSeed: mnemonic,
-            options: {
-              network: initWalletNetwork,
-            },
+    persist(
+      (set, get) => ({
+        // State Properties
+        wallet: undefined,
+        sparkAddress: "",
+        pubkey: "",
+        initWalletNetwork: DEFAULT_NETWORK,
+        mnemonic: null,
+        activeInputCurrency: getCurrency(
+          PERMANENT_CURRENCIES,
+          "USD",
+          DEFAULT_USD_CURRENCY
+        ),
+        activeAsset: getCurrency(
+          PERMANENT_CURRENCIES,
+          "BTC",
+          DEFAULT_BTC_CURRENCY
+        ),
+        assets: PERMANENT_CURRENCIES,
+        isInitialized: false,
+        initializationStatus: "idle",
+        initializationError: null,
+        btcBalance: undefined,
+        tokenBalances: new Map(),
+
+        // Actions
+        setInitWalletNetwork: (network: WalletNetwork) => {
+          set({ initWalletNetwork: network });
+        },
+        switchNetwork: async (network: WalletNetwork) => {
+          const { initWalletNetwork, wallet, setInitializationStatus } = get();
+          if (network === initWalletNetwork) {
+            return;
+          }
+          console.log(`switchNetwork: ${initWalletNetwork} -> ${network}`);
+          // Drop the current wallet instance, loadStoredWallet re-initializes
+          // it for the new network from the active session.
+          try {
+            await wallet?.cleanupConnections();
+          } catch (error) {
+            console.warn(
+              "switchNetwork: Failed to clean up connections.",
+              error
+            );
+          }
+          set({
+            initWalletNetwork: network,
+            wallet: undefined,
+            sparkAddress: "",
+            pubkey: "",
+            btcBalance: undefined,
+            tokenBalances: new Map(),
           });
-          set({ wallet });
-          setSparkAddress(await wallet.getSparkAddress());
-          setPubkey(await wallet.getIdentityPublicKey());
-          setOnchainDepositAddresses(
-            new Set(await wallet.getUnusedDepositAddresses())
-          );
-          sessionStorage.setItem(MNEMONIC_STORAGE_KEY, mnemonic);
-          set({ mnemonic });
-          console.log("initWallet: Success.");
-          setInitializationStatus("success");
-        } catch (error) {
-          console.error("initWallet: Failed.", error);
-          setInitializationStatus(
-            "error",
-            error instanceof Error ? error.message : "Initialization failed"
-          );
-        }
-      },
-      initWalletFromSeed: async (seed: string) => {
-        const {
-          initWalletNetwork,
-          setSparkAddress,
-          setPubkey,
-          setOnchainDepositAddresses,
-          setInitializationStatus,
-        } = get();
-        try {
-          console.log("initWalletFromSeed: Initializing...");
-          const { wallet } = await SparkWallet.initialize({
-            mnemonicOrSeed: seed,
-            options: {
-              network: initWalletNetwork,
-            },
+          // Only a loaded wallet needs re-initializing, on the unlock and
+          // create screens the new network is picked up on the next init.
+          if (wallet) {
+            setInitializationStatus("idle");
+          }
+        },
+        setWallet: (wallet: SparkWallet) => {
+          set({ wallet, isInitialized: !!wallet });
+        },
+        setSparkAddress: (sparkAddress: string) => {
+          set({ sparkAddress });
+        },
+        setPubkey: (pubkey: string) => {
+          set({ pubkey });
+        },
+        setActiveInputCurrency: (currency: Currency) => {
+          set({ activeInputCurrency: currency });
+        },
+        setActiveAsset: (asset: Currency) => {
+          set({ activeAsset: asset });
+        },
+        updateAssets: (newAssets: Map<string, Currency>) => {
+          const currentAssets = get().assets;
+          newAssets.forEach((value, key) => {
+            currentAssets.set(key, value);
           });
-          set({ wallet });
-          setSparkAddress(await wallet.getSparkAddress());
-          setPubkey(await wallet.getIdentityPublicKey());
-          setOnchainDepositAddresses(
-            new Set(await wallet.getUnusedDepositAddresses())
-          );
-          sessionStorage.setItem(SEED_STORAGE_KEY, seed);
-          console.log("initWalletFromSeed: Success.");
-          setInitializationStatus("success");
-        } catch (error) {
-          console.error("initWalletFromSeed: Failed.", error);
-          setInitializationStatus(
-            "error",
-            error instanceof Error
-              ? error.message
-              : "Initialization from seed failed"
+          set({ assets: currentAssets });
+        },
+        setInitializationStatus: (
+          status: InitializationStatus,
+          error: string | null = null
+        ) => {
+          set({
+            initializationStatus: status,
+            isInitialized: status === "success",
+            initializationError: error,
+          });
+        },
+        setBalance: (balance: number, tokenBalances: TokenBalances) => {
+          set({ btcBalance: balance, tokenBalances: tokenBalances });
+        },
+        // Ends the session and drops the loaded wallet, unlocking again
+        // needs the password
+        lockWallet: async () => {
+          const { wallet } = get();
+          useMnemonicStore.getState().endSession();
+          set({
+            wallet: undefined,
+            mnemonic: null,
+            isInitialized: false,
+            initializationStatus: "needs_password",
+            initializationError: null,
+            btcBalance: undefined,
+            tokenBalances: new Map(),
+          });
+          try {
+            await wallet?.cleanupConnections();
+          } catch (error) {
+            console.warn("lockWallet: Failed to clean up connections.", error);
+          }
+        },
+        resetWallet: () => {
+          set({
+            wallet: undefined,
+            sparkAddress: "",
+            pubkey: "",
+            mnemonic: null,
+            isInitialized: false,
+            initializationStatus: "idle",
+            initializationError: null,
+            activeInputCurrency: getCurrency(
+              PERMANENT_CURRENCIES,
+              "USD",
+              DEFAULT_USD_CURRENCY
+            ),
+            activeAsset: getCurrency(
+              PERMANENT_CURRENCIES,
+              "BTC",
+              DEFAULT_BTC_CURRENCY
+            ),
+            assets: PERMANENT_CURRENCIES,
+            btcBalance: undefined,
+            tokenBalances: new Map(),
+          });
+          sessionStorage.removeItem(STORAGE_KEY);
+          localStorage.removeItem(STORAGE_KEY);
+          clearNetworkStorage();
+          clearAllHistory().catch((error) =>
+            console.error("resetWallet: Failed to clear history.", error)
           );
-        }
-      },
-      loadStoredWallet: async (): Promise<InitializationStatus> => {
-        const { setInitializationStatus, initializationStatus } = get();
+        },
 
-        // Allow re-running if idle OR if we are specifically in the needs_password state
-        // (triggered by unlock page after starting a session)
-        if (
-          initializationStatus !== "idle" &&
-          initializationStatus !== "needs_password"
-        ) {
-          console.log(
-            "loadStoredWallet: Skipping - already initialized or in non-recoverable state. Status:",
-            initializationStatus
-          );
-          return initializationStatus;
-        }
+        // Wallet Operations
+        initWallet: async (mnemonic: string) => {
+          const {
+            initWalletNetwork,
+            setSparkAddress,
+            setPubkey,
+            setInitializationStatus,
+          } = get();
+          try {
+            console.log("initWallet: Initializing...");
+            const wallet = await initializeSparkWallet(
+              mnemonic,
+              initWalletNetwork
+            );
+            set({ wallet });
+            setSparkAddress(await wallet.getSparkAddress());
+            setPubkey(await wallet.getIdentityPublicKey());
+            await restoreDepositAddresses(wallet, getHistoryScope(get()));
+            set({ mnemonic });
+            console.log("initWallet: Success.");
+            setInitializationStatus("success");
+          } catch (error) {
+            console.error("initWallet: Failed.", error);
+            setInitializationStatus(
+              "error",
+              error instanceof Error ? error.message : "Initialization failed"
+            );
+          }
+        },
+        initWalletFromSeed: async (seed: string) => {
+          const {
+            initWalletNetwork,
+            setSparkAddress,
+            setPubkey,
+            setInitializationStatus,
+          } = get();
+          try {
+            console.log("initWalletFromSeed: Initializing...");
+            const wallet = await initializeSparkWallet(seed, initWalletNetwork);
+            set({ wallet });
+            setSparkAddress(await wallet.getSparkAddress());
+            setPubkey(await wallet.getIdentityPublicKey());
+            await restoreDepositAddresses(wallet, getHistoryScope(get()));
+            console.log("initWalletFromSeed: Success.");
+            setInitializationStatus("success");
+          } catch (error) {
+            console.error("initWalletFromSeed: Failed.", error);
+            setInitializationStatus(
+              "error",
+              error instanceof Error
+                ? error.message
+                : "Initialization from seed failed"
+            );
+          }
+        },
+        loadStoredWallet: async (): Promise<InitializationStatus> => {
+          const { setInitializationStatus, initializationStatus } = get();
 
-        // Only set to loading if we weren't already in 'needs_password'
-        if (initializationStatus === "idle") {
-          setInitializationStatus("loading");
-        }
-        console.log("loadStoredWallet: Attempting to load...");
-
-        // Check for session stored mnemonic first
-        const sessionMnemonic = sessionStorage.getItem(MNEMONIC_STORAGE_KEY);
-        // Try to get mnemonic from mnemonic store's session
-        const storedSeed = sessionStorage.getItem(SEED_STORAGE_KEY);
-
-        // Check if we have an encrypted mnemonic in persistent storage
-        // by importing from the mnemonic store
-        const { getSessionMnemonic } = await import(
-          "@/lib/use-mnemonic-store"
-        ).then((module) => module.useMnemonicStore.getState());
-
-        try {
-          // First try session mnemonic (fastest, already decrypted)
-          if (sessionMnemonic) {
-            console.log("loadStoredWallet: Found valid session mnemonic.");
-            await get().initWallet(sessionMnemonic);
-          }
-          // Next try session seed
-          else if (storedSeed) {
-            console.log("loadStoredWallet: Found stored seed (no session).");
-            await get().initWalletFromSeed(storedSeed);
-          }
-          // Then try to get mnemonic from session in the mnemonic store
-          else {
-            const sessionMnemonicFromStore = await getSessionMnemonic();
-            if (sessionMnemonicFromStore) {
+          // Allow re-running if idle OR if we are specifically in the needs_password state
+          // (triggered by unlock page after starting a session)
+          if (
+            initializationStatus !== "idle" &&
+            initializationStatus !== "needs_password"
+          ) {
+            console.log(
+              "loadStoredWallet: Skipping - already initialized or in non-recoverable state. Status:",
+              initializationStatus
+            );
+            return initializationStatus;
+          }
+
+          // Only set to loading if we weren't already in 'needs_password'
+          if (initializationStatus === "idle") {
+            setInitializationStatus("loading");
+          }
+          console.log("loadStoredWallet: Attempting to load...");
+
+          clearLegacySessionSecrets();
+
+          try {
+            // The session in the mnemonic store, if it's still valid
+            const sessionMnemonic = await useMnemonicStore
+              .getState()
+              .getSessionMnemonic();
+            if (sessionMnemonic) {
+              console.log("loadStoredWallet: Found valid session mnemonic.");
+              await get().initWallet(sessionMnemonic);
+            }
+            // Check if we have an encrypted mnemonic that needs a password
+            else if (useMnemonicStore.getState().encryptedMnemonic) {
               console.log(
-                "loadStoredWallet: Found session mnemonic from mnemonic store."
+                "loadStoredWallet: Encrypted mnemonic found, but no session. Needs password."
               );
-              await get().initWallet(sessionMnemonicFromStore);
+              setInitializationStatus("needs_password");
+            } else {
+              console.log("loadStoredWallet: No stored mnemonic found.");
+              setInitializationStatus("no_wallet");
             }
-            // Check if we have an encrypted mnemonic that needs a password
-            else {
-              const encryptedMnemonic =
-                useMnemonicStore.getState().encryptedMnemonic;
-              if (encryptedMnemonic) {
-                console.log(
-                  "loadStoredWallet: Encrypted mnemonic found, but no session. Needs password."
-                );
-                setInitializationStatus("needs_password");
-              } else {
-                console.log(
-                  "loadStoredWallet: No stored mnemonic or seed found."
-                );
-                setInitializationStatus("no_wallet");
-              }
+          } catch (error) {
+            console.error(
+              "loadStoredWallet: Error during initialization.",
+              error
+            );
+            if (get().initializationStatus !== "error") {
+              setInitializationStatus(
+                "error",
+                error instanceof Error ? error.message : "Loading failed"
+              );
             }
           }
-        } catch (error) {
-          console.error(
-            "loadStoredWallet: Error during initialization.",
-            error
+          return get().initializationStatus;
+        },
+        getMasterPublicKey: async () => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          return await wallet.getIdentityPublicKey();
+        },
+        getAllTransfers: async (limit: number, offset: number) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          return await wallet.getTransfers(limit, offset);
+        },
+        // Hands out the newest address nothing was sent to yet
+        getBitcoinDepositAddress: async () => {
+          const unused = getDepositAddresses(getHistoryScope(get())).find(
+            (entry) =>
+              entry.status === "unused" && !entry.isStatic && !entry.retiredAt
           );
-          if (get().initializationStatus !== "error") {
-            setInitializationStatus(
-              "error",
-              error instanceof Error ? error.message : "Loading failed"
+          return unused?.address ?? get().generateDepositAddress();
+        },
+        generateDepositAddress: async () => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const btcDepositAddress = await wallet.getSingleUseDepositAddress();
+          if (!btcDepositAddress) {
+            throw new Error("Failed to generate deposit address");
+          }
+          useDepositAddressesStore
+            .getState()
+            .addAddresses(getHistoryScope(get()), [btcDepositAddress]);
+          return btcDepositAddress;
+        },
+        // Each wallet has one reusable address, created on first use
+        getStaticDepositAddress: async () => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const scope = getHistoryScope(get());
+          const known = getDepositAddresses(scope).find(
+            (entry) => entry.isStatic
+          );
+          if (known) {
+            return known.address;
+          }
+          const [existing] = await wallet.queryStaticDepositAddresses();
+          const address = existing ?? (await wallet.getStaticDepositAddress());
+          useDepositAddressesStore
+            .getState()
+            .addAddresses(scope, [address], true);
+          return address;
+        },
+        retryDepositClaim: async (depositId: string) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          await retryDepositClaim(wallet, getHistoryScope(get()), depositId);
+        },
+        getLeafExits: async () => {
+          const { wallet, initWalletNetwork } = get();
+          const signer = wallet && walletSigners.get(wallet);
+          if (!wallet || !signer) {
+            throw new Error("Wallet not initialized");
+          }
+          return getLeafExits(wallet, signer, initWalletNetwork);
+        },
+        getLeafSummaries: async () => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          return getLeafSummaries(wallet);
+        },
+        previewLeafSwap: async (leafIds: string[]) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          return previewLeafSwap(wallet, leafIds);
+        },
+        sendTransfer: async (amountSats: number, recipient: string) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const transfer = await wallet.transfer({
+            amountSats: amountSats,
+            receiverSparkAddress: recipient,
+          });
+          await recordTransactions(getHistoryScope(get()), [
+            fromWalletTransfer(transfer),
+          ]);
+          return toSparkSendResult(transfer);
+        },
+        createLightningInvoice: async (
+          amountSats: number,
+          memo?: string,
+          expirySeconds?: number
+        ) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const invoice = await wallet.createLightningInvoice({
+            amountSats,
+            memo,
+            expirySeconds,
+          });
+          // Kept so the history sync can watch for the payment. The memo
+          // becomes the label of the payment once it arrives.
+          await recordTransactions(getHistoryScope(get()), [
+            {
+              ...fromLightningReceiveRequest(invoice, get().initWalletNetwork),
+              label: memo || undefined,
+            },
+          ]);
+          return invoice;
+        },
+        getInvoiceStatus: async (requestId: string) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          return refreshInvoice(wallet, getHistoryScope(get()), requestId);
+        },
+        payLightningInvoice: async (
+          invoice: string,
+          {
+            amountSats,
+            maxFeeSats,
+            lightningAddress,
+          }: PayLightningInvoiceOptions = {}
+        ) => {
+          const { wallet, initWalletNetwork } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const { amountSats: invoiceAmountSats, paymentHash } = parseBolt11(
+            invoice,
+            initWalletNetwork
+          );
+          const isZeroAmount = invoiceAmountSats === 0;
+          if (isZeroAmount && !amountSats) {
+            throw new Error("Enter an amount to pay this zero-amount invoice.");
+          }
+          if (
+            !isZeroAmount &&
+            amountSats !== undefined &&
+            amountSats !== invoiceAmountSats
+          ) {
+            throw new Error(
+              `The invoice is for ${invoiceAmountSats.toLocaleString()} sats, not ${amountSats.toLocaleString()} sats.`
             );
           }
-        }
-        return get().initializationStatus;
-      },
-      getMasterPublicKey: async () => {
-        const { wallet } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        return await wallet.getIdentityPublicKey();
-      },
-      getAllTransfers: async (limit: number, offset: number) => {
-        const { wallet } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        return await wallet.getTransfers(limit, offset);
-      },
-      getBitcoinDepositAddress: async () => {
-        const { wallet, onchainDepositAddresses } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        const btcDepositAddress = await wallet.getSingleUseDepositAddress();
-        set({
-          onchainDepositAddresses: new Set([
-            btcDepositAddress,
-            ...Array.from(onchainDepositAddresses),
-          ]),
-        });
-        if (!btcDepositAddress) {
-          throw new Error("Failed to generate deposit address");
-        }
-        return btcDepositAddress;
-      },
-      sendTransfer: async (amountSats: number, recipient: string) => {
-        const { wallet } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        await wallet.transfer({
-          amountSats: amountSats,
-          receiverSparkAddress: recipient,
-        });
-      },
-      createLightningInvoice: async (amountSats: number, memo: string) => {
-        const { wallet } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        const invoice = await wallet.createLightningInvoice({
-          amountSats,
-          memo,
-        });
-        return invoice;
-      },
-      payLightningInvoice: async (invoice: string) => {
-        const { wallet } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        const feeEstimate = await wallet.getLightningSendFeeEstimate({
-          encodedInvoice: invoice,
-        });
-        console.log("payLightningInvoice: Fee estimate:", feeEstimate);
-        await wallet.payLightningInvoice({
-          invoice,
-          maxFeeSats: feeEstimate + 100,
-        });
-      },
-      transferTokens: async (
-        tokenPublicKey: string,
-        tokenAmount: bigint,
-        receiverSparkAddress: string
-      ) => {
-        const { wallet } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        await wallet.transferTokens({
-          tokenPublicKey,
-          tokenAmount,
-          receiverSparkAddress: receiverSparkAddress,
-        });
-      },
-      withdrawOnchain: async (address: string, amount: number) => {
-        const { wallet } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        await wallet.withdraw({
-          onchainAddress: address,
-          exitSpeed: ExitSpeed.MEDIUM,
-          amountSats: amount,
-        });
-      },
-      getInvoiceFeeEstimate: async (invoice: string) => {
-        const { wallet } = get();
-        if (!wallet) {
-          throw new Error("Wallet not initialized");
-        }
-        const feeEstimate = await wallet.getLightningSendFeeEstimate({
-          encodedInvoice: invoice,
-        });
-        return feeEstimate;
-      },
-    }),
+          // The SDK only takes an amount for zero-amount invoices
+          const amountSatsToSend = isZeroAmount ? amountSats : undefined;
+          const paymentAmountSats = amountSatsToSend ?? invoiceAmountSats;
+          const feeEstimate = await wallet.getLightningSendFeeEstimate({
+            encodedInvoice: invoice,
+            amountSats: amountSatsToSend,
+          });
+          console.log("payLightningInvoice: Fee estimate:", feeEstimate);
+          // Without any cap the SDK still needs a maximum, allow the estimate
+          const feeCap =
+            maxFeeSats ??
+            getLightningFeeCap(
+              paymentAmountSats,
+              useSettingsStore.getState().lightningFeePolicy
+            ) ??
+            feeEstimate;
+          if (feeEstimate > feeCap) {
+            throw new FeeCapExceededError(feeEstimate, feeCap);
+          }
+          const { btcBalance } = get();
+          if (
+            btcBalance !== undefined &&
+            paymentAmountSats + feeEstimate > btcBalance
+          ) {
+            throw new Error(
+              `This payment needs ${paymentAmountSats.toLocaleString()} sats plus a ${feeEstimate.toLocaleString()} sat fee, but only ${btcBalance.toLocaleString()} sats are available.`
+            );
+          }
+          // Without preferSpark the SDK always pays through the SSP and
+          // returns its send request rather than a Spark transfer
+          const sendRequest = (await wallet.payLightningInvoice({
+            invoice,
+            maxFeeSats: feeCap,
+            amountSatsToSend,
+          })) as LightningSendRequest;
+          await recordTransactions(getHistoryScope(get()), [
+            {
+              ...fromLightningSendRequest(
+                sendRequest,
+                initWalletNetwork,
+                paymentAmountSats
+              ),
+              counterparty: lightningAddress
+                ? { type: "lightning", identifier: lightningAddress }
+                : undefined,
+            },
+          ]);
+          return toLightningSendResult(sendRequest, paymentHash);
+        },
+        getLightningSendResult: async (requestId: string) => {
+          const { wallet, initWalletNetwork } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const sendRequest = await wallet.getLightningSendRequest(requestId);
+          if (!sendRequest) {
+            throw new Error(`Lightning payment ${requestId} not found`);
+          }
+          return toLightningSendResult(
+            sendRequest,
+            parseBolt11(sendRequest.encodedInvoice, initWalletNetwork)
+              .paymentHash
+          );
+        },
+        transferTokens: async (
+          tokenPublicKey: string,
+          tokenAmount: bigint,
+          receiverSparkAddress: string
+        ) => {
+          const { wallet, tokenBalances } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const tokenIdentifier =
+            tokenBalances.get(tokenPublicKey)?.tokenIdentifier;
+          if (!tokenIdentifier) {
+            throw new Error("The wallet holds none of this token");
+          }
+          const txId = await wallet.transferTokens({
+            tokenIdentifier,
+            tokenAmount,
+            receiverSparkAddress: receiverSparkAddress,
+          });
+          return { type: "token", txId };
+        },
+        withdrawOnchain: async (
+          address: string,
+          amount: number,
+          exitSpeed: WithdrawalSpeed = DEFAULT_WITHDRAWAL_SPEED
+        ) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          // The withdrawal is made against a fresh quote, the one shown
+          // while the amount was entered may have expired
+          const feeQuote = await wallet.getWithdrawalFeeQuote({
+            amountSats: amount,
+            withdrawalAddress: address,
+          });
+          if (!feeQuote) {
+            throw new Error("The withdrawal fee could not be quoted");
+          }
+          const coopExitRequest = await wallet.withdraw({
+            onchainAddress: address,
+            exitSpeed,
+            feeQuote,
+            amountSats: amount,
+          });
+          if (!coopExitRequest) {
+            throw new Error("The withdrawal request could not be created");
+          }
+          await recordTransactions(getHistoryScope(get()), [
+            fromCoopExitRequest(coopExitRequest, {
+              amountSats: amount,
+              address,
+            }),
+          ]);
+          return toWithdrawalSendResult(coopExitRequest);
+        },
+        getWithdrawalFeeQuotes: async (address: string, amount: number) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const feeQuote = await wallet.getWithdrawalFeeQuote({
+            amountSats: amount,
+            withdrawalAddress: address,
+          });
+          return toWithdrawalFeeQuotes(feeQuote);
+        },
+        getInvoiceFeeEstimate: async (invoice: string, amountSats?: number) => {
+          const { wallet } = get();
+          if (!wallet) {
+            throw new Error("Wallet not initialized");
+          }
+          const feeEstimate = await wallet.getLightningSendFeeEstimate({
+            encodedInvoice: invoice,
+            amountSats,
+          });
+          return feeEstimate;
+        },
+      }),
+      {
+        name: "wallet-network",
+        // Only the selected network survives reloads, the rest is runtime state
+        partialize: (state) => ({ initWalletNetwork: state.initWalletNetwork }),
+      }
+    ),
     {
       name: "wallet-store",
       enabled: process.env.NODE_ENV === "development",
@@ -468,6 +792,12 @@ const useWalletStore = create<WalletStore>()(
   )
 );
 
+// Per-network stores follow the selected network
+loadNetworkStorage(useWalletStore.getState().initWalletNetwork);
+useWalletStore.subscribe((state) =>
+  loadNetworkStorage(state.initWalletNetwork)
+);
+
 export function useWallet() {
   // Select each property individually to avoid creating new objects
   const wallet = useWalletStore((state) => state.wallet);
@@ -486,9 +816,6 @@ export function useWallet() {
   const initWalletNetwork = useWalletStore((state) => state.initWalletNetwork);
   const sparkAddress = useWalletStore((state) => state.sparkAddress);
   const pubkey = useWalletStore((state) => state.pubkey);
-  const onchainDepositAddresses = useWalletStore(
-    (state) => state.onchainDepositAddresses
-  );
 
   // Actions
   const {
@@ -496,19 +823,29 @@ export function useWallet() {
     setActiveAsset,
     updateAssets,
     setInitWalletNetwork,
+    switchNetwork: switchWalletNetwork,
     getMasterPublicKey,
     getAllTransfers,
     getBitcoinDepositAddress,
+    generateDepositAddress,
+    getStaticDepositAddress,
+    retryDepositClaim,
+    getLeafExits,
+    getLeafSummaries,
+    previewLeafSwap,
     createLightningInvoice,
+    getInvoiceStatus,
     sendTransfer,
     payLightningInvoice,
+    getLightningSendResult,
     transferTokens,
     withdrawOnchain,
+    getWithdrawalFeeQuotes,
     resetWallet,
+    lockWallet,
     initWallet,
     initWalletFromSeed,
     loadStoredWallet,
-    setOnchainDepositAddresses,
     getInvoiceFeeEstimate,
   } = useWalletStore();
 
@@ -522,8 +859,18 @@ export function useWallet() {
   const tokenBalancesValue = useWalletStore((state) => state.tokenBalances);
   const setBalance = useWalletStore((state) => state.setBalance);
 
+  // Forget the cached init result so the wallet re-initializes, even when
+  // switching back to a network that was loaded before.
+  const switchNetwork = useCallback(
+    async (network: WalletNetwork) => {
+      queryClient.removeQueries({ queryKey: ["wallet", "init"] });
+      await switchWalletNetwork(network);
+    },
+    [queryClient, switchWalletNetwork]
+  );
+
   const initQuery = useQuery({
-    queryKey: ["wallet", "init"],
+    queryKey: ["wallet", "init", initWalletNetwork],
     queryFn: async () => {
       return await loadStoredWallet();
     },
@@ -535,57 +882,20 @@ export function useWallet() {
     staleTime: Infinity,
   });
 
-  // Re-added L1 Deposit Polling Query
+  // Watches the persisted deposit addresses and claims confirmed deposits
   useQuery({
-    queryKey: ["wallet", "l1Deposit"],
+    queryKey: ["wallet", "l1Deposit", initWalletNetwork],
     queryFn: async () => {
       if (!wallet) {
         console.log("l1Deposit check skipped: Wallet not ready.");
         return null;
       }
-      console.log("l1Deposit check running...");
-      const unClaimedAddresses: Set<string> = new Set(
-        Array.from(onchainDepositAddresses)
-      );
-      let claimedSomething = false;
-      await Promise.all(
-        Array.from(onchainDepositAddresses).map(async (addr) => {
-          const latestDepositTxId = await getLatestDepositTxId(addr);
-          if (latestDepositTxId) {
-            try {
-              console.log(
-                `Attempting to claim deposit ${latestDepositTxId} for address ${addr}`
-              );
-              await wallet.claimDeposit(latestDepositTxId);
-              unClaimedAddresses.delete(addr);
-              claimedSomething = true;
-              console.log(`Successfully claimed deposit ${latestDepositTxId}`);
-            } catch (e) {
-              console.error(
-                `Error claiming deposit ${latestDepositTxId} for ${addr}:`,
-                e
-              );
-            }
-          }
-        })
-      );
-
-      if (
-        claimedSomething ||
-        onchainDepositAddresses.size !== unClaimedAddresses.size
-      ) {
-        setOnchainDepositAddresses(unClaimedAddresses);
-        // We no longer invalidate the balance query here, as balance is updated via events
-        // queryClient.invalidateQueries({ queryKey: ["wallet", "balance"] });
-        console.log("l1Deposit check: Addresses updated.");
-      } else {
-        console.log("l1Deposit check: No deposits found or claimed.");
-      }
-
       // NOTE: If a claim happens, the 'deposit:confirmed' event should trigger
       // a balance update shortly after, handled by the useEffect below.
-      // This query's primary role now is to trigger claims.
-      return claimedSomething;
+      return syncDepositAddresses(wallet, {
+        network: initWalletNetwork,
+        identityPublicKey: pubkey,
+      });
     },
     enabled: initializationStatus === "success",
     refetchOnMount: true,
@@ -622,8 +932,15 @@ export function useWallet() {
         if (!isMounted) return; // Check again after await
 
         const newBtcBalance = Number(currentBalance?.balance ?? 0);
-        const newTokenBalances = (currentBalance?.tokenBalances ??
-          new Map()) as Map<string, { balance: bigint }>;
+        const newTokenBalances: TokenBalances = new Map(
+          Array.from(
+            currentBalance?.tokenBalances ?? [],
+            ([tokenIdentifier, { balance, tokenMetadata }]) => [
+              tokenMetadata.tokenPublicKey,
+              { balance, tokenIdentifier },
+            ]
+          )
+        );
 
         // Update the store state
         setBalance(newBtcBalance, newTokenBalances);
@@ -644,7 +961,7 @@ export function useWallet() {
 
           // Invalidate transaction list to refresh
           queryClient.invalidateQueries({
-            queryKey: ["transactions", sparkAddress],
+            queryKey: ["transactions", initWalletNetwork, sparkAddress],
           });
 
           console.log(
@@ -701,7 +1018,14 @@ export function useWallet() {
         wallet.off("deposit:confirmed", handleConfirmed);
       }
     };
-  }, [wallet, initializationStatus, queryClient, setBalance]); // Dependencies
+  }, [
+    wallet,
+    initializationStatus,
+    initWalletNetwork,
+    sparkAddress,
+    queryClient,
+    setBalance,
+  ]); // Dependencies
 
   const satsUsdPriceQuery = useQuery({
     queryKey: ["satsUsdPrice"],
@@ -740,20 +1064,30 @@ export function useWallet() {
     initWalletNetwork,
     sparkAddress,
     pubkey,
-    onchainDepositAddresses,
     setActiveInputCurrency,
     setActiveAsset,
     updateAssets,
     setInitWalletNetwork,
+    switchNetwork,
     getMasterPublicKey,
     getAllTransfers,
     getBitcoinDepositAddress,
+    generateDepositAddress,
+    getStaticDepositAddress,
+    retryDepositClaim,
+    getLeafExits,
+    getLeafSummaries,
+    previewLeafSwap,
     createLightningInvoice,
+    getInvoiceStatus,
     sendTransfer,
     payLightningInvoice,
+    getLightningSendResult,
     transferTokens,
     withdrawOnchain,
+    getWithdrawalFeeQuotes,
     resetWallet,
+    lockWallet,
     initWallet,
     initWalletFromSeed,
     loadStoredWallet,
@@ -0,0 +1,113 @@
+"use client";
+
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import useWalletStore from "@/lib/use-wallet-store";
+import { shortTokenPubkey } from "@/lib/token-utils";
+import { getExplorerClient } from "@/lib/explorer-api";
+
+// Explorer TokenMetadata, with the fields the wallet can live without optional
+export interface WalletTokenMetadata {
+  pubkey: string;
+  name: string;
+  ticker: string;
+  decimals: number;
+  iconUrl?: string;
+  priceUsd?: number;
+}
+
+export interface WalletToken extends WalletTokenMetadata {
+  balance: bigint;
+  valueUsd?: number;
+}
+
+/**
+ * Placeholder metadata for tokens the explorer doesn't know about (yet).
+ * Decimals default to 0 so raw balances are never silently rescaled.
+ */
+export function unknownTokenMetadata(pubkey: string): WalletTokenMetadata {
+  return {
+    pubkey,
+    name: "Unknown Token",
+    ticker: shortTokenPubkey(pubkey),
+    decimals: 0,
+  };
+}
+
+/**
+ * Combines the wallet's token balances with explorer metadata
+ * (name, ticker, decimals, icon) for each held token.
+ */
+export function useWalletTokens() {
+  const sparkAddress = useWalletStore((state) => state.sparkAddress);
+  const tokenBalances = useWalletStore((state) => state.tokenBalances);
+  const network = useWalletStore((state) => state.initWalletNetwork);
+
+  const tokenPubkeys = useMemo(
+    () => Array.from(tokenBalances.keys()),
+    [tokenBalances]
+  );
+
+  const addressTokensQuery = useQuery({
+    queryKey: ["addressTokens", network, sparkAddress],
+    queryFn: () =>
+      getExplorerClient().getAddressTokens(sparkAddress, { network }),
+    enabled: !!sparkAddress && tokenPubkeys.length > 0,
+    staleTime: 60 * 1000,
+  });
+
+  const tokenDetails = useQueries({
+    queries: tokenPubkeys.map((pubkey) => ({
+      queryKey: ["tokenDetails", network, pubkey],
+      queryFn: () => getExplorerClient().getTokenDetails(pubkey, { network }),
+      staleTime: 60 * 60 * 1000, // Token metadata rarely changes
+    })),
+    combine: (results) => ({
+      metadata: results.map((result) => result.data?.metadata),
+      isLoading: results.some((result) => result.isLoading),
+    }),
+  });
+
+  const tokens = useMemo<WalletToken[]>(() => {
+    const addressTokens = new Map(
+      (addressTokensQuery.data?.tokens ?? []).map((token) => [
+        token.pubkey,
+        token,
+      ])
+    );
+
+    return tokenPubkeys.map((pubkey, index) => {
+      const details = tokenDetails.metadata[index];
+      const addressToken = addressTokens.get(pubkey);
+      const metadata: WalletTokenMetadata = details
+        ? {
+            pubkey,
+            name: details.name,
+            ticker: details.ticker,
+            decimals: details.decimals,
+            iconUrl: details.iconUrl || undefined,
+            priceUsd: details.priceUsd,
+          }
+        : addressToken
+        ? {
+            pubkey,
+            name: addressToken.name,
+            ticker: addressToken.ticker,
+            decimals: addressToken.decimals,
+          }
+        : unknownTokenMetadata(pubkey);
+
+      return {
+        ...metadata,
+        balance: tokenBalances.get(pubkey)?.balance ?? BigInt(0),
+        valueUsd: addressToken?.valueUsd,
+      };
+    });
+  }, [tokenPubkeys, tokenBalances, addressTokensQuery.data, tokenDetails]);
+
+  return {
+    tokens,
+    isLoading: addressTokensQuery.isLoading || tokenDetails.isLoading,
+    error: addressTokensQuery.error,
+  };
+}
@@ -0,0 +1,63 @@
+import {
+  ExitSpeed,
+  type CoopExitFeeQuote,
+  type CurrencyAmount,
+} from "@buildonspark/spark-sdk/types";
+
+/**
+ * Speeds offered for on-chain withdrawals, fastest first.
+ */
+export const WITHDRAWAL_SPEEDS = [
+  ExitSpeed.FAST,
+  ExitSpeed.MEDIUM,
+  ExitSpeed.SLOW,
+] as const;
+
+export type WithdrawalSpeed = (typeof WITHDRAWAL_SPEEDS)[number];
+
+export const DEFAULT_WITHDRAWAL_SPEED: WithdrawalSpeed = ExitSpeed.MEDIUM;
+
+export const WITHDRAWAL_SPEED_LABELS: Record<WithdrawalSpeed, string> = {
+  [ExitSpeed.FAST]: "Fast",
+  [ExitSpeed.MEDIUM]: "Medium",
+  [ExitSpeed.SLOW]: "Slow",
+};
+
+export interface WithdrawalFeeQuote {
+  speed: WithdrawalSpeed;
+  feeSats: number; // Service fee plus the L1 broadcast fee
+}
+
+export type WithdrawalFeeQuotes = Partial<
+  Record<WithdrawalSpeed, WithdrawalFeeQuote>
+>;
+
+// The SDK reports these amounts in sats and adds them the same way when
+// it checks a withdrawal against the selected leaves
+function toFeeSats(l1BroadcastFee?: CurrencyAmount, userFee?: CurrencyAmount) {
+  return (l1BroadcastFee?.originalValue || 0) + (userFee?.originalValue || 0);
+}
+
+/**
+ * Maps the SSP's withdrawal fee quote to a fee per speed. Without a quote
+ * no speed can be offered.
+ */
+export function toWithdrawalFeeQuotes(
+  feeQuote: CoopExitFeeQuote | null
+): WithdrawalFeeQuotes {
+  if (!feeQuote) return {};
+  return {
+    [ExitSpeed.FAST]: {
+      speed: ExitSpeed.FAST,
+      feeSats: toFeeSats(feeQuote.l1BroadcastFeeFast, feeQuote.userFeeFast),
+    },
+    [ExitSpeed.MEDIUM]: {
+      speed: ExitSpeed.MEDIUM,
+      feeSats: toFeeSats(feeQuote.l1BroadcastFeeMedium, feeQuote.userFeeMedium),
+    },
+    [ExitSpeed.SLOW]: {
+      speed: ExitSpeed.SLOW,
+      feeSats: toFeeSats(feeQuote.l1BroadcastFeeSlow, feeQuote.userFeeSlow),
+    },
+  };
+}
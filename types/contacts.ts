@@ -0,0 +1,18 @@
+// Only reusable destinations can be saved, invoices are single-use
+export type ContactEntryType = "spark" | "lightning_address" | "bitcoin";
+
+export interface ContactEntry {
+  type: ContactEntryType;
+  value: string; // Normalized address, as returned by the payment request parser
+}
+
+export interface Contact {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+  notes?: string;
+  entries: ContactEntry[];
+  createdAt: string; // ISO date-time
+}
+
+export type ContactInput = Omit<Contact, "id" | "createdAt">;
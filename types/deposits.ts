@@ -0,0 +1,47 @@
+export type DepositAddressStatus =
+  | "unused"
+  | "awaiting_confirmation" // Funds seen on-chain, not claimed into Spark yet
+  | "claimed";
+
+/**
+ * A Bitcoin deposit address generated for one wallet. Single-use unless
+ * `isStatic`, the wallet's one reusable address.
+ */
+export interface DepositAddress {
+  address: string;
+  identityPublicKey: string;
+  isStatic?: boolean; // Claimed through the SSP, for a fee
+  status: DepositAddressStatus;
+  amountSats?: number; // Received on-chain so far
+  txid?: string; // Latest deposit transaction
+  createdAt: string; // ISO date-time
+  checkedAt?: string; // ISO date-time of the last on-chain check
+  retiredAt?: string; // ISO date-time, no longer handed out or watched
+}
+
+export type DepositStatus =
+  | "awaiting_confirmation"
+  | "claimable" // Deep enough to claim, retried with backoff until it works
+  | "claimed"
+  | "failed"; // Out of automatic retries, waits for a manual retry
+
+/**
+ * An on-chain output paying a deposit address, tracked until it's claimed.
+ * Single-use addresses can still be paid more than once, and one transaction
+ * can pay several addresses, so deposits are told apart by `id`.
+ */
+export interface Deposit {
+  id: string; // "txid:outputIndex"
+  txid: string;
+  outputIndex: number;
+  address: string;
+  identityPublicKey: string;
+  amountSats: number;
+  confirmations: number;
+  status: DepositStatus;
+  claimAttempts: number; // Since the last manual retry
+  nextClaimAt?: string; // ISO date-time, backoff after a failed claim
+  claimError?: string;
+  firstSeenAt: string; // ISO date-time
+  claimedAt?: string; // ISO date-time
+}
@@ -0,0 +1,234 @@
+// Types for the Equaleyes explorer API, mirroring the schemas in openapi.json.
+// Keep these in sync with the spec when it changes.
+
+export type ExplorerNetwork = "MAINNET" | "REGTEST";
+
+export type TransactionType =
+  | "spark_transfer"
+  | "lightning_payment"
+  | "bitcoin_deposit"
+  | "bitcoin_withdrawal";
+
+export type TransactionDirection = "incoming" | "outgoing";
+
+export type TransactionStatus = "confirmed" | "pending" | "failed";
+
+export type TpvPeriod = "24h" | "7d" | "30d" | "all";
+
+export interface TransactionMeta {
+  totalItems: number;
+  limit: number;
+  offset: number;
+}
+
+export interface TransactionCounterparty {
+  type: string;
+  identifier: string;
+  pubkey?: string | null;
+}
+
+export interface TransactionParty {
+  type: string;
+  identifier: string;
+  pubkey?: string | null;
+}
+
+export interface AddressTransaction {
+  id: string;
+  type: TransactionType;
+  direction: TransactionDirection;
+  counterparty: TransactionCounterparty;
+  amountSats: number;
+  valueUsd: number;
+  timestamp: string; // ISO date-time
+  status: TransactionStatus;
+  txid?: string | null;
+}
+
+export interface AddressTransactionsResponse {
+  meta: TransactionMeta;
+  data: AddressTransaction[];
+}
+
+export interface BalanceSummary {
+  btcSoftBalanceSats: number;
+  btcHardBalanceSats: number;
+  btcValueUsd: number;
+  totalTokenValueUsd: number;
+}
+
+export interface AddressToken {
+  pubkey: string;
+  name: string;
+  ticker: string;
+  decimals: number;
+  balance: number;
+  valueUsd: number;
+}
+
+export interface AddressSummaryResponse {
+  sparkAddress: string;
+  publicKey: string;
+  balance: BalanceSummary;
+  totalValueUsd: number;
+  transactionCount: number;
+  tokenCount: number;
+  tokens?: AddressToken[] | null;
+}
+
+export interface AddressTokensResponse {
+  address: string;
+  pubkey: string;
+  totalValueUsd: number;
+  tokens: AddressToken[];
+}
+
+export interface TxStatus {
+  confirmed: boolean;
+  block_height?: number | null;
+  block_time?: number | null;
+}
+
+export interface TxVin {
+  prevout?: Record<string, unknown> | null;
+  witness?: string[] | null;
+}
+
+export interface TxVout {
+  value: number;
+  scriptpubkey_address?: string | null;
+}
+
+export interface BitcoinTxDetails {
+  txid: string;
+  vin: TxVin[];
+  vout: TxVout[];
+  status: TxStatus;
+  fee: number;
+}
+
+export interface TxV1Response {
+  id: string;
+  type: string;
+  status: TransactionStatus;
+  timestamp: string; // ISO date-time
+  from?: TransactionParty | null;
+  to?: TransactionParty | null;
+  amountSats: number;
+  valueUsd: number;
+  timeTakenSeconds?: number | null;
+  txid?: string | null;
+  bitcoinTxData?: BitcoinTxDetails | null;
+}
+
+export interface WalletLeaderboardEntry {
+  rank: number;
+  sparkAddress: string;
+  pubkey: string;
+  totalValueSats: number;
+  totalValueUsd?: number;
+}
+
+export interface WalletLeaderboard {
+  leaderboard: WalletLeaderboardEntry[];
+  currentBtcPriceUsd?: number;
+}
+
+export interface NetworkStats {
+  totalValueLockedSats: number;
+  totalValueLockedUsd: number;
+  activeAccounts: number;
+  transactions24h: number;
+  currentBtcPriceUsd: number;
+}
+
+export interface PeriodTpvStats {
+  period: TpvPeriod;
+  tpvSats: number;
+  tpvUsd: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface TokenMetadata {
+  pubkey: string;
+  name: string;
+  ticker: string;
+  decimals: number;
+  iconUrl: string;
+  holderCount: number;
+  priceUsd: number;
+}
+
+export interface TokenDetailsResponse {
+  metadata: TokenMetadata;
+  totalSupply: number;
+  marketCapUsd: number;
+  volume24hUsd: number;
+}
+
+export interface TokenTransactionMetadata {
+  pubkey: string;
+  name: string;
+  ticker: string;
+  decimals: number;
+}
+
+export interface TokenTransaction {
+  id: string;
+  type: string;
+  status: string;
+  timestamp: string;
+  from: TransactionParty;
+  to: TransactionParty;
+  amount: number;
+  valueUsd: number;
+  tokenMetadata: TokenTransactionMetadata;
+}
+
+export interface TokenTransactionsResponse {
+  meta: TransactionMeta;
+  data: TokenTransaction[];
+}
+
+export interface TokenHolder {
+  address: string;
+  pubkey: string;
+  balance: number;
+  valueUsd: number;
+  percentage: number;
+}
+
+export interface TokenHoldersResponse {
+  meta: TransactionMeta;
+  data: TokenHolder[];
+}
+
+export interface TokenLeaderboardEntry {
+  rank: number;
+  pubkey: string;
+  name: string;
+  ticker: string;
+  decimals: number;
+  iconUrl: string;
+  holderCount: number;
+  priceUsd: number;
+  totalSupply: number;
+  marketCapUsd: number;
+  volume24hUsd: number;
+}
+
+export interface TokenLeaderboardResponse {
+  totalTokens: number;
+  leaderboard: TokenLeaderboardEntry[];
+}
+
+export interface ValidationError {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+}
+
+export interface HTTPValidationError {
+  detail?: ValidationError[];
+}
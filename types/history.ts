@@ -0,0 +1,58 @@
+import type {
+  TransactionCounterparty,
+  TransactionDirection,
+  TransactionStatus,
+  TransactionType,
+} from "@/types/explorer";
+
+export type TransactionCategory =
+  | "income"
+  | "expense"
+  | "transfer" // Between the user's own wallets
+  | "gift"
+  | "donation"
+  | "refund"
+  | "other";
+
+/**
+ * A wallet transaction as stored in the local history database.
+ * Shares the explorer's type/direction/status vocabulary so the same list
+ * and detail components can render either source.
+ */
+export interface HistoryTransaction {
+  id: string; // Spark transfer id, or a provisional id until the transfer is known
+  type: TransactionType;
+  direction: TransactionDirection;
+  status: TransactionStatus;
+  amountSats: number;
+  // Outgoing only. Lightning pays it on top of amountSats, withdrawals take
+  // it out of amountSats.
+  feeSats?: number;
+  timestamp: string; // ISO date-time
+  counterparty?: TransactionCounterparty | null;
+  transferId?: string;
+  txid?: string; // On-chain transaction for deposits and withdrawals
+  // Lightning and withdrawal requests made through the SSP
+  requestId?: string;
+  requestStatus?: string;
+  invoice?: string;
+  description?: string;
+  paymentHash?: string;
+  paymentPreimage?: string;
+  expiresAt?: string; // ISO date-time, unpaid invoices only
+  completedAt?: string; // ISO date-time a received invoice was paid
+  // Added by the user, never touched by syncs
+  label?: string;
+  category?: TransactionCategory;
+  note?: string;
+}
+
+export type TransactionAnnotation = Pick<
+  HistoryTransaction,
+  "label" | "category" | "note"
+>;
+
+export interface HistoryPage {
+  data: HistoryTransaction[];
+  nextCursor?: string; // Absent on the last page
+}
@@ -0,0 +1,45 @@
+/**
+ * One pre-signed transaction on the way from the on-chain deposit to a leaf
+ * owned outright by the wallet.
+ */
+export interface ExitTransaction {
+  txid: string;
+  hex: string; // Signed raw transaction, zero-fee
+  kind: "node" | "refund"; // Refund is the last one, paying the wallet's key
+  timelockBlocks: number; // Confirmations of the previous transaction it waits for
+  needsFeeBump: boolean; // Has a zero-value anchor, relays only with a CPFP child
+}
+
+/**
+ * Everything needed to take one leaf on-chain without the Spark operators.
+ */
+export interface LeafExit {
+  leafId: string;
+  treeId: string;
+  valueSats: number;
+  transactions: ExitTransaction[]; // In broadcast order
+  verificationError?: string; // Absent when the chain checks out
+}
+
+/**
+ * A Spark leaf the wallet owns, as shown in the leaf inspector.
+ */
+export interface LeafSummary {
+  id: string;
+  treeId: string;
+  valueSats: number;
+  timelockBlocks: number; // Of the refund transaction, shrinks with every transfer
+  receivedAt?: string; // ISO date-time of the transfer that brought it in, if found
+}
+
+/**
+ * What swapping a set of leaves with the SSP would leave the wallet with.
+ */
+export interface LeafSwapPreview {
+  leafIds: string[];
+  totalSats: number;
+  resultingLeavesSats: number[]; // Largest first
+  leafCountBefore: number; // Whole wallet
+  leafCountAfter: number;
+  feeEstimateSats: number; // SSP's quote, the swap itself may charge less
+}